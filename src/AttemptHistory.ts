@@ -0,0 +1,49 @@
+import { attemptHistoryHeaderNames } from './RateLimitingConstants';
+
+/**
+ * This interface records the outcome of a single attempt of a request.
+ */
+export interface AttemptRecord {
+  /**
+   * The number of the attempt, starting at 1.
+   */
+  attemptNumber: number
+  /**
+   * The time the attempt was sent in milliseconds since the epoch.
+   */
+  startTime: number
+  /**
+   * The time the attempt completed in milliseconds since the epoch.
+   */
+  endTime: number
+  /**
+   * The response status or undefined if the attempt failed with an error.
+   */
+  status?: number
+  /**
+   * The error the attempt failed with or undefined if a response was received.
+   */
+  error?: any
+  /**
+   * The rate limiting related response headers such as `Retry-After`, keyed by lower case name.
+   */
+  headers: { [name: string]: string }
+  /**
+   * The delay chosen before retrying or undefined if the attempt was not retried.
+   */
+  retryDelayMillis?: number
+}
+
+/**
+ * Extracts the rate limiting related headers of a response for recording in an `AttemptRecord`.
+ */
+export const extractHeadersOfInterest = (headers: Headers): { [name: string]: string } => {
+  const headersOfInterest: { [name: string]: string } = {};
+  for (const headerName of attemptHistoryHeaderNames) {
+    const value = headers.get(headerName);
+    if (value !== null && value !== undefined) {
+      headersOfInterest[headerName.toLowerCase()] = value;
+    }
+  }
+  return headersOfInterest;
+}
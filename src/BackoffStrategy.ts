@@ -0,0 +1,172 @@
+import { minJitterMultiplier } from './RateLimitingConstants';
+import { BackoffStrategyOptions, RateLimitingHandlingOptions } from './RateLimitingHandlingOptions';
+import { MathRandom, Random } from './Random';
+
+/**
+ * This interface abstracts the computation of retry delays when the response does not dictate the
+ * delay through headers such as `Retry-After`.
+ */
+export interface BackoffStrategy {
+
+  /**
+   * This method computes the delay before the next retry.
+   * @param retryNumber the number of the retry about to be made, starting at 1.
+   * @param lastRetryDelayMillis the delay before the previous retry or 0 if this is the first retry.
+   * @param options the options the request is being handled with.
+   * @returns the number of milliseconds to delay the retry by.
+   */
+  computeRetryDelayMillis: (
+    retryNumber: number,
+    lastRetryDelayMillis: number,
+    options: RateLimitingHandlingOptions
+  ) => number;
+
+}
+
+const randomInRange = (random: Random, min: number, max: number): number => {
+  return min + random.random() * (max - min);
+}
+
+const computeExponentialDelayMillis = (retryNumber: number, options: RateLimitingHandlingOptions): number => {
+  return Math.min(
+    options.initialRetryDelayMillis * Math.pow(options.backoffMultiplier, retryNumber - 1),
+    options.maxRetryDelayMillis);
+}
+
+/**
+ * This strategy multiplies the previous delay by `backoffMultiplier` and jitters the result by a
+ * multiplier between `minJitterMultiplier` and `maxJitterMultiplier`. This is the default strategy.
+ */
+export class ExponentialBackoffStrategy implements BackoffStrategy {
+
+  private random: Random;
+
+  constructor(random: Random = new MathRandom()) {
+    this.random = random;
+  }
+
+  computeRetryDelayMillis = (retryNumber: number, lastRetryDelayMillis: number, options: RateLimitingHandlingOptions): number => {
+    let unjitteredRetryDelayMillis = options.initialRetryDelayMillis;
+    if (lastRetryDelayMillis > 0) {
+      unjitteredRetryDelayMillis = Math.min(options.backoffMultiplier * lastRetryDelayMillis, options.maxRetryDelayMillis);
+    }
+    return unjitteredRetryDelayMillis * randomInRange(this.random, minJitterMultiplier, options.maxJitterMultiplier);
+  }
+
+}
+
+/**
+ * This strategy picks a delay at random between 0 and the capped exponential delay. See
+ * https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/.
+ */
+export class FullJitterBackoffStrategy implements BackoffStrategy {
+
+  private random: Random;
+
+  constructor(random: Random = new MathRandom()) {
+    this.random = random;
+  }
+
+  computeRetryDelayMillis = (retryNumber: number, lastRetryDelayMillis: number, options: RateLimitingHandlingOptions): number => {
+    return randomInRange(this.random, 0, computeExponentialDelayMillis(retryNumber, options));
+  }
+
+}
+
+/**
+ * This strategy keeps half of the capped exponential delay and picks the other half at random.
+ */
+export class EqualJitterBackoffStrategy implements BackoffStrategy {
+
+  private random: Random;
+
+  constructor(random: Random = new MathRandom()) {
+    this.random = random;
+  }
+
+  computeRetryDelayMillis = (retryNumber: number, lastRetryDelayMillis: number, options: RateLimitingHandlingOptions): number => {
+    const halfDelayMillis = computeExponentialDelayMillis(retryNumber, options) / 2;
+    return halfDelayMillis + randomInRange(this.random, 0, halfDelayMillis);
+  }
+
+}
+
+/**
+ * This strategy picks a delay at random between `initialRetryDelayMillis` and three times the
+ * previous delay, capped at `maxRetryDelayMillis`.
+ */
+export class DecorrelatedJitterBackoffStrategy implements BackoffStrategy {
+
+  private random: Random;
+
+  constructor(random: Random = new MathRandom()) {
+    this.random = random;
+  }
+
+  computeRetryDelayMillis = (retryNumber: number, lastRetryDelayMillis: number, options: RateLimitingHandlingOptions): number => {
+    const previousDelayMillis = Math.max(lastRetryDelayMillis, options.initialRetryDelayMillis);
+    return Math.min(
+      randomInRange(this.random, options.initialRetryDelayMillis, 3 * previousDelayMillis),
+      options.maxRetryDelayMillis);
+  }
+
+}
+
+/**
+ * This strategy increases the delay by a fixed increment on every retry.
+ */
+export class LinearBackoffStrategy implements BackoffStrategy {
+
+  private incrementMillis: undefined | number;
+
+  /**
+   * @param incrementMillis the amount to increase the delay by on each retry. This defaults to
+   * `initialRetryDelayMillis`.
+   */
+  constructor(incrementMillis?: number) {
+    this.incrementMillis = incrementMillis;
+  }
+
+  computeRetryDelayMillis = (retryNumber: number, lastRetryDelayMillis: number, options: RateLimitingHandlingOptions): number => {
+    const incrementMillis = this.incrementMillis ?? options.initialRetryDelayMillis;
+    return Math.min(options.initialRetryDelayMillis + (retryNumber - 1) * incrementMillis, options.maxRetryDelayMillis);
+  }
+
+}
+
+/**
+ * This strategy always delays by `initialRetryDelayMillis`.
+ */
+export class ConstantBackoffStrategy implements BackoffStrategy {
+
+  computeRetryDelayMillis = (retryNumber: number, lastRetryDelayMillis: number, options: RateLimitingHandlingOptions): number => {
+    return Math.min(options.initialRetryDelayMillis, options.maxRetryDelayMillis);
+  }
+
+}
+
+/**
+ * Builds the `BackoffStrategy` described by the given options.
+ * @param backoffStrategyOptions the backoff strategy options or undefined to use the default
+ * exponential strategy.
+ * @param random the source of randomness for strategies that apply jitter.
+ */
+export const buildBackoffStrategy = (
+    backoffStrategyOptions: undefined | BackoffStrategyOptions,
+    random: Random = new MathRandom()): BackoffStrategy => {
+  const algorithm = backoffStrategyOptions ? backoffStrategyOptions.algorithm : 'exponential';
+  switch (algorithm) {
+    case 'fullJitter':
+      return new FullJitterBackoffStrategy(random);
+    case 'equalJitter':
+      return new EqualJitterBackoffStrategy(random);
+    case 'decorrelatedJitter':
+      return new DecorrelatedJitterBackoffStrategy(random);
+    case 'linear':
+      return new LinearBackoffStrategy(backoffStrategyOptions.incrementMillis);
+    case 'constant':
+      return new ConstantBackoffStrategy();
+    default:
+      return new ExponentialBackoffStrategy(random);
+  }
+}
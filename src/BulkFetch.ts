@@ -0,0 +1,160 @@
+import { defaultBulkFetchConcurrency } from './RateLimitingConstants';
+import { RequestAbortedError } from './RateLimitingErrors';
+import { RateLimitingRequestOptions } from './RateLimitingHandlingOptions';
+
+/**
+ * The signature of `RateLimitingFetch.fetch`, through which the bulk and pagination helpers send
+ * their requests.
+ */
+export type RateLimitedFetchFunction = (url: RequestInfo, init?: RequestInit, requestOptions?: RateLimitingRequestOptions) => Promise<Response>;
+
+/**
+ * A request of a batch sent by `fetchAll`.
+ */
+export interface BulkFetchRequest {
+  url: RequestInfo
+  init?: RequestInit
+  requestOptions?: RateLimitingRequestOptions
+}
+
+/**
+ * The outcome of a request of a batch, modelled after the results of `Promise.allSettled`. A
+ * request that received a response is fulfilled whatever the status of the response.
+ */
+export type BulkFetchResult = {
+  status: 'fulfilled'
+  index: number
+  request: BulkFetchRequest
+  response: Response
+} | {
+  status: 'rejected'
+  index: number
+  request: BulkFetchRequest
+  error: any
+}
+
+export interface BulkFetchProgress {
+  /**
+   * The result of the request that just completed.
+   */
+  result: BulkFetchResult
+  completedCount: number
+  fulfilledCount: number
+  rejectedCount: number
+  totalCount: number
+}
+
+export interface BulkFetchOptions {
+  /**
+   * The maximum number of requests of the batch in flight at once. This defaults to 4. Requests are
+   * additionally subject to the throttling, cooldowns and concurrency limits of the instance.
+   */
+  concurrency?: number
+  /**
+   * A signal that cancels the batch. Requests in flight are aborted and requests that have not been
+   * sent are rejected with a `RequestAbortedError` without being sent.
+   */
+  signal?: AbortSignal
+  /**
+   * Called each time a request of the batch completes. If it throws, no further requests are sent
+   * and the batch is rejected with the error.
+   */
+  onProgress?: (progress: BulkFetchProgress) => void
+}
+
+const toBulkFetchRequest = (request: string | BulkFetchRequest): BulkFetchRequest => {
+  return typeof request === 'string' ? { url: request } : request;
+}
+
+/**
+ * Returns the init of a request with a signal that is aborted when either the signal of the batch
+ * or the request's own signal is aborted, along with a function removing the listeners.
+ */
+const withBatchSignal = (init: undefined | RequestInit, batchSignal: undefined | AbortSignal): [undefined | RequestInit, () => void] => {
+  if (!batchSignal) {
+    return [init, () => {}];
+  }
+  if (!init || !init.signal) {
+    return [{ ...init, signal: batchSignal }, () => {}];
+  }
+  const requestSignal = init.signal;
+  const controller = new AbortController();
+  const abortFromBatch = () => controller.abort(batchSignal.reason);
+  const abortFromRequest = () => controller.abort(requestSignal.reason);
+  batchSignal.addEventListener('abort', abortFromBatch, { once: true });
+  requestSignal.addEventListener('abort', abortFromRequest, { once: true });
+  if (requestSignal.aborted) {
+    abortFromRequest();
+  }
+  return [{ ...init, signal: controller.signal }, () => {
+    batchSignal.removeEventListener('abort', abortFromBatch);
+    requestSignal.removeEventListener('abort', abortFromRequest);
+  }];
+}
+
+/**
+ * Sends a batch of requests with bounded concurrency and resolves with the result of each request
+ * in the order of `requests`. A failing request does not fail the batch.
+ * @param fetch the function sending each request, normally `RateLimitingFetch.fetch` such that the
+ * requests share the retry, throttling and cooldown state of the instance.
+ * @param requests the URLs or requests of the batch.
+ * @param options the options of the batch.
+ */
+export const fetchAll = async (
+    fetch: RateLimitedFetchFunction,
+    requests: Iterable<string | BulkFetchRequest>,
+    options: BulkFetchOptions = {}): Promise<BulkFetchResult[]> => {
+  const concurrency = options.concurrency ?? defaultBulkFetchConcurrency;
+  if (!(concurrency >= 1)) {
+    throw new Error(`Invalid fetchAll options: concurrency is ${options.concurrency}, but it must be >= 1`);
+  }
+  const bulkFetchRequests = Array.from(requests, toBulkFetchRequest);
+  const results: BulkFetchResult[] = new Array(bulkFetchRequests.length);
+  const progress = { completedCount: 0, fulfilledCount: 0, rejectedCount: 0, totalCount: bulkFetchRequests.length };
+  let stopped = false;
+  const complete = (result: BulkFetchResult): void => {
+    results[result.index] = result;
+    progress.completedCount++;
+    if (result.status === 'fulfilled') {
+      progress.fulfilledCount++;
+    } else {
+      progress.rejectedCount++;
+    }
+    if (options.onProgress && !stopped) {
+      try {
+        options.onProgress({ ...progress, result: result });
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+  const send = async (index: number): Promise<void> => {
+    const request = bulkFetchRequests[index];
+    if (options.signal && options.signal.aborted) {
+      complete({ status: 'rejected', index: index, request: request, error: new RequestAbortedError(options.signal.reason) });
+      return;
+    }
+    const [init, removeListeners] = withBatchSignal(request.init, options.signal);
+    let result: BulkFetchResult;
+    try {
+      const response = await fetch(request.url, init, request.requestOptions);
+      result = { status: 'fulfilled', index: index, request: request, response: response };
+    } catch (error) {
+      result = { status: 'rejected', index: index, request: request, error: error };
+    } finally {
+      removeListeners();
+    }
+    // The request completes outside the try such that an error thrown by onProgress is not taken
+    // for a failure of the request...
+    complete(result);
+  };
+  let nextIndex = 0;
+  const worker = async (): Promise<void> => {
+    while (!stopped && nextIndex < bulkFetchRequests.length) {
+      await send(nextIndex++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, bulkFetchRequests.length) }, worker));
+  return results;
+}
@@ -0,0 +1,347 @@
+import { getRequestMethod, getRequestUrl } from './RequestUtils';
+
+/**
+ * A request recorded in a cassette.
+ */
+export interface RecordedRequest {
+  method: string
+  url: string
+  headers: [string, string][]
+  /**
+   * The request body decoded as text or undefined if the request has no body or its body could not
+   * be read without consuming it.
+   */
+  body?: string
+}
+
+/**
+ * A response recorded in a cassette.
+ */
+export interface RecordedResponse {
+  status: number
+  statusText: string
+  headers: [string, string][]
+  body: string
+  /**
+   * How `body` is encoded. Bodies that are not valid UTF-8 are base64 encoded.
+   */
+  bodyEncoding: 'utf8' | 'base64'
+}
+
+/**
+ * An error thrown by the fetch implementation, such as a connection reset, recorded in a cassette.
+ */
+export interface RecordedError {
+  name: string
+  message: string
+  /**
+   * The code of the error or its cause, e.g. `ECONNRESET`.
+   */
+  code?: string
+}
+
+/**
+ * A request recorded in a cassette together with its response or the error it failed with.
+ */
+export interface CassetteEntry {
+  request: RecordedRequest
+  response?: RecordedResponse
+  error?: RecordedError
+  /**
+   * The time the request was sent as an ISO 8601 string.
+   */
+  startedDateTime: string
+  /**
+   * The number of milliseconds between the first request of the cassette and this request.
+   */
+  startOffsetMillis: number
+  /**
+   * The number of milliseconds until the response headers were received or the request failed.
+   */
+  durationMillis: number
+}
+
+/**
+ * A sequence of recorded requests and responses that can be replayed offline.
+ */
+export interface Cassette {
+  version: 1
+  entries: CassetteEntry[]
+}
+
+/**
+ * The headers that are redacted from recordings by default since they carry credentials.
+ */
+export const defaultRedactedHeaderNames = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'];
+
+export const redactedHeaderValue = '[REDACTED]';
+
+/**
+ * Records a request without consuming its body.
+ * @param redactedHeaderNames the lower case names of the headers whose values are redacted.
+ */
+export const toRecordedRequest = async (
+    url: RequestInfo,
+    init: undefined | RequestInit,
+    redactedHeaderNames: string[] = []): Promise<RecordedRequest> => {
+  const headers = new Headers(init?.headers ?? (typeof url === 'string' ? undefined : url.headers));
+  let body: undefined | string = undefined;
+  const initBody = init ? init.body : undefined;
+  if (initBody !== undefined && initBody !== null) {
+    // Streams can only be read once, so their contents are not recorded...
+    if (!(typeof ReadableStream !== 'undefined' && initBody instanceof ReadableStream)) {
+      body = await new Response(initBody).text();
+    }
+  } else if (typeof url !== 'string' && url.body !== null && !url.bodyUsed) {
+    body = await url.clone().text();
+  }
+  return {
+    method: getRequestMethod(url, init),
+    url: getRequestUrl(url),
+    headers: toRecordedHeaders(headers, redactedHeaderNames),
+    body: body
+  };
+}
+
+/**
+ * Records a response by reading a clone of it such that the response itself can still be read.
+ * @param redactedHeaderNames the lower case names of the headers whose values are redacted.
+ */
+export const toRecordedResponse = async (response: Response, redactedHeaderNames: string[] = []): Promise<RecordedResponse> => {
+  const bytes = new Uint8Array(await response.clone().arrayBuffer());
+  let body: string;
+  let bodyEncoding: 'utf8' | 'base64' = 'utf8';
+  try {
+    body = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (error) {
+    body = bytesToBase64(bytes);
+    bodyEncoding = 'base64';
+  }
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: toRecordedHeaders(response.headers, redactedHeaderNames),
+    body: body,
+    bodyEncoding: bodyEncoding
+  };
+}
+
+/**
+ * Records an error thrown by a fetch implementation.
+ */
+export const toRecordedError = (error: any): RecordedError => {
+  const code = error?.code ?? error?.cause?.code;
+  return {
+    name: error?.name ?? 'Error',
+    message: error?.message ?? `${error}`,
+    ...(code === undefined ? {} : { code: `${code}` })
+  };
+}
+
+/**
+ * Recreates a recorded error such that it is classified in the same way as the original, e.g. by
+ * `isRetryableNetworkError`.
+ */
+export const fromRecordedError = (recordedError: RecordedError): Error => {
+  const error: any = recordedError.name === 'TypeError' ? new TypeError(recordedError.message) : new Error(recordedError.message);
+  error.name = recordedError.name;
+  if (recordedError.code !== undefined) {
+    error.code = recordedError.code;
+    error.cause = { code: recordedError.code, message: recordedError.message };
+  }
+  return error;
+}
+
+/**
+ * Returns the bytes of a recorded response body.
+ */
+export const getRecordedBodyBytes = (recordedResponse: RecordedResponse): Uint8Array => {
+  return recordedResponse.bodyEncoding === 'base64' ?
+    base64ToBytes(recordedResponse.body) :
+    new TextEncoder().encode(recordedResponse.body);
+}
+
+const toRecordedHeaders = (headers: Headers, redactedHeaderNames: string[]): [string, string][] => {
+  const recordedHeaders: [string, string][] = [];
+  headers.forEach((value, name) => {
+    recordedHeaders.push([name, redactedHeaderNames.includes(name.toLowerCase()) ? redactedHeaderValue : value]);
+  });
+  return recordedHeaders;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index++) {
+    binary += String.fromCharCode(bytes[index]);
+  }
+  return btoa(binary);
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+interface HarNameValue {
+  name: string
+  value: string
+}
+
+/**
+ * The subset of the HAR 1.2 format produced and read by `cassetteToHar` and `harToCassette`.
+ */
+export interface Har {
+  log: {
+    version: string
+    creator: { name: string, version: string }
+    entries: HarEntry[]
+  }
+}
+
+export interface HarEntry {
+  startedDateTime: string
+  time: number
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: HarNameValue[]
+    queryString: HarNameValue[]
+    cookies: HarNameValue[]
+    headersSize: number
+    bodySize: number
+    postData?: { mimeType: string, text: string }
+  }
+  response: {
+    status: number
+    statusText: string
+    httpVersion: string
+    headers: HarNameValue[]
+    cookies: HarNameValue[]
+    content: { size: number, mimeType: string, text?: string, encoding?: string }
+    redirectURL: string
+    headersSize: number
+    bodySize: number
+  }
+  cache: {}
+  timings: { send: number, wait: number, receive: number }
+  /**
+   * A custom field holding the error of requests that failed without a response, which HAR
+   * represents as responses with a status of 0.
+   */
+  _error?: RecordedError
+}
+
+const getHeaderValue = (headers: [string, string][], name: string): undefined | string => {
+  const header = headers.find(([headerName]) => headerName.toLowerCase() === name);
+  return header ? header[1] : undefined;
+}
+
+const toHarNameValues = (headers: [string, string][]): HarNameValue[] => {
+  return headers.map(([name, value]) => ({ name: name, value: value }));
+}
+
+/**
+ * Converts a cassette to the HAR 1.2 format such that it can be inspected with browser developer
+ * tools and other HAR viewers.
+ */
+export const cassetteToHar = (cassette: Cassette): Har => {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'handle-rate-limiting-js', version: '1' },
+      entries: cassette.entries.map((entry): HarEntry => {
+        const request = entry.request;
+        const response = entry.response;
+        let queryString: HarNameValue[] = [];
+        try {
+          queryString = Array.from(new URL(request.url).searchParams.entries()).map(([name, value]) => ({ name: name, value: value }));
+        } catch (error) {
+          // Leave the query string empty for URLs that can not be parsed...
+        }
+        return {
+          startedDateTime: entry.startedDateTime,
+          time: entry.durationMillis,
+          request: {
+            method: request.method,
+            url: request.url,
+            httpVersion: 'HTTP/1.1',
+            headers: toHarNameValues(request.headers),
+            queryString: queryString,
+            cookies: [],
+            headersSize: -1,
+            bodySize: request.body === undefined ? 0 : request.body.length,
+            ...(request.body === undefined ? {} : {
+              postData: {
+                mimeType: getHeaderValue(request.headers, 'content-type') ?? '',
+                text: request.body
+              }
+            })
+          },
+          response: {
+            status: response ? response.status : 0,
+            statusText: response ? response.statusText : '',
+            httpVersion: 'HTTP/1.1',
+            headers: response ? toHarNameValues(response.headers) : [],
+            cookies: [],
+            content: {
+              size: response ? response.body.length : 0,
+              mimeType: response ? getHeaderValue(response.headers, 'content-type') ?? '' : '',
+              ...(response ? { text: response.body } : {}),
+              ...(response && response.bodyEncoding === 'base64' ? { encoding: 'base64' } : {})
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: response ? response.body.length : 0
+          },
+          cache: {},
+          timings: { send: 0, wait: entry.durationMillis, receive: 0 },
+          ...(entry.error ? { _error: entry.error } : {})
+        };
+      })
+    }
+  };
+}
+
+/**
+ * Converts a HAR file, such as one exported from browser developer tools, to a cassette. Entries
+ * with a status of 0 are treated as failed requests.
+ */
+export const harToCassette = (har: Har): Cassette => {
+  const entries = har.log.entries;
+  const firstStartTime = entries.length ? Date.parse(entries[0].startedDateTime) : 0;
+  return {
+    version: 1,
+    entries: entries.map((harEntry): CassetteEntry => {
+      const startTime = Date.parse(harEntry.startedDateTime);
+      const harResponse = harEntry.response;
+      const failed = !harResponse || harResponse.status === 0;
+      return {
+        request: {
+          method: harEntry.request.method.toUpperCase(),
+          url: harEntry.request.url,
+          headers: harEntry.request.headers.map(header => [header.name, header.value]),
+          ...(harEntry.request.postData ? { body: harEntry.request.postData.text } : {})
+        },
+        ...(failed ? {
+          error: harEntry._error ?? { name: 'TypeError', message: 'fetch failed' }
+        } : {
+          response: {
+            status: harResponse.status,
+            statusText: harResponse.statusText,
+            headers: harResponse.headers.map(header => [header.name, header.value]),
+            body: harResponse.content.text ?? '',
+            bodyEncoding: harResponse.content.encoding === 'base64' ? 'base64' : 'utf8'
+          }
+        }),
+        startedDateTime: harEntry.startedDateTime,
+        startOffsetMillis: isNaN(startTime) || isNaN(firstStartTime) ? 0 : startTime - firstStartTime,
+        durationMillis: harEntry.time
+      };
+    })
+  };
+}
@@ -0,0 +1,30 @@
+import { promises as fs } from 'fs';
+import { Cassette, cassetteToHar, Har, harToCassette } from './Cassette';
+
+const isHarPath = (filePath: string): boolean => {
+  return filePath.toLowerCase().endsWith('.har');
+}
+
+/**
+ * Saves a cassette to a file. Files with a `.har` extension are written in the HAR 1.2 format and
+ * all other files in the cassette JSON format.
+ */
+export const saveCassette = async (filePath: string, cassette: Cassette): Promise<void> => {
+  const contents = isHarPath(filePath) ? cassetteToHar(cassette) : cassette;
+  await fs.writeFile(filePath, JSON.stringify(contents, null, 2), 'utf8');
+}
+
+/**
+ * Loads a cassette saved by `saveCassette` or a HAR file, e.g. one exported from browser developer
+ * tools.
+ */
+export const loadCassette = async (filePath: string): Promise<Cassette> => {
+  const contents = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  if (contents && contents.log && Array.isArray(contents.log.entries)) {
+    return harToCassette(contents as Har);
+  }
+  if (!contents || !Array.isArray(contents.entries)) {
+    throw new Error(`${filePath} is neither a cassette nor a HAR file.`);
+  }
+  return contents as Cassette;
+}
@@ -0,0 +1,202 @@
+import {
+  internalServerErrorStatusCode,
+  serviceUnavailableStatusCode
+} from './RateLimitingConstants';
+import { CircuitOpenError } from './RateLimitingErrors';
+import { CircuitBreakerOptions } from './RateLimitingHandlingOptions';
+import { Clock, SystemClock } from './Clock';
+
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+export type CircuitStateChangeListener = (key: string, fromState: CircuitState, toState: CircuitState) => void;
+
+/**
+ * The permission for a request to go through a circuit, which is released once the outcome of the
+ * request has been recorded or the request ended without one, e.g. because it was aborted.
+ */
+export interface CircuitPermit {
+
+  /**
+   * Releases the permission, freeing the probe slot it may hold while the circuit is half-open.
+   * Calling this method more than once has no effect.
+   */
+  release: () => void;
+
+}
+
+/**
+ * This interface abstracts circuit breaking such that alternate implementations can be injected.
+ */
+export interface CircuitBreaker {
+
+  /**
+   * This method is called before each request is sent.
+   * @param key the key of the circuit the request goes through.
+   * @returns the permit which must be released once the request ends.
+   * @throws CircuitOpenError if the request must not be sent.
+   */
+  acquirePermission: (key: string) => CircuitPermit;
+
+  /**
+   * This method determines whether a response counts as a failure of the upstream.
+   */
+  isFailure: (response: Response) => boolean;
+
+  recordSuccess: (key: string) => void;
+
+  recordFailure: (key: string) => void;
+
+  getState: (key: string) => CircuitState;
+
+  addStateChangeListener: (listener: CircuitStateChangeListener) => void;
+
+  removeStateChangeListener: (listener: CircuitStateChangeListener) => void;
+
+  /**
+   * This optional method allows the clock to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+
+}
+
+interface Circuit {
+  state: CircuitState
+  consecutiveFailures: number
+  consecutiveSuccesses: number
+  openedTime: number
+  halfOpenProbes: number
+  transitionCount: number
+}
+
+/**
+ * This class provides a circuit breaker per key with closed, open and half-open states. The circuit
+ * trips open after `failureThreshold` consecutive failures, rejects requests until
+ * `openDurationMillis` has elapsed and then lets a limited number of probe requests through. The
+ * circuit closes once `successThreshold` probes succeed and re-opens if any probe fails.
+ */
+export class DefaultCircuitBreaker implements CircuitBreaker {
+
+  private failureThreshold: number;
+  private openDurationMillis: number;
+  private maxHalfOpenProbes: number;
+  private successThreshold: number;
+  private failureStatusCodes: number[];
+  private circuits = new Map<string, Circuit>();
+  private listeners: CircuitStateChangeListener[] = [];
+  private clock: Clock = new SystemClock();
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold;
+    this.openDurationMillis = options.openDurationMillis;
+    this.maxHalfOpenProbes = options.maxHalfOpenProbes ?? 1;
+    this.successThreshold = options.successThreshold ?? 1;
+    this.failureStatusCodes = options.failureStatusCodes ?? [internalServerErrorStatusCode, serviceUnavailableStatusCode];
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  public acquirePermission = (key: string): CircuitPermit => {
+    const circuit = this._getCircuit(key);
+    if (circuit.state === 'open') {
+      const millisSinceOpened = this.clock.now() - circuit.openedTime;
+      if (millisSinceOpened < this.openDurationMillis) {
+        throw new CircuitOpenError(key, this.openDurationMillis - millisSinceOpened);
+      }
+      this._transition(key, circuit, 'halfOpen');
+    }
+    if (circuit.state !== 'halfOpen') {
+      return { release: () => {} };
+    }
+    if (circuit.halfOpenProbes >= this.maxHalfOpenProbes) {
+      throw new CircuitOpenError(key, undefined);
+    }
+    circuit.halfOpenProbes++;
+    // The probe slot is only freed if the circuit is still in the half-open period the probe was
+    // let through in since transitions reset the number of probes...
+    const transitionCount = circuit.transitionCount;
+    let released = false;
+    return {
+      release: () => {
+        if (!released) {
+          released = true;
+          if (circuit.state === 'halfOpen' && circuit.transitionCount === transitionCount) {
+            circuit.halfOpenProbes--;
+          }
+        }
+      }
+    };
+  }
+
+  public isFailure = (response: Response): boolean => {
+    return this.failureStatusCodes.includes(response.status);
+  }
+
+  public recordSuccess = (key: string): void => {
+    const circuit = this._getCircuit(key);
+    circuit.consecutiveFailures = 0;
+    if (circuit.state === 'halfOpen') {
+      circuit.consecutiveSuccesses++;
+      if (circuit.consecutiveSuccesses >= this.successThreshold) {
+        this._transition(key, circuit, 'closed');
+      }
+    }
+  }
+
+  public recordFailure = (key: string): void => {
+    const circuit = this._getCircuit(key);
+    circuit.consecutiveFailures++;
+    if (circuit.state === 'halfOpen') {
+      this._transition(key, circuit, 'open');
+    } else if (circuit.state === 'closed' && circuit.consecutiveFailures >= this.failureThreshold) {
+      this._transition(key, circuit, 'open');
+    }
+  }
+
+  public getState = (key: string): CircuitState => {
+    const circuit = this.circuits.get(key);
+    return circuit ? circuit.state : 'closed';
+  }
+
+  public addStateChangeListener = (listener: CircuitStateChangeListener): void => {
+    this.listeners.push(listener);
+  }
+
+  public removeStateChangeListener = (listener: CircuitStateChangeListener): void => {
+    this.listeners = this.listeners.filter(existingListener => existingListener !== listener);
+  }
+
+  private _getCircuit = (key: string): Circuit => {
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        consecutiveSuccesses: 0,
+        openedTime: 0,
+        halfOpenProbes: 0,
+        transitionCount: 0
+      };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private _transition = (key: string, circuit: Circuit, toState: CircuitState): void => {
+    const fromState = circuit.state;
+    circuit.state = toState;
+    circuit.consecutiveSuccesses = 0;
+    circuit.halfOpenProbes = 0;
+    circuit.transitionCount++;
+    if (toState === 'open') {
+      circuit.openedTime = this.clock.now();
+    } else if (toState === 'closed') {
+      circuit.consecutiveFailures = 0;
+    }
+    for (const listener of this.listeners) {
+      listener(key, fromState, toState);
+    }
+  }
+
+}
@@ -0,0 +1,24 @@
+
+/**
+ * This interface abstracts the source of the current time such that virtual time can be injected
+ * for testing.
+ */
+export interface Clock {
+
+  /**
+   * Returns the current time in milliseconds since the epoch.
+   */
+  now: () => number;
+
+}
+
+/**
+ * This is the default implementation of `Clock` which simply uses the system time.
+ */
+export class SystemClock implements Clock {
+
+  now = (): number => {
+    return new Date().getTime();
+  }
+
+}
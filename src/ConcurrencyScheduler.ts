@@ -0,0 +1,209 @@
+import { RequestAbortedError } from './RateLimitingErrors';
+import { ConcurrencyOptions } from './RateLimitingHandlingOptions';
+import { Clock, SystemClock } from './Clock';
+
+/**
+ * The outcome of an attempt, used to adapt the concurrency limit.
+ */
+export type ConcurrencyOutcome = 'success' | 'rateLimited' | 'failure';
+
+export type QueueDepthListener = (key: string, queueDepth: number) => void;
+
+/**
+ * A permit to send an attempt which must be released once the attempt completes.
+ */
+export interface ConcurrencyPermit {
+  /**
+   * The number of milliseconds the attempt was queued for before the permit was granted.
+   */
+  waitMillis: number
+  release: (outcome: ConcurrencyOutcome) => void
+}
+
+/**
+ * This interface abstracts the scheduling of attempts such that the number of attempts in flight
+ * can be limited and alternate implementations can be injected.
+ */
+export interface RequestScheduler {
+
+  /**
+   * This method is called before each attempt is sent and resolves once the attempt may be sent.
+   * @param key the key of the queue the attempt goes through.
+   * @param priority the priority of the attempt. Attempts with higher priorities are sent first.
+   * @param signal if specified, aborting the signal removes the attempt from the queue.
+   * @throws RequestAbortedError if the signal is aborted while the attempt is queued.
+   */
+  acquire: (key: string, priority: number, signal?: AbortSignal) => Promise<ConcurrencyPermit>;
+
+  getQueueDepth: (key: string) => number;
+
+  addQueueDepthListener: (listener: QueueDepthListener) => void;
+
+  removeQueueDepthListener: (listener: QueueDepthListener) => void;
+
+  /**
+   * This optional method allows the clock to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+
+}
+
+interface QueuedAttempt {
+  priority: number
+  sequenceNumber: number
+  grant: () => void
+}
+
+interface Lane {
+  limit: number
+  inFlight: number
+  queue: QueuedAttempt[]
+}
+
+/**
+ * This class limits the number of attempts in flight per key, typically an origin, and queues the
+ * attempts over the limit in order of priority and then arrival. In adaptive mode, the limit
+ * starts at `initialConcurrency` and, like TCP congestion control, grows additively by roughly
+ * `additiveIncrease` for each limit's worth of successful attempts and is cut by the
+ * `multiplicativeDecrease` factor whenever an attempt is rate limited.
+ */
+export class ConcurrencyScheduler implements RequestScheduler {
+
+  private maxConcurrency: number;
+  private minConcurrency: number;
+  private initialConcurrency: number;
+  private additiveIncrease: number;
+  private multiplicativeDecrease: number;
+  private adaptive: boolean;
+  private lanes = new Map<string, Lane>();
+  private sequenceNumber = 0;
+  private listeners: QueueDepthListener[] = [];
+  private clock: Clock = new SystemClock();
+
+  constructor(options: ConcurrencyOptions) {
+    this.maxConcurrency = options.maxConcurrency;
+    this.adaptive = !!options.adaptive;
+    this.minConcurrency = options.adaptive?.minConcurrency ?? 1;
+    this.initialConcurrency = options.adaptive?.initialConcurrency ?? options.maxConcurrency;
+    this.additiveIncrease = options.adaptive?.additiveIncrease ?? 1;
+    this.multiplicativeDecrease = options.adaptive?.multiplicativeDecrease ?? 0.5;
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  public acquire = (key: string, priority: number, signal?: AbortSignal): Promise<ConcurrencyPermit> => {
+    const lane = this._getLane(key);
+    const startTime = this.clock.now();
+    const createPermit = (): ConcurrencyPermit => {
+      let released = false;
+      return {
+        waitMillis: this.clock.now() - startTime,
+        release: (outcome: ConcurrencyOutcome) => {
+          if (!released) {
+            released = true;
+            this._release(key, lane, outcome);
+          }
+        }
+      };
+    };
+    if (lane.inFlight < Math.floor(lane.limit) && !lane.queue.length) {
+      lane.inFlight++;
+      return Promise.resolve(createPermit());
+    }
+    return new Promise<ConcurrencyPermit>((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new RequestAbortedError(signal.reason));
+        return;
+      }
+      const onAbort = () => {
+        lane.queue = lane.queue.filter(queuedAttempt => queuedAttempt !== attempt);
+        this._notifyQueueDepth(key, lane);
+        reject(new RequestAbortedError(signal.reason));
+      };
+      const attempt: QueuedAttempt = {
+        priority: priority,
+        sequenceNumber: this.sequenceNumber++,
+        grant: () => {
+          if (signal) {
+            signal.removeEventListener('abort', onAbort);
+          }
+          resolve(createPermit());
+        }
+      };
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+      // Keep the queue ordered by descending priority and then by arrival...
+      const index = lane.queue.findIndex(queuedAttempt => queuedAttempt.priority < priority);
+      if (index < 0) {
+        lane.queue.push(attempt);
+      } else {
+        lane.queue.splice(index, 0, attempt);
+      }
+      this._notifyQueueDepth(key, lane);
+    });
+  }
+
+  public getQueueDepth = (key: string): number => {
+    const lane = this.lanes.get(key);
+    return lane ? lane.queue.length : 0;
+  }
+
+  /**
+   * Returns the current concurrency limit for the given key.
+   */
+  public getConcurrencyLimit = (key: string): number => {
+    const lane = this.lanes.get(key);
+    return Math.floor(lane ? lane.limit : this.initialConcurrency);
+  }
+
+  public addQueueDepthListener = (listener: QueueDepthListener): void => {
+    this.listeners.push(listener);
+  }
+
+  public removeQueueDepthListener = (listener: QueueDepthListener): void => {
+    this.listeners = this.listeners.filter(existingListener => existingListener !== listener);
+  }
+
+  private _getLane = (key: string): Lane => {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = {
+        limit: this.initialConcurrency,
+        inFlight: 0,
+        queue: []
+      };
+      this.lanes.set(key, lane);
+    }
+    return lane;
+  }
+
+  private _release = (key: string, lane: Lane, outcome: ConcurrencyOutcome): void => {
+    lane.inFlight--;
+    if (this.adaptive) {
+      if (outcome === 'success') {
+        lane.limit = Math.min(this.maxConcurrency, lane.limit + this.additiveIncrease / Math.floor(lane.limit));
+      } else if (outcome === 'rateLimited') {
+        lane.limit = Math.max(this.minConcurrency, lane.limit * this.multiplicativeDecrease);
+      }
+    }
+    let granted = false;
+    while (lane.queue.length && lane.inFlight < Math.floor(lane.limit)) {
+      lane.inFlight++;
+      lane.queue.shift().grant();
+      granted = true;
+    }
+    if (granted) {
+      this._notifyQueueDepth(key, lane);
+    }
+  }
+
+  private _notifyQueueDepth = (key: string, lane: Lane): void => {
+    for (const listener of this.listeners) {
+      listener(key, lane.queue.length);
+    }
+  }
+
+}
@@ -0,0 +1,127 @@
+import { parseRateLimitQuota, parseRetryAfterMillis } from './RateLimitHeaders';
+import { serviceUnavailableStatusCode, tooManyRequestsStatusCode } from './RateLimitingConstants';
+import { Clock, SystemClock } from './Clock';
+
+interface Cooldown {
+  startTime: number
+  endTime: number
+  nextReleaseTime: number
+}
+
+/**
+ * Determines whether a response signals that the client is being rate limited, i.e. a
+ * *429 Too Many Requests* response or a *503 Service Unavailable* response with a `Retry-After`
+ * header.
+ */
+export const isRateLimitedResponse = (response: Response): boolean => {
+  return response.status === tooManyRequestsStatusCode ||
+    (response.status === serviceUnavailableStatusCode && response.headers.has('Retry-After'));
+}
+
+/**
+ * Computes how long a rate limited response asks the client to back off for from its
+ * `Retry-After` header or, failing that, the reset time of its exhausted rate limit quota.
+ * @returns the cooldown in milliseconds or undefined if the response does not specify one.
+ */
+export const parseCooldownMillis = (response: Response, now: number): undefined | number => {
+  const retryAfterMillis = parseRetryAfterMillis(response.headers, now);
+  if (retryAfterMillis !== undefined) {
+    return retryAfterMillis;
+  }
+  const quota = parseRateLimitQuota(response.headers, now);
+  if (quota && quota.remaining === 0 && quota.resetDelayMillis !== undefined) {
+    return quota.resetDelayMillis;
+  }
+  return undefined;
+}
+
+/**
+ * This class keeps the cooldown state of each key, typically an origin, such that once any
+ * request is rate limited, the requests that follow wait for the cooldown to end rather than
+ * collecting rate limited responses of their own. When the cooldown ends, the waiting requests
+ * are released one at a time, `releaseIntervalMillis` apart.
+ */
+export class CooldownCoordinator {
+
+  private releaseIntervalMillis: number;
+  private cooldowns = new Map<string, Cooldown>();
+  private clock: Clock = new SystemClock();
+
+  /**
+   * @param releaseIntervalMillis the interval between releasing requests once a cooldown ends.
+   */
+  constructor(releaseIntervalMillis: number) {
+    this.releaseIntervalMillis = releaseIntervalMillis;
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  /**
+   * Starts a cooldown for the given key. If a cooldown that ends later is already in progress, it
+   * is left unchanged.
+   * @param key the key to cool down.
+   * @param cooldownMillis the duration of the cooldown.
+   * @param now the current time in milliseconds.
+   */
+  public startCooldown = (key: string, cooldownMillis: number, now: number): void => {
+    const endTime = now + cooldownMillis;
+    const cooldown = this.cooldowns.get(key);
+    if (cooldown && cooldown.endTime >= endTime) {
+      return;
+    }
+    this.cooldowns.set(key, {
+      startTime: now,
+      endTime: endTime,
+      nextReleaseTime: endTime
+    });
+  }
+
+  /**
+   * Returns whether the given key is cooling down.
+   */
+  public isCoolingDown = (key: string, now: number): boolean => {
+    const cooldown = this.cooldowns.get(key);
+    return !!cooldown && now < cooldown.endTime;
+  }
+
+  /**
+   * Waits until a request for the given key may be sent. If the cooldown is extended while the
+   * request is waiting, the request waits for the extended cooldown.
+   * @param key the key the request applies to.
+   * @param delay the function used to wait.
+   * @returns the number of milliseconds the request waited for.
+   */
+  public waitForRelease = async (key: string, delay: (millis: number) => Promise<void>): Promise<number> => {
+    let totalDelayMillis = 0;
+    let waitStartTime = this.clock.now();
+    let delayMillis = this._reserveReleaseDelayMillis(key, waitStartTime);
+    while (delayMillis > 0) {
+      await delay(delayMillis);
+      totalDelayMillis += delayMillis;
+      const cooldown = this.cooldowns.get(key);
+      if (!cooldown || cooldown.startTime <= waitStartTime) {
+        break;
+      }
+      waitStartTime = this.clock.now();
+      delayMillis = this._reserveReleaseDelayMillis(key, waitStartTime);
+    }
+    return totalDelayMillis;
+  }
+
+  private _reserveReleaseDelayMillis = (key: string, now: number): number => {
+    const cooldown = this.cooldowns.get(key);
+    if (!cooldown) {
+      return 0;
+    }
+    if (now >= cooldown.nextReleaseTime) {
+      this.cooldowns.delete(key);
+      return 0;
+    }
+    const releaseTime = cooldown.nextReleaseTime;
+    cooldown.nextReleaseTime = releaseTime + this.releaseIntervalMillis;
+    return releaseTime - now;
+  }
+
+}
@@ -1,3 +1,7 @@
+import { Logger } from './Logger';
+import { Clock } from './Clock';
+import { Sleeper } from './Sleeper';
+import { Random } from './Random';
 
 /**
  * This interface abstracts the fetch implementation such that alternate fetch implementations
@@ -5,6 +9,17 @@
  */
 export interface FetchInterface {
   fetch: (url: RequestInfo, init?: RequestInit) => Promise<Response>;
+  /**
+   * This optional method allows the logger to be injected.
+   */
+  setLogger?: (logger: Logger) => void;
+  /**
+   * These optional methods allow the time sources of `RateLimitingFetch` to be injected such that
+   * mock implementations can run in virtual time.
+   */
+  setClock?: (clock: Clock) => void;
+  setSleeper?: (sleeper: Sleeper) => void;
+  setRandom?: (random: Random) => void;
 }
 
 /**
@@ -0,0 +1,282 @@
+import { promises as fs } from 'fs';
+import { randomBytes } from 'crypto';
+import { StateStoreLockTimeoutError } from './RateLimitingErrors';
+import {
+  copyRateLimitState,
+  RateLimitState,
+  RateLimitStateStore,
+  RateLimitStateUpdater
+} from './RateLimitStateStore';
+import { Clock, SystemClock } from './Clock';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+
+export interface FileRateLimitStateStoreOptions {
+  /**
+   * The path of the JSON file holding the state. The lock file is created next to it with a
+   * `.lock` suffix.
+   */
+  filePath: string
+  /**
+   * The maximum number of milliseconds to wait for the lock. This defaults to 5000.
+   */
+  lockTimeoutMillis?: number
+  /**
+   * The age in milliseconds after which a lock is considered to have been abandoned by a process
+   * that died while holding it and is removed. This defaults to 10000.
+   */
+  staleLockMillis?: number
+  /**
+   * The number of milliseconds between attempts to acquire the lock. This defaults to 5.
+   */
+  lockRetryMillis?: number
+}
+
+type StateFile = { [key: string]: RateLimitState };
+
+/**
+ * The contents of a lock file, which identify the holder of the lock and when it was acquired.
+ */
+interface LockFile {
+  owner: string
+  acquiredTime: number
+}
+
+/**
+ * This implementation of `RateLimitStateStore` keeps the state in a JSON file such that the
+ * processes of a host, e.g. Node workers, share it. Updates hold an exclusive lock file while they
+ * read, update and write the state, and the state is written to a temporary file that is renamed
+ * over the state file such that reads never see a partially written file.
+ *
+ * The lock file records a token identifying its holder, which is checked before the lock is
+ * released such that a process never removes a lock it does not hold. A lock abandoned by a process
+ * that died is taken over by replacing it, guarded by a marker file whose name is derived from the
+ * abandoned lock's token, such that only one process can take over a given abandoned lock.
+ */
+export class FileRateLimitStateStore implements RateLimitStateStore {
+
+  private filePath: string;
+  private lockPath: string;
+  private lockTimeoutMillis: number;
+  private staleLockMillis: number;
+  private lockRetryMillis: number;
+  private clock: Clock = new SystemClock();
+  private sleeper: Sleeper = new TimeoutSleeper();
+  private temporaryFileCount = 0;
+
+  constructor(options: FileRateLimitStateStoreOptions) {
+    this.filePath = options.filePath;
+    this.lockPath = `${options.filePath}.lock`;
+    this.lockTimeoutMillis = options.lockTimeoutMillis ?? 5000;
+    this.staleLockMillis = options.staleLockMillis ?? 10000;
+    this.lockRetryMillis = options.lockRetryMillis ?? 5;
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  public setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+  }
+
+  public get = async (key: string): Promise<undefined | RateLimitState> => {
+    const stateFile = await this._readStateFile();
+    return copyRateLimitState(stateFile[key]);
+  }
+
+  public update = async (key: string, updater: RateLimitStateUpdater): Promise<undefined | RateLimitState> => {
+    const lockToken = await this._acquireLock();
+    try {
+      const stateFile = await this._readStateFile();
+      const state = updater(copyRateLimitState(stateFile[key]));
+      if (state === undefined) {
+        delete stateFile[key];
+      } else {
+        stateFile[key] = copyRateLimitState(state);
+      }
+      this._pruneExpiredStates(stateFile, key);
+      await this._writeStateFile(stateFile);
+      return copyRateLimitState(state);
+    } finally {
+      await this._releaseLock(lockToken);
+    }
+  }
+
+  /**
+   * Removes the cooldowns that have ended and the quotas whose windows have reset from the keys
+   * other than `updatedKey`, as well as the keys left without any state, such that the file does
+   * not keep growing with keys that are no longer used.
+   */
+  private _pruneExpiredStates = (stateFile: StateFile, updatedKey: string): void => {
+    const now = this.clock.now();
+    Object.keys(stateFile).filter(key => key !== updatedKey).forEach(key => {
+      const state = stateFile[key];
+      if (state.cooldown && state.cooldown.endTime <= now) {
+        delete state.cooldown;
+      }
+      if (state.quota && state.quota.resetTime <= now) {
+        delete state.quota;
+      }
+      if (!state.cooldown && !state.tokenBucket && !state.quota) {
+        delete stateFile[key];
+      }
+    });
+  }
+
+  /**
+   * Acquires the lock.
+   * @returns the token identifying this holder of the lock.
+   */
+  private _acquireLock = async (): Promise<string> => {
+    const startTime = this.clock.now();
+    const token = `${process.pid}.${randomBytes(8).toString('hex')}`;
+    while (true) {
+      if (await this._tryCreateLock(token) || await this._tryTakeOverStaleLock(token)) {
+        return token;
+      }
+      if (this.clock.now() - startTime >= this.lockTimeoutMillis) {
+        throw new StateStoreLockTimeoutError(this.lockPath, this.lockTimeoutMillis);
+      }
+      await this.sleeper.sleep(this.lockRetryMillis);
+    }
+  }
+
+  /**
+   * Creates the lock file unless it exists. The lock file is written under a temporary name and
+   * linked into place such that other processes never see it without its contents.
+   */
+  private _tryCreateLock = async (token: string): Promise<boolean> => {
+    const temporaryPath = await this._writeLockFile(token);
+    try {
+      await fs.link(temporaryPath, this.lockPath);
+      return true;
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      return false;
+    } finally {
+      await fs.unlink(temporaryPath);
+    }
+  }
+
+  /**
+   * Takes over the lock if it was abandoned. Of the processes finding the same abandoned lock, only
+   * the one creating the takeover marker for its token replaces it, and the lock is replaced by a
+   * rename such that it never ceases to exist in the meantime.
+   */
+  private _tryTakeOverStaleLock = async (token: string): Promise<boolean> => {
+    const staleLock = await this._readLockFile();
+    if (!staleLock || !this._isStale(staleLock.acquiredTime)) {
+      return false;
+    }
+    const markerPath = `${this.lockPath}.${staleLock.owner}.takeover`;
+    try {
+      await fs.writeFile(markerPath, token, { flag: 'wx' });
+    } catch (error) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      await this._removeMarkerIfStale(markerPath);
+      return false;
+    }
+    try {
+      // The lock may have been released or taken over before the marker was created...
+      const lock = await this._readLockFile();
+      if (!lock || lock.owner !== staleLock.owner) {
+        return false;
+      }
+      const temporaryPath = await this._writeLockFile(token);
+      try {
+        await fs.rename(temporaryPath, this.lockPath);
+      } catch (error) {
+        await fs.unlink(temporaryPath);
+        throw error;
+      }
+      return true;
+    } finally {
+      await fs.unlink(markerPath);
+    }
+  }
+
+  private _removeMarkerIfStale = async (markerPath: string): Promise<void> => {
+    try {
+      const stats = await fs.stat(markerPath);
+      if (this._isStale(stats.mtimeMs)) {
+        await fs.unlink(markerPath);
+      }
+    } catch (error) {
+      // The marker was removed in the meantime...
+    }
+  }
+
+  private _releaseLock = async (token: string): Promise<void> => {
+    const lock = await this._readLockFile();
+    // The lock is left alone if another process took it over after deeming it abandoned...
+    if (lock && lock.owner === token) {
+      await fs.unlink(this.lockPath);
+    }
+  }
+
+  /**
+   * Locks are timed by the wall clock rather than the injected clock, since they are shared with
+   * processes whose clocks may differ from it and are compared against file modification times.
+   */
+  private _isStale = (acquiredTime: number): boolean => {
+    return Date.now() - acquiredTime > this.staleLockMillis;
+  }
+
+  private _writeLockFile = async (token: string): Promise<string> => {
+    const temporaryPath = `${this.lockPath}.${token}.${this.temporaryFileCount++}.tmp`;
+    const lockFile: LockFile = { owner: token, acquiredTime: Date.now() };
+    await fs.writeFile(temporaryPath, JSON.stringify(lockFile), 'utf8');
+    return temporaryPath;
+  }
+
+  /**
+   * Reads the lock file or returns undefined if there is none. Lock files that can not be parsed
+   * are identified by their contents and timed from their modification time.
+   */
+  private _readLockFile = async (): Promise<undefined | LockFile> => {
+    let contents: string;
+    let modifiedTime: number;
+    try {
+      contents = await fs.readFile(this.lockPath, 'utf8');
+      modifiedTime = (await fs.stat(this.lockPath)).mtimeMs;
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    try {
+      const lockFile: LockFile = JSON.parse(contents);
+      if (typeof lockFile.owner === 'string' && typeof lockFile.acquiredTime === 'number') {
+        return lockFile;
+      }
+    } catch (error) {
+      // The lock was written in another format...
+    }
+    return { owner: contents.trim(), acquiredTime: modifiedTime };
+  }
+
+  private _readStateFile = async (): Promise<StateFile> => {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+    return contents.trim() ? JSON.parse(contents) : {};
+  }
+
+  private _writeStateFile = async (stateFile: StateFile): Promise<void> => {
+    const temporaryPath = `${this.filePath}.${process.pid}.${this.temporaryFileCount++}.tmp`;
+    await fs.writeFile(temporaryPath, JSON.stringify(stateFile), 'utf8');
+    await fs.rename(temporaryPath, this.filePath);
+  }
+
+}
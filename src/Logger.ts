@@ -0,0 +1,154 @@
+import { Clock, SystemClock } from './Clock';
+
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields accompanying a log message such as `url`, `attempt`, `status` and `delayMillis`.
+ */
+export type LogFields = { [name: string]: any };
+
+/**
+ * This interface abstracts logging such that the library's output can be routed through an
+ * application's own logging pipeline or silenced.
+ */
+export interface Logger {
+
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  /**
+   * Optionally implemented by loggers that timestamp their messages.
+   */
+  setClock?: (clock: Clock) => void;
+
+}
+
+const logLevelOrder: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const isLevelEnabled = (level: LogLevel, minLevel: LogLevel): boolean => {
+  return logLevelOrder.indexOf(level) >= logLevelOrder.indexOf(minLevel);
+}
+
+const formatFieldValue = (value: any): string => {
+  if (value instanceof Error) {
+    return JSON.stringify(`${value.name}: ${value.message}`);
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : `${value}`;
+}
+
+/**
+ * This implementation of `Logger` discards all messages.
+ */
+export class NoopLogger implements Logger {
+
+  debug = (message: string, fields?: LogFields): void => {
+  }
+
+  info = (message: string, fields?: LogFields): void => {
+  }
+
+  warn = (message: string, fields?: LogFields): void => {
+  }
+
+  error = (message: string, fields?: LogFields): void => {
+  }
+
+}
+
+/**
+ * This implementation of `Logger` writes messages at or above a minimum level to the console with
+ * fields appended as `name=value` pairs.
+ */
+export class ConsoleLogger implements Logger {
+
+  minLevel: LogLevel;
+
+  constructor(minLevel: LogLevel = 'info') {
+    this.minLevel = minLevel;
+  }
+
+  debug = (message: string, fields?: LogFields): void => {
+    this._log('debug', message, fields);
+  }
+
+  info = (message: string, fields?: LogFields): void => {
+    this._log('info', message, fields);
+  }
+
+  warn = (message: string, fields?: LogFields): void => {
+    this._log('warn', message, fields);
+  }
+
+  error = (message: string, fields?: LogFields): void => {
+    this._log('error', message, fields);
+  }
+
+  private _log = (level: LogLevel, message: string, fields?: LogFields): void => {
+    if (!isLevelEnabled(level, this.minLevel)) {
+      return;
+    }
+    const formattedFields = fields ?
+      Object.keys(fields).map(name => ` ${name}=${formatFieldValue(fields[name])}`).join('') :
+      '';
+    console[level](`${message}${formattedFields}`);
+  }
+
+}
+
+/**
+ * This implementation of `Logger` writes each message at or above a minimum level as a single line
+ * of JSON containing the time, level, message and fields.
+ */
+export class JsonLinesLogger implements Logger {
+
+  minLevel: LogLevel;
+  private writeLine: (line: string) => void;
+  private clock: Clock = new SystemClock();
+
+  /**
+   * @param minLevel the minimum level of messages to write.
+   * @param writeLine the function to write each line with. This defaults to `console.log`.
+   */
+  constructor(minLevel: LogLevel = 'info', writeLine: (line: string) => void = (line: string) => console.log(line)) {
+    this.minLevel = minLevel;
+    this.writeLine = writeLine;
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  debug = (message: string, fields?: LogFields): void => {
+    this._log('debug', message, fields);
+  }
+
+  info = (message: string, fields?: LogFields): void => {
+    this._log('info', message, fields);
+  }
+
+  warn = (message: string, fields?: LogFields): void => {
+    this._log('warn', message, fields);
+  }
+
+  error = (message: string, fields?: LogFields): void => {
+    this._log('error', message, fields);
+  }
+
+  private _log = (level: LogLevel, message: string, fields?: LogFields): void => {
+    if (!isLevelEnabled(level, this.minLevel)) {
+      return;
+    }
+    const entry = {
+      time: new Date(this.clock.now()).toISOString(),
+      level: level,
+      message: message,
+      ...fields
+    };
+    this.writeLine(JSON.stringify(entry, (key, value) => {
+      return value instanceof Error ? { name: value.name, message: value.message } : value;
+    }));
+  }
+
+}
@@ -0,0 +1,402 @@
+import { CircuitState } from './CircuitBreaker';
+import { Clock, SystemClock } from './Clock';
+import { ConsoleLogger, Logger } from './Logger';
+import {
+  FetchStatsContext,
+  RateLimitingFetchStats,
+  RateLimitingFetchStatsRecorder
+} from './RateLimitingFetchStats';
+
+export type MetricLabels = { [name: string]: string };
+
+export interface CounterSample {
+  labels: MetricLabels
+  value: number
+}
+
+export interface GaugeSample {
+  labels: MetricLabels
+  value: number
+}
+
+export interface HistogramSample {
+  labels: MetricLabels
+  /**
+   * The cumulative count of observations less than or equal to each bucket's upper bound.
+   */
+  buckets: { le: number, count: number }[]
+  sum: number
+  count: number
+}
+
+/**
+ * A JSON friendly snapshot of the metrics recorded within the current window.
+ */
+export interface MetricsSnapshot {
+  windowStartTime: number
+  counters: { [metricName: string]: CounterSample[] }
+  gauges: { [metricName: string]: GaugeSample[] }
+  histograms: { [metricName: string]: HistogramSample[] }
+}
+
+export interface MetricsRateLimitingFetchStatsRecorderOptions {
+  /**
+   * The upper bounds in seconds of the attempt latency histogram buckets.
+   */
+  latencyBucketsSeconds?: number[]
+  /**
+   * The upper bounds in seconds of the retry and throttle delay histogram buckets.
+   */
+  delayBucketsSeconds?: number[]
+  /**
+   * If specified, all metrics are reset once this number of milliseconds has elapsed since the
+   * current window started.
+   */
+  resetIntervalMillis?: number
+}
+
+interface MetricDefinition {
+  name: string
+  help: string
+  type: 'counter' | 'gauge' | 'histogram'
+}
+
+const metricNamePrefix = 'rate_limiting_fetch';
+const defaultLatencyBucketsSeconds = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const defaultDelayBucketsSeconds = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const metricDefinitions: { [key: string]: MetricDefinition } = {
+  attempts: { name: `${metricNamePrefix}_attempts_total`, help: 'Fetch attempts sent.', type: 'counter' },
+  responses: { name: `${metricNamePrefix}_responses_total`, help: 'Fetch attempts completed by status code.', type: 'counter' },
+  retries: { name: `${metricNamePrefix}_retries_total`, help: 'Fetch retries.', type: 'counter' },
+  throttled: { name: `${metricNamePrefix}_throttled_total`, help: 'Fetch attempts held back by throttling.', type: 'counter' },
+  exhausted: { name: `${metricNamePrefix}_retries_exhausted_total`, help: 'Requests that gave up after exhausting their retries.', type: 'counter' },
+  retryBudgetDenials: { name: `${metricNamePrefix}_retry_budget_denials_total`, help: 'Retries denied because the retry budget was spent.', type: 'counter' },
+  circuitOpened: { name: `${metricNamePrefix}_circuit_opened_total`, help: 'Circuits that tripped open.', type: 'counter' },
+  circuitRejections: { name: `${metricNamePrefix}_circuit_rejections_total`, help: 'Requests rejected by an open circuit.', type: 'counter' },
+  cacheHits: { name: `${metricNamePrefix}_cache_hits_total`, help: 'Requests answered from the cache, including after revalidation.', type: 'counter' },
+  coalescedRequests: { name: `${metricNamePrefix}_coalesced_requests_total`, help: 'Requests that shared an identical in-flight request.', type: 'counter' },
+  queueDepth: { name: `${metricNamePrefix}_concurrency_queue_depth`, help: 'Attempts queued due to the concurrency limit.', type: 'gauge' },
+  attemptLatency: { name: `${metricNamePrefix}_attempt_duration_seconds`, help: 'Fetch attempt latency.', type: 'histogram' },
+  retryDelay: { name: `${metricNamePrefix}_retry_delay_seconds`, help: 'Delay before fetch retries.', type: 'histogram' },
+  throttleDelay: { name: `${metricNamePrefix}_throttle_delay_seconds`, help: 'Delay of fetch attempts held back by throttling.', type: 'histogram' },
+  queueWait: { name: `${metricNamePrefix}_concurrency_queue_wait_seconds`, help: 'Time fetch attempts were queued due to the concurrency limit.', type: 'histogram' }
+};
+
+/**
+ * This implementation of `RateLimitingFetchStatsRecorder` records counters and histograms broken
+ * down by origin, method, status code and, for partitioned requests, partition. The metrics can be
+ * rendered in the Prometheus text exposition format or the OpenMetrics format, or obtained as a
+ * JSON snapshot.
+ */
+export class MetricsRateLimitingFetchStatsRecorder implements RateLimitingFetchStatsRecorder {
+
+  clock: Clock = new SystemClock();
+  logger: Logger = new ConsoleLogger();
+  private latencyBucketsSeconds: number[];
+  private delayBucketsSeconds: number[];
+  private resetIntervalMillis: undefined | number;
+  private windowStartTime: number;
+  private counters: Map<string, Map<string, CounterSample>>;
+  private histograms: Map<string, Map<string, HistogramSample>>;
+  private gauges = new Map<string, Map<string, GaugeSample>>();
+  private maxQueueDepth: number;
+
+  constructor(options: MetricsRateLimitingFetchStatsRecorderOptions = {}) {
+    this.latencyBucketsSeconds = [...(options.latencyBucketsSeconds ?? defaultLatencyBucketsSeconds)].sort((a, b) => a - b);
+    this.delayBucketsSeconds = [...(options.delayBucketsSeconds ?? defaultDelayBucketsSeconds)].sort((a, b) => a - b);
+    this.resetIntervalMillis = options.resetIntervalMillis;
+    this.reset();
+  }
+
+  /**
+   * This method allows an implementation of `Clock` to be injected. The current window restarts at
+   * the time of the injected clock.
+   * @param clock the implementation of `Clock` to be injected.
+   */
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+    this.windowStartTime = clock.now();
+  }
+
+  /**
+   * This method allows an implementation of `Logger` to be injected. `reportToConsole` writes the
+   * metrics through the logger. By default, they are written to the console.
+   * @param logger the implementation of `Logger` to be injected.
+   */
+  public setLogger = (logger: Logger): void => {
+    this.logger = logger;
+  }
+
+  /**
+   * Discards all recorded counters and histograms and starts a new window. Gauges reflect the
+   * current state and are kept.
+   */
+  public reset = (): void => {
+    this.windowStartTime = this.clock.now();
+    this.counters = new Map();
+    this.histograms = new Map();
+    this.maxQueueDepth = 0;
+  }
+
+  public logFetchAttempt = (context: FetchStatsContext): void => {
+    this._incrementCounter(metricDefinitions.attempts, this._toLabels(context));
+  }
+
+  public logAttemptCompleted = (context: FetchStatsContext, status: undefined | number, durationMillis: number): void => {
+    const labels = this._toLabels(context);
+    this._incrementCounter(metricDefinitions.responses, { ...labels, status: status === undefined ? 'error' : `${status}` });
+    this._observeHistogram(metricDefinitions.attemptLatency, labels, durationMillis / 1000, this.latencyBucketsSeconds);
+  }
+
+  public logRetry = (delayMillis: number, context: FetchStatsContext): void => {
+    const labels = this._toLabels(context);
+    this._incrementCounter(metricDefinitions.retries, labels);
+    this._observeHistogram(metricDefinitions.retryDelay, labels, delayMillis / 1000, this.delayBucketsSeconds);
+  }
+
+  public logRetriesExhausted = (context: FetchStatsContext): void => {
+    this._incrementCounter(metricDefinitions.exhausted, this._toLabels(context));
+  }
+
+  public logRetryBudgetDenial = (context: FetchStatsContext): void => {
+    this._incrementCounter(metricDefinitions.retryBudgetDenials, this._toLabels(context));
+  }
+
+  public logThrottle = (delayMillis: number, context: FetchStatsContext): void => {
+    const labels = this._toLabels(context);
+    this._incrementCounter(metricDefinitions.throttled, labels);
+    this._observeHistogram(metricDefinitions.throttleDelay, labels, delayMillis / 1000, this.delayBucketsSeconds);
+  }
+
+  public logQueueWait = (waitMillis: number, context: FetchStatsContext): void => {
+    this._observeHistogram(metricDefinitions.queueWait, this._toLabels(context), waitMillis / 1000, this.delayBucketsSeconds);
+  }
+
+  public logQueueDepth = (key: string, queueDepth: number): void => {
+    this._resetIfWindowElapsed();
+    this._setGauge(metricDefinitions.queueDepth, { key: key }, queueDepth);
+    this.maxQueueDepth = Math.max(this.maxQueueDepth, queueDepth);
+  }
+
+  public logCircuitStateChange = (key: string, fromState: CircuitState, toState: CircuitState): void => {
+    if (toState === 'open') {
+      this._incrementCounter(metricDefinitions.circuitOpened, { key: key });
+    }
+  }
+
+  public logCircuitRejection = (key: string): void => {
+    this._incrementCounter(metricDefinitions.circuitRejections, { key: key });
+  }
+
+  public logCacheHit = (context: FetchStatsContext, revalidated: boolean): void => {
+    this._incrementCounter(metricDefinitions.cacheHits, { ...this._toLabels(context), revalidated: `${revalidated}` });
+  }
+
+  public logCoalescedRequest = (context: FetchStatsContext): void => {
+    this._incrementCounter(metricDefinitions.coalescedRequests, this._toLabels(context));
+  }
+
+  public getRateLimitingFetchStats = (partitionKey?: string): RateLimitingFetchStats => {
+    this._resetIfWindowElapsed();
+    const inPartition = (sample: CounterSample | HistogramSample) => partitionKey === undefined || sample.labels.partition === partitionKey;
+    const retryDelay = this._getHistogramTotals(metricDefinitions.retryDelay, inPartition);
+    const throttleDelay = this._getHistogramTotals(metricDefinitions.throttleDelay, inPartition);
+    const queueWait = this._getHistogramTotals(metricDefinitions.queueWait, inPartition);
+    const stats: RateLimitingFetchStats = {
+      fetchAttemptCount: this._getCounterTotal(metricDefinitions.attempts, inPartition),
+      fetchRetryCount: retryDelay.count,
+      totalFetchRetryDelay: retryDelay.sum * 1000,
+      fetchThrottleCount: throttleDelay.count,
+      totalFetchThrottleDelay: throttleDelay.sum * 1000,
+      circuitOpenCount: partitionKey === undefined ? this._getCounterTotal(metricDefinitions.circuitOpened) : 0,
+      circuitRejectionCount: partitionKey === undefined ? this._getCounterTotal(metricDefinitions.circuitRejections) : 0,
+      retriesExhaustedCount: this._getCounterTotal(metricDefinitions.exhausted, inPartition),
+      retryBudgetDenialCount: this._getCounterTotal(metricDefinitions.retryBudgetDenials, inPartition),
+      concurrencyQueuedCount: queueWait.count,
+      totalConcurrencyQueueWait: queueWait.sum * 1000,
+      maxConcurrencyQueueDepth: partitionKey === undefined ? this.maxQueueDepth : 0,
+      cacheHitCount: this._getCounterTotal(metricDefinitions.cacheHits, inPartition),
+      cacheRevalidationCount: this._getCounterTotal(metricDefinitions.cacheHits, sample => inPartition(sample) && sample.labels.revalidated === 'true'),
+      coalescedRequestCount: this._getCounterTotal(metricDefinitions.coalescedRequests, inPartition)
+    }
+    return stats;
+  }
+
+  /**
+   * Returns the metrics recorded within the current window.
+   */
+  public getSnapshot = (): MetricsSnapshot => {
+    this._resetIfWindowElapsed();
+    const snapshot: MetricsSnapshot = {
+      windowStartTime: this.windowStartTime,
+      counters: {},
+      gauges: {},
+      histograms: {}
+    };
+    this.counters.forEach((samples, metricName) => {
+      snapshot.counters[metricName] = Array.from(samples.values()).map(sample => ({ labels: { ...sample.labels }, value: sample.value }));
+    });
+    this.gauges.forEach((samples, metricName) => {
+      snapshot.gauges[metricName] = Array.from(samples.values()).map(sample => ({ labels: { ...sample.labels }, value: sample.value }));
+    });
+    this.histograms.forEach((samples, metricName) => {
+      snapshot.histograms[metricName] = Array.from(samples.values()).map(sample => ({
+        labels: { ...sample.labels },
+        buckets: sample.buckets.map(bucket => ({ ...bucket })),
+        sum: sample.sum,
+        count: sample.count
+      }));
+    });
+    return snapshot;
+  }
+
+  /**
+   * Renders the metrics recorded within the current window in the Prometheus text exposition
+   * format or, if `format` is `openMetrics`, the OpenMetrics text format.
+   */
+  public renderMetricsText = (format: 'prometheus' | 'openMetrics' = 'prometheus'): string => {
+    this._resetIfWindowElapsed();
+    const lines: string[] = [];
+    for (const definition of Object.values(metricDefinitions)) {
+      const familyName = format === 'openMetrics' && definition.type === 'counter' ?
+        definition.name.replace(/_total$/, '') :
+        definition.name;
+      lines.push(`# HELP ${familyName} ${definition.help}`);
+      lines.push(`# TYPE ${familyName} ${definition.type}`);
+      if (definition.type === 'counter' || definition.type === 'gauge') {
+        const samples = definition.type === 'counter' ? this.counters.get(definition.name) : this.gauges.get(definition.name);
+        if (samples) {
+          samples.forEach(sample => {
+            lines.push(`${definition.name}${this._formatLabels(sample.labels)} ${sample.value}`);
+          });
+        }
+      } else {
+        const samples = this.histograms.get(definition.name);
+        if (samples) {
+          samples.forEach(sample => {
+            for (const bucket of sample.buckets) {
+              lines.push(`${definition.name}_bucket${this._formatLabels({ ...sample.labels, le: `${bucket.le}` })} ${bucket.count}`);
+            }
+            lines.push(`${definition.name}_bucket${this._formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`);
+            lines.push(`${definition.name}_sum${this._formatLabels(sample.labels)} ${sample.sum}`);
+            lines.push(`${definition.name}_count${this._formatLabels(sample.labels)} ${sample.count}`);
+          });
+        }
+      }
+    }
+    if (format === 'openMetrics') {
+      lines.push('# EOF');
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  public report = (logger: Logger): void => {
+    logger.info('Rate limiting fetch metrics', { ...this.getRateLimitingFetchStats() });
+  }
+
+  public reportToConsole = (): void => {
+    this.logger.info(this.renderMetricsText());
+  }
+
+  private _toLabels = (context: FetchStatsContext): MetricLabels => {
+    const labels: MetricLabels = {
+      origin: context.origin,
+      method: context.method
+    };
+    if (context.partitionKey !== undefined) {
+      labels.partition = context.partitionKey;
+    }
+    return labels;
+  }
+
+  private _incrementCounter = (definition: MetricDefinition, labels: MetricLabels): void => {
+    this._resetIfWindowElapsed();
+    let samples = this.counters.get(definition.name);
+    if (!samples) {
+      samples = new Map();
+      this.counters.set(definition.name, samples);
+    }
+    const labelsKey = this._formatLabels(labels);
+    const sample = samples.get(labelsKey);
+    if (sample) {
+      sample.value++;
+    } else {
+      samples.set(labelsKey, { labels: labels, value: 1 });
+    }
+  }
+
+  private _setGauge = (definition: MetricDefinition, labels: MetricLabels, value: number): void => {
+    let samples = this.gauges.get(definition.name);
+    if (!samples) {
+      samples = new Map();
+      this.gauges.set(definition.name, samples);
+    }
+    samples.set(this._formatLabels(labels), { labels: labels, value: value });
+  }
+
+  private _observeHistogram = (definition: MetricDefinition, labels: MetricLabels, value: number, bucketBounds: number[]): void => {
+    this._resetIfWindowElapsed();
+    let samples = this.histograms.get(definition.name);
+    if (!samples) {
+      samples = new Map();
+      this.histograms.set(definition.name, samples);
+    }
+    const labelsKey = this._formatLabels(labels);
+    let sample = samples.get(labelsKey);
+    if (!sample) {
+      sample = {
+        labels: labels,
+        buckets: bucketBounds.map(le => ({ le: le, count: 0 })),
+        sum: 0,
+        count: 0
+      };
+      samples.set(labelsKey, sample);
+    }
+    for (const bucket of sample.buckets) {
+      if (value <= bucket.le) {
+        bucket.count++;
+      }
+    }
+    sample.sum += value;
+    sample.count++;
+  }
+
+  private _getCounterTotal = (definition: MetricDefinition, filter?: (sample: CounterSample) => boolean): number => {
+    let total = 0;
+    const samples = this.counters.get(definition.name);
+    if (samples) {
+      samples.forEach(sample => total += !filter || filter(sample) ? sample.value : 0);
+    }
+    return total;
+  }
+
+  private _getHistogramTotals = (definition: MetricDefinition, filter?: (sample: HistogramSample) => boolean): { sum: number, count: number } => {
+    const totals = { sum: 0, count: 0 };
+    const samples = this.histograms.get(definition.name);
+    if (samples) {
+      samples.forEach(sample => {
+        if (!filter || filter(sample)) {
+          totals.sum += sample.sum;
+          totals.count += sample.count;
+        }
+      });
+    }
+    return totals;
+  }
+
+  private _formatLabels = (labels: MetricLabels): string => {
+    const formattedLabels = Object.keys(labels).map(name => {
+      const escapedValue = labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+      return `${name}="${escapedValue}"`;
+    });
+    return formattedLabels.length ? `{${formattedLabels.join(',')}}` : '';
+  }
+
+  private _resetIfWindowElapsed = (): void => {
+    if (this.resetIntervalMillis !== undefined && this.clock.now() - this.windowStartTime >= this.resetIntervalMillis) {
+      this.reset();
+    }
+  }
+
+}
@@ -1,4 +1,10 @@
 import { FetchInterface } from './FetchInterface';
+import { ConsoleLogger, Logger } from './Logger';
+import { getRequestUrl } from './RequestUtils';
+import { buildMockResponse } from './ScriptedMockFetchController';
+import { Clock, SystemClock } from './Clock';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+import { MathRandom, Random } from './Random';
 
 /**
  * This interface encapsulates mock rate limiting response information.
@@ -19,6 +25,24 @@ export interface MockFetchController {
 
   getMockFetchInfo: (timeOfLastRateLimit: number) => undefined | MockFetchInfo;
 
+  /**
+   * If implemented, this optional method answers every request in place of `getMockFetchInfo`
+   * and requests never go to the network.
+   */
+  handleRequest?: (url: RequestInfo, init?: RequestInit) => Promise<Response>;
+
+  /**
+   * This optional method allows the logger to be injected.
+   */
+  setLogger?: (logger: Logger) => void;
+
+  /**
+   * These optional methods allow the time sources of `MockingFetch` to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+  setSleeper?: (sleeper: Sleeper) => void;
+  setRandom?: (random: Random) => void;
+
 }
 
 /**
@@ -46,8 +70,24 @@ export class SimpleMockFetchController implements MockFetchController {
  */
 export class RandomMockFetchController implements MockFetchController {
 
+  logger: Logger = new ConsoleLogger();
+  clock: Clock = new SystemClock();
+  random: Random = new MathRandom();
+
+  setLogger = (logger: Logger): void => {
+    this.logger = logger;
+  }
+
+  setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  setRandom = (random: Random): void => {
+    this.random = random;
+  }
+
   getMockFetchInfo = (timeOfLastRateLimit: number): undefined | MockFetchInfo => {
-    const now = new Date().getTime();
+    const now = this.clock.now();
     const millisSinceLastRateLimit = now - timeOfLastRateLimit;
     let threshold = 1;
     if (millisSinceLastRateLimit < 100) {
@@ -61,16 +101,19 @@ export class RandomMockFetchController implements MockFetchController {
     } else {
       threshold = 0.9;
     }
-    console.log(`Rate limit randomness threshold = ${threshold} (duration since last rate limit = ${millisSinceLastRateLimit}).`);
-    if (Math.random() <= threshold) {
+    this.logger.debug('Rate limit randomness threshold computed', {
+      threshold: threshold,
+      millisSinceLastRateLimit: millisSinceLastRateLimit
+    });
+    if (this.random.random() <= threshold) {
       return undefined;      
     } else {
-      const randomValue = Math.random();
+      const randomValue = this.random.random();
       if (randomValue < 0.5) {
         const mockFetchInfo: MockFetchInfo = {
           responseStatusCode: 429,
           responseStatusText: 'Too Many Requests',
-          addResponseHeaders: Math.random() < 0.5 ? this.addNoResponseHeaders : this.addRetryAfterResponseHeader
+          addResponseHeaders: this.random.random() < 0.5 ? this.addNoResponseHeaders : this.addRetryAfterResponseHeader
         }
         return mockFetchInfo;
       } else if (randomValue < 0.75) {
@@ -84,7 +127,7 @@ export class RandomMockFetchController implements MockFetchController {
         const mockFetchInfo: MockFetchInfo = {
           responseStatusCode: 503,
           responseStatusText: 'Service Unavailable',
-          addResponseHeaders: Math.random() < 0.5 ? this.addNoResponseHeaders : this.addRetryAfterResponseHeader
+          addResponseHeaders: this.random.random() < 0.5 ? this.addNoResponseHeaders : this.addRetryAfterResponseHeader
         }
         return mockFetchInfo;
       }
@@ -109,69 +152,69 @@ export class MockingFetch implements FetchInterface {
 
   timeOfLastRateLimit = 0;
   mockFetchController: MockFetchController = new SimpleMockFetchController();
+  logger: Logger = new ConsoleLogger();
+  clock: Clock = new SystemClock();
+  sleeper: Sleeper = new TimeoutSleeper();
+  random: Random = new MathRandom();
 
   public setMockFetchController = (mockFetchController: MockFetchController) => {
     this.mockFetchController = mockFetchController;
+    if (mockFetchController.setLogger) {
+      mockFetchController.setLogger(this.logger);
+    }
+    if (mockFetchController.setClock) {
+      mockFetchController.setClock(this.clock);
+    }
+    if (mockFetchController.setSleeper) {
+      mockFetchController.setSleeper(this.sleeper);
+    }
+    if (mockFetchController.setRandom) {
+      mockFetchController.setRandom(this.random);
+    }
+  }
+
+  public setLogger = (logger: Logger): void => {
+    this.logger = logger;
+    if (this.mockFetchController.setLogger) {
+      this.mockFetchController.setLogger(logger);
+    }
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+    if (this.mockFetchController.setClock) {
+      this.mockFetchController.setClock(clock);
+    }
+  }
+
+  public setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+    if (this.mockFetchController.setSleeper) {
+      this.mockFetchController.setSleeper(sleeper);
+    }
+  }
+
+  public setRandom = (random: Random): void => {
+    this.random = random;
+    if (this.mockFetchController.setRandom) {
+      this.mockFetchController.setRandom(random);
+    }
   }
 
   public fetch = async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
+    if (this.mockFetchController.handleRequest) {
+      return await this.mockFetchController.handleRequest(url, init);
+    }
     const mockFetchInfo = this.mockFetchController.getMockFetchInfo(this.timeOfLastRateLimit);
-    this.timeOfLastRateLimit = new Date().getTime();
+    this.timeOfLastRateLimit = this.clock.now();
     if (mockFetchInfo) {
-      const status: number = mockFetchInfo.responseStatusCode;
-      const statusText = mockFetchInfo.responseStatusText;
       const _headers = new Map<string, string>();
       mockFetchInfo.addResponseHeaders(_headers);
-      const headers: Headers = {
-        forEach: (callback: (value: string, key: string, parent: Headers) => void, thisArg?: any): void => {
-          throw new Error('TODO: Function not implemented.');
-        },
-        append: function (name: string, value: string): void {
-          throw new Error('TODO: Function not implemented.');
-        },
-        delete: function (name: string): void {
-          _headers.delete(name);
-        },
-        get: function (name: string): string {
-          return _headers.get(name);
-        },
-        has: function (name: string): boolean {
-          return _headers.has(name);
-        },
-        set: function (name: string, value: string): void {
-          _headers.set(name, value);
-        },
-      }
-      const rateLimitResponse: Response = {
-        clone: function (): Response {
-          throw new Error('TODO: Function not implemented.');
-        },
-        headers: headers,
-        ok: false,
-        redirected: false,
-        status: status,
-        statusText: statusText,
-        type: 'default',
-        url: url.toString(),
-        arrayBuffer: function (): Promise<ArrayBuffer> {
-          throw new Error('TODO: Function not implemented.');
-        },
-        blob: function (): Promise<Blob> {
-          throw new Error('TODO: Function not implemented.');
-        },
-        body: undefined,
-        bodyUsed: false,
-        json: function (): Promise<any> {
-          throw new Error('TODO: Function not implemented.');
-        },
-        text: function (): Promise<string> {
-          throw new Error('TODO: Function not implemented.');
-        },
-        formData: function (): Promise<FormData> {
-          throw new Error('TODO: Function not implemented.');
-        }
-      }
-      return rateLimitResponse;
+      return buildMockResponse(getRequestUrl(url), {
+        status: mockFetchInfo.responseStatusCode,
+        statusText: mockFetchInfo.responseStatusText,
+        headers: Array.from(_headers.entries())
+      });
     } else {
       return await fetch(url, init);
     }
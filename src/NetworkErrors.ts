@@ -0,0 +1,34 @@
+import { retryableNetworkErrorCodes } from './RateLimitingConstants';
+import { RequestAbortedError, RequestTimeoutError } from './RateLimitingErrors';
+
+/**
+ * Determines whether an error results from the request being aborted or timing out through an
+ * `AbortSignal`.
+ */
+export const isAbortError = (error: any): boolean => {
+  return error instanceof RequestAbortedError ||
+    (!!error && (error.name === 'AbortError' || error.name === 'TimeoutError'));
+}
+
+/**
+ * Determines whether an error thrown by a fetch implementation is a transient network failure such
+ * as a connection reset, DNS failure or socket hang up. The in-built `fetch` wraps such failures in
+ * a `TypeError` with the underlying error as its `cause`. Attempts that exceeded
+ * `attemptTimeoutMillis` are also considered transient.
+ */
+export const isRetryableNetworkError = (error: any): boolean => {
+  if (!error || isAbortError(error)) {
+    return false;
+  }
+  if (error instanceof RequestTimeoutError) {
+    return error.timeoutType === 'attempt';
+  }
+  const cause = error.cause;
+  if (retryableNetworkErrorCodes.includes(error.code) || (cause && retryableNetworkErrorCodes.includes(cause.code))) {
+    return true;
+  }
+  if (/socket hang up/i.test(error.message) || (cause && /socket hang up/i.test(cause.message))) {
+    return true;
+  }
+  return error.name === 'TypeError' && error.message === 'fetch failed';
+}
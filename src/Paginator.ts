@@ -0,0 +1,118 @@
+import { RateLimitedFetchFunction } from './BulkFetch';
+import { defaultCursorParameterName } from './RateLimitingConstants';
+import { PaginationFailedError } from './RateLimitingErrors';
+import { RateLimitingRequestOptions } from './RateLimitingHandlingOptions';
+
+/**
+ * Extracts the URL of the page following `page`, or undefined or null if `page` is the last page.
+ */
+export type NextPageUrlExtractor = (page: Response, pageUrl: string) =>
+  undefined | null | string | Promise<undefined | null | string>;
+
+/**
+ * Extracts the cursor of the page following `page`, or undefined or null if `page` is the last page.
+ */
+export type NextPageCursorExtractor = (page: Response) =>
+  undefined | null | string | Promise<undefined | null | string>;
+
+export interface PaginationOptions {
+  init?: RequestInit
+  requestOptions?: RateLimitingRequestOptions
+  /**
+   * Extracts the URL of the next page. This defaults to following the `Link` header with
+   * `rel="next"`.
+   */
+  getNextUrl?: NextPageUrlExtractor
+  /**
+   * Extracts the cursor of the next page, e.g. from a JSON body. The next page is requested from the
+   * first URL with the cursor in the `cursorParameter` query parameter. This takes precedence over
+   * `getNextUrl`.
+   */
+  getNextCursor?: NextPageCursorExtractor
+  /**
+   * The query parameter the cursor is sent in. This defaults to `cursor`.
+   */
+  cursorParameter?: string
+  /**
+   * The maximum number of pages to fetch. By default pages are fetched until there is no next page.
+   */
+  maxPages?: number
+}
+
+/**
+ * Parses a `Link` header into a map of lower case relation types to URLs resolved against `baseUrl`.
+ */
+export const parseLinkHeader = (value: null | string, baseUrl: string): Map<string, string> => {
+  const links = new Map<string, string>();
+  if (!value) {
+    return links;
+  }
+  const linkPattern = /<([^>]*)>((?:\s*;\s*[^;,]+(?:=(?:"[^"]*"|[^;,]*))?)*)/g;
+  let match: RegExpExecArray;
+  while ((match = linkPattern.exec(value)) !== null) {
+    const relMatch = /;\s*rel\s*=\s*(?:"([^"]*)"|([^;,\s]*))/i.exec(match[2]);
+    if (!relMatch) {
+      continue;
+    }
+    const linkUrl = new URL(match[1], baseUrl).toString();
+    for (const rel of (relMatch[1] ?? relMatch[2]).toLowerCase().split(/\s+/).filter(rel => rel)) {
+      if (!links.has(rel)) {
+        links.set(rel, linkUrl);
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * The default `NextPageUrlExtractor`, which follows the `Link` header with `rel="next"`.
+ */
+export const linkHeaderNextUrlExtractor: NextPageUrlExtractor = (page: Response, pageUrl: string): undefined | string => {
+  return parseLinkHeader(page.headers.get('Link'), pageUrl).get('next');
+}
+
+/**
+ * Walks the pages of a collection, yielding the response of each page. Each page is requested
+ * through `fetch`, normally `RateLimitingFetch.fetch`, such that the pages share the retry,
+ * throttling and cooldown state of the instance.
+ * @param fetch the function sending each request.
+ * @param url the URL of the first page.
+ * @param options the options of the pagination.
+ * @throws PaginationFailedError if a page is answered with an unsuccessful status.
+ */
+export async function* paginate(
+    fetch: RateLimitedFetchFunction,
+    url: string,
+    options: PaginationOptions = {}): AsyncGenerator<Response, void, undefined> {
+  const cursorParameter = options.cursorParameter ?? defaultCursorParameterName;
+  const getNextUrl: NextPageUrlExtractor = options.getNextCursor ?
+    async (page: Response) => {
+      const cursor = await options.getNextCursor(page);
+      if (cursor === undefined || cursor === null || cursor === '') {
+        return undefined;
+      }
+      const nextUrl = new URL(url);
+      nextUrl.searchParams.set(cursorParameter, cursor);
+      return nextUrl.toString();
+    } :
+    options.getNextUrl ?? linkHeaderNextUrlExtractor;
+  const visitedUrls = new Set<string>();
+  let pageUrl: undefined | null | string = url;
+  let pageCount = 0;
+  while (pageUrl && (options.maxPages === undefined || pageCount < options.maxPages)) {
+    // A next page that was already fetched would make the pagination loop forever...
+    if (visitedUrls.has(pageUrl)) {
+      return;
+    }
+    visitedUrls.add(pageUrl);
+    const page = await fetch(pageUrl, options.init, options.requestOptions);
+    if (!page.ok) {
+      throw new PaginationFailedError(pageUrl, page);
+    }
+    pageCount++;
+    // The extractor receives a copy such that the caller can still read the body of the page...
+    const nextUrl = await getNextUrl(page.clone(), pageUrl);
+    yield page;
+    pageUrl = nextUrl;
+  }
+}
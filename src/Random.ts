@@ -0,0 +1,46 @@
+
+/**
+ * This interface abstracts the source of randomness such that deterministic implementations can be
+ * injected for testing.
+ */
+export interface Random {
+
+  /**
+   * Returns a number greater than or equal to 0 and less than 1.
+   */
+  random: () => number;
+
+}
+
+/**
+ * This is the default implementation of `Random` which simply uses `Math.random`.
+ */
+export class MathRandom implements Random {
+
+  random = (): number => {
+    return Math.random();
+  }
+
+}
+
+/**
+ * This implementation of `Random` produces the same sequence of numbers for a given seed such that
+ * jitter is repeatable in tests. It uses the mulberry32 algorithm.
+ */
+export class SeededRandom implements Random {
+
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  random = (): number => {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let value = this.state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  }
+
+}
@@ -0,0 +1,217 @@
+
+/**
+ * This interface encapsulates the rate limit quota state advertised by a server through response
+ * headers. Fields are undefined when the server did not advertise them.
+ */
+export interface RateLimitQuota {
+  /**
+   * The number of requests allowed within the current quota window.
+   */
+  limit?: number,
+  /**
+   * The number of requests remaining within the current quota window.
+   */
+  remaining?: number,
+  /**
+   * The number of milliseconds until the quota window resets.
+   */
+  resetDelayMillis?: number
+  /**
+   * The number of milliseconds of each quota window, which is only advertised by the
+   * `RateLimit-Policy` header.
+   */
+  windowMillis?: number
+}
+
+interface StructuredMember {
+  key: undefined | string
+  value: string
+  params: Map<string, string>
+}
+
+const epochMillisThreshold = 1e12;
+const epochSecondsThreshold = 1e9;
+
+/**
+ * Parses the `Retry-After` header which may either be a number of seconds or an HTTP-date. When the
+ * response includes a `Date` header, HTTP-dates are interpreted relative to it rather than the
+ * local clock so that clock skew between the client and server does not distort the delay.
+ * @param headers the response headers.
+ * @param now the current local time in milliseconds.
+ * @returns the number of milliseconds to wait before retrying or undefined if the header is absent
+ * or can not be parsed.
+ */
+export const parseRetryAfterMillis = (headers: Headers, now: number): undefined | number => {
+  const retryAfterHeader = headers.get('Retry-After');
+  if (!retryAfterHeader) {
+    return undefined;
+  }
+  const retryAfterValue = retryAfterHeader.trim();
+  if (/^\d+(\.\d+)?$/.test(retryAfterValue)) {
+    return 1000 * parseFloat(retryAfterValue);
+  }
+  const retryAfterTime = Date.parse(retryAfterValue);
+  if (isNaN(retryAfterTime)) {
+    return undefined;
+  }
+  return Math.max(0, retryAfterTime - getServerTime(headers, now));
+}
+
+/**
+ * Parses the rate limit quota advertised by the IETF `RateLimit`, `RateLimit-Policy` and
+ * `RateLimit-Limit/Remaining/Reset` headers as well as the common `X-RateLimit-Limit/Remaining/Reset`
+ * family. Reset values expressed as epoch seconds or epoch milliseconds are interpreted relative to
+ * the server's `Date` header when it is present.
+ * @param headers the response headers.
+ * @param now the current local time in milliseconds.
+ * @returns the advertised quota or undefined if the response does not advertise any quota.
+ */
+export const parseRateLimitQuota = (headers: Headers, now: number): undefined | RateLimitQuota => {
+  const quota: RateLimitQuota = {};
+  const policyName = parseIetfRateLimitHeader(headers.get('RateLimit'), quota);
+  parseIetfRateLimitPolicyHeader(headers.get('RateLimit-Policy'), quota, policyName);
+  const serverTime = getServerTime(headers, now);
+  const prefixes = ['RateLimit-', 'X-RateLimit-'];
+  for (const prefix of prefixes) {
+    if (quota.limit === undefined) {
+      quota.limit = parseLeadingNumber(headers.get(`${prefix}Limit`));
+    }
+    if (quota.remaining === undefined) {
+      quota.remaining = parseLeadingNumber(headers.get(`${prefix}Remaining`));
+    }
+    if (quota.resetDelayMillis === undefined) {
+      quota.resetDelayMillis = parseResetDelayMillis(headers.get(`${prefix}Reset`), serverTime);
+    }
+  }
+  if (quota.resetDelayMillis === undefined) {
+    const resetAfterSeconds = parseLeadingNumber(headers.get('X-RateLimit-Reset-After'));
+    if (resetAfterSeconds !== undefined) {
+      quota.resetDelayMillis = 1000 * resetAfterSeconds;
+    }
+  }
+  if (quota.limit === undefined && quota.remaining === undefined && quota.resetDelayMillis === undefined) {
+    return undefined;
+  }
+  return quota;
+}
+
+const getServerTime = (headers: Headers, now: number): number => {
+  const dateHeader = headers.get('Date');
+  if (dateHeader) {
+    const serverTime = Date.parse(dateHeader);
+    if (!isNaN(serverTime)) {
+      return serverTime;
+    }
+  }
+  return now;
+}
+
+const parseLeadingNumber = (value: null | undefined | string): undefined | number => {
+  if (!value) {
+    return undefined;
+  }
+  const match = /^\s*(\d+(\.\d+)?)/.exec(value);
+  return match ? parseFloat(match[1]) : undefined;
+}
+
+/**
+ * Reset values are ambiguous across vendors. Large values are treated as epoch milliseconds or
+ * epoch seconds and anything else is treated as a number of seconds until the reset.
+ */
+const parseResetDelayMillis = (value: null | undefined | string, serverTime: number): undefined | number => {
+  const reset = parseLeadingNumber(value);
+  if (reset === undefined) {
+    return undefined;
+  } else if (reset >= epochMillisThreshold) {
+    return Math.max(0, reset - serverTime);
+  } else if (reset >= epochSecondsThreshold) {
+    return Math.max(0, 1000 * reset - serverTime);
+  } else {
+    return 1000 * reset;
+  }
+}
+
+/**
+ * Handles both the dictionary form (`limit=100, remaining=50, reset=30`) and the list form
+ * (`"default";r=50;t=30`) of the `RateLimit` header. When several policies are listed, the one with
+ * the fewest requests remaining is used.
+ * @returns the name of the policy used if the header is in the list form, otherwise undefined.
+ */
+const parseIetfRateLimitHeader = (value: null | string, quota: RateLimitQuota): undefined | string => {
+  if (!value) {
+    return undefined;
+  }
+  let policyName: undefined | string = undefined;
+  const members = parseStructuredMembers(value);
+  for (const member of members) {
+    const number = parseLeadingNumber(member.value);
+    if (member.key === 'limit') {
+      quota.limit = number;
+    } else if (member.key === 'remaining') {
+      quota.remaining = number;
+    } else if (member.key === 'reset') {
+      quota.resetDelayMillis = number === undefined ? undefined : 1000 * number;
+    } else if (member.params.has('r')) {
+      const remaining = parseLeadingNumber(member.params.get('r'));
+      if (remaining !== undefined && (quota.remaining === undefined || remaining < quota.remaining)) {
+        policyName = member.value;
+        quota.remaining = remaining;
+        const resetSeconds = parseLeadingNumber(member.params.get('t'));
+        quota.resetDelayMillis = resetSeconds === undefined ? undefined : 1000 * resetSeconds;
+      }
+    }
+  }
+  return policyName;
+}
+
+/**
+ * Handles the `"default";q=100;w=60` form as well as the earlier `100;w=60` form of the
+ * `RateLimit-Policy` header. If the `RateLimit` header named the policy its remaining requests were
+ * taken from, only that policy's limit and window are used such that the limit and remaining
+ * requests describe the same policy. Otherwise, the policy with the lowest limit is used.
+ */
+const parseIetfRateLimitPolicyHeader = (value: null | string, quota: RateLimitQuota, policyName: undefined | string): void => {
+  if (!value || quota.limit !== undefined) {
+    return;
+  }
+  const members = parseStructuredMembers(value);
+  for (const member of members) {
+    if (policyName !== undefined && member.value !== policyName) {
+      continue;
+    }
+    const limit = member.params.has('q') ? parseLeadingNumber(member.params.get('q')) : parseLeadingNumber(member.value);
+    if (limit !== undefined && (quota.limit === undefined || limit < quota.limit)) {
+      quota.limit = limit;
+      const windowSeconds = parseLeadingNumber(member.params.get('w'));
+      quota.windowMillis = windowSeconds === undefined ? undefined : 1000 * windowSeconds;
+    }
+  }
+}
+
+const parseStructuredMembers = (value: string): StructuredMember[] => {
+  return value.split(',').map((memberValue) => {
+    const parts = memberValue.split(';').map(part => part.trim());
+    const params = new Map<string, string>();
+    for (const param of parts.slice(1)) {
+      const separatorIndex = param.indexOf('=');
+      if (separatorIndex > 0) {
+        params.set(param.substring(0, separatorIndex).trim().toLowerCase(), param.substring(separatorIndex + 1).trim());
+      }
+    }
+    const item = parts[0];
+    const separatorIndex = item.indexOf('=');
+    if (separatorIndex > 0 && !item.startsWith('"')) {
+      return {
+        key: item.substring(0, separatorIndex).trim().toLowerCase(),
+        value: item.substring(separatorIndex + 1).trim(),
+        params: params
+      };
+    } else {
+      return {
+        key: undefined,
+        value: item,
+        params: params
+      };
+    }
+  });
+}
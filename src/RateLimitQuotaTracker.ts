@@ -0,0 +1,113 @@
+import { RateLimitQuota } from './RateLimitHeaders';
+import { QuotaSnapshot } from './RateLimitStateStore';
+
+/**
+ * Computes the quota snapshot resulting from a response advertising `quota`.
+ * @param existingSnapshot the snapshot of the key before the response or undefined if it has none.
+ * @param quota the quota advertised in the response.
+ * @param now the current time in milliseconds.
+ * @returns the new snapshot or `existingSnapshot` if the quota is incomplete.
+ */
+export const applyAdvertisedQuota = (
+    existingSnapshot: undefined | QuotaSnapshot,
+    quota: RateLimitQuota,
+    now: number): undefined | QuotaSnapshot => {
+  if (quota.remaining === undefined || quota.resetDelayMillis === undefined) {
+    return existingSnapshot;
+  }
+  return {
+    limit: quota.limit,
+    remaining: quota.remaining,
+    resetTime: now + quota.resetDelayMillis,
+    windowMillis: quota.windowMillis,
+    nextSendTime: existingSnapshot ? existingSnapshot.nextSendTime : now
+  };
+}
+
+/**
+ * Computes how long the next request should be held back for and accounts for the request by
+ * updating `snapshot` in place. Once the quota is spent, requests are held back until the reset and,
+ * if the quota advertised its window, spread over the next window at the rate of its limit.
+ * @param snapshot the quota snapshot of the key the request applies to.
+ * @param reserveFraction the fraction of the quota limit below which requests are paced.
+ * @param now the current time in milliseconds.
+ * @param cost the number of quota units the request consumes, which defaults to 1.
+ * @returns the number of milliseconds to hold the request back for.
+ */
+export const reservePacedSend = (snapshot: QuotaSnapshot, reserveFraction: number, now: number, cost: number = 1): number => {
+  if (snapshot.remaining <= 0 || snapshot.remaining < cost) {
+    if (snapshot.limit === undefined || snapshot.windowMillis === undefined) {
+      return snapshot.resetTime - now;
+    }
+    // The requests held back are spread over the next window rather than all being sent at the reset...
+    const resetSendTime = Math.max(snapshot.resetTime, snapshot.nextSendTime);
+    snapshot.nextSendTime = resetSendTime + cost * snapshot.windowMillis / snapshot.limit;
+    return resetSendTime - now;
+  }
+  const reserve = snapshot.limit === undefined ? 0 : reserveFraction * snapshot.limit;
+  if (snapshot.remaining > reserve) {
+    snapshot.remaining -= cost;
+    return 0;
+  }
+  const pacingIntervalMillis = cost * (snapshot.resetTime - now) / snapshot.remaining;
+  const sendTime = Math.max(now, snapshot.nextSendTime);
+  snapshot.nextSendTime = sendTime + pacingIntervalMillis;
+  snapshot.remaining -= cost;
+  return sendTime - now;
+}
+
+/**
+ * This class tracks the most recent rate limit quota advertised for each key and computes how long
+ * requests should be held back so that they are spread over the remaining quota window rather than
+ * exhausting the quota and being rate limited.
+ */
+export class RateLimitQuotaTracker {
+
+  private reserveFraction: number;
+  private quotas = new Map<string, QuotaSnapshot>();
+
+  /**
+   * @param reserveFraction the fraction of the quota limit below which requests are paced.
+   */
+  constructor(reserveFraction: number) {
+    this.reserveFraction = reserveFraction;
+  }
+
+  public getReserveFraction = (): number => {
+    return this.reserveFraction;
+  }
+
+  /**
+   * Records the quota advertised in a response.
+   * @param key the key the quota applies to.
+   * @param quota the quota advertised in the response.
+   * @param now the current time in milliseconds.
+   */
+  public recordQuota = (key: string, quota: RateLimitQuota, now: number): void => {
+    const snapshot = applyAdvertisedQuota(this.quotas.get(key), quota, now);
+    if (snapshot) {
+      this.quotas.set(key, snapshot);
+    }
+  }
+
+  /**
+   * Computes how long the next request for the given key should be held back for and accounts for
+   * the request against the tracked quota.
+   * @param key the key the request applies to.
+   * @param now the current time in milliseconds.
+   * @param cost the number of quota units the request consumes, which defaults to 1.
+   * @returns the number of milliseconds to hold the request back for.
+   */
+  public computePacingDelayMillis = (key: string, now: number, cost: number = 1): number => {
+    const quota = this.quotas.get(key);
+    if (!quota) {
+      return 0;
+    }
+    if (quota.resetTime <= now) {
+      this.quotas.delete(key);
+      return 0;
+    }
+    return reservePacedSend(quota, this.reserveFraction, now, cost);
+  }
+
+}
@@ -0,0 +1,120 @@
+import { Clock } from './Clock';
+import { Sleeper } from './Sleeper';
+
+/**
+ * The cooldown of a key that was rate limited.
+ */
+export interface CooldownState {
+  /**
+   * The time in milliseconds at which the cooldown ends.
+   */
+  endTime: number
+}
+
+/**
+ * The level of the token bucket of a key.
+ */
+export interface TokenBucketState {
+  tokens: number
+  lastRefillTime: number
+}
+
+/**
+ * The most recent rate limit quota advertised for a key, less the requests sent since.
+ */
+export interface QuotaSnapshot {
+  limit: undefined | number
+  remaining: number
+  /**
+   * The time in milliseconds at which the quota window resets.
+   */
+  resetTime: number
+  /**
+   * The number of milliseconds of each quota window, if the quota advertised it.
+   */
+  windowMillis?: number
+  /**
+   * The earliest time in milliseconds at which the next paced request may be sent.
+   */
+  nextSendTime: number
+}
+
+/**
+ * The rate limiting state shared for a key, typically an origin. Fields are undefined until the
+ * corresponding state has been learnt.
+ */
+export interface RateLimitState {
+  cooldown?: CooldownState
+  tokenBucket?: TokenBucketState
+  quota?: QuotaSnapshot
+}
+
+/**
+ * Computes the new state of a key from its current state, or undefined if it has none. Updaters
+ * must be synchronous and free of side effects other than capturing results since they may be
+ * called while the store holds a lock.
+ */
+export type RateLimitStateUpdater = (state: undefined | RateLimitState) => undefined | RateLimitState;
+
+/**
+ * This interface abstracts the storage of rate limiting state such that it can be shared between
+ * `RateLimitingFetch` instances, including instances in different processes, and such that
+ * alternate implementations, e.g. backed by Redis, can be injected.
+ */
+export interface RateLimitStateStore {
+
+  /**
+   * Returns the state of the given key or undefined if it has none.
+   */
+  get: (key: string) => Promise<undefined | RateLimitState>;
+
+  /**
+   * Atomically replaces the state of the given key with the result of `updater` such that no other
+   * update of the key, by any user of the store, is interleaved.
+   * @returns the new state of the key.
+   */
+  update: (key: string, updater: RateLimitStateUpdater) => Promise<undefined | RateLimitState>;
+
+  /**
+   * This optional method allows the clock to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+
+  /**
+   * This optional method allows the sleeper used to wait for locks to be injected.
+   */
+  setSleeper?: (sleeper: Sleeper) => void;
+
+}
+
+/**
+ * Returns a copy of a state such that stored states can not be modified other than through the
+ * store.
+ */
+export const copyRateLimitState = (state: undefined | RateLimitState): undefined | RateLimitState => {
+  return state === undefined ? undefined : JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * This implementation of `RateLimitStateStore` shares state between the `RateLimitingFetch`
+ * instances of a single process.
+ */
+export class InMemoryRateLimitStateStore implements RateLimitStateStore {
+
+  private states = new Map<string, RateLimitState>();
+
+  public get = async (key: string): Promise<undefined | RateLimitState> => {
+    return copyRateLimitState(this.states.get(key));
+  }
+
+  public update = async (key: string, updater: RateLimitStateUpdater): Promise<undefined | RateLimitState> => {
+    const state = updater(copyRateLimitState(this.states.get(key)));
+    if (state === undefined) {
+      this.states.delete(key);
+    } else {
+      this.states.set(key, copyRateLimitState(state));
+    }
+    return copyRateLimitState(state);
+  }
+
+}
@@ -0,0 +1,102 @@
+import { FetchInterface } from './FetchInterface';
+import { RateLimitingFetch } from './RateLimitingFetch';
+import {
+  nonUiContextRateLimitingHandlingOptionsDefaults,
+  RateLimitingHandlingOptions
+} from './RateLimitingHandlingOptions';
+
+/**
+ * A function with the signature of the global `fetch` that sends its requests through a
+ * `RateLimitingFetch` instance, which is exposed such that it can be configured.
+ */
+export type RateLimitedFetch = typeof fetch & {
+  rateLimitingFetch: RateLimitingFetch
+};
+
+/**
+ * Creates a drop-in replacement for the global `fetch` that handles rate limiting, e.g. to pass to
+ * libraries that accept a `fetch` implementation.
+ * @param options the options of the underlying `RateLimitingFetch` instance.
+ * @param fetchImplementation the implementation requests are sent with, which defaults to the
+ * in-built `fetch`.
+ */
+export const createRateLimitedFetch = (
+    options: RateLimitingHandlingOptions = nonUiContextRateLimitingHandlingOptionsDefaults,
+    fetchImplementation?: FetchInterface): RateLimitedFetch => {
+  const rateLimitingFetch = new RateLimitingFetch(options);
+  if (fetchImplementation) {
+    rateLimitingFetch.setFetchImplementation(fetchImplementation);
+  }
+  const rateLimitedFetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    return rateLimitingFetch.fetch(input instanceof URL ? input.toString() : input, init);
+  };
+  return Object.assign(rateLimitedFetch, { rateLimitingFetch: rateLimitingFetch });
+}
+
+interface Installation {
+  originalFetch: typeof fetch
+  rateLimitedFetch: RateLimitedFetch
+}
+
+let installation: undefined | Installation = undefined;
+
+/**
+ * Replaces `globalThis.fetch` with a rate limited fetch that sends its requests through the
+ * original `fetch`, such that code calling the global `fetch` handles rate limiting without
+ * changes. Call `uninstall` to restore the original `fetch`.
+ * @param options the options of the underlying `RateLimitingFetch` instance.
+ * @returns the installed rate limited fetch.
+ */
+export const install = (options: RateLimitingHandlingOptions = nonUiContextRateLimitingHandlingOptionsDefaults): RateLimitedFetch => {
+  if (installation) {
+    throw new Error('A rate limited fetch is already installed. Call uninstall() before installing another one.');
+  }
+  const originalFetch = globalThis.fetch;
+  // The original fetch is captured such that the installed fetch does not call itself...
+  const rateLimitedFetch = createRateLimitedFetch(options, {
+    fetch: (url: RequestInfo, init?: RequestInit) => originalFetch(url, init)
+  });
+  globalThis.fetch = rateLimitedFetch;
+  installation = { originalFetch: originalFetch, rateLimitedFetch: rateLimitedFetch };
+  return rateLimitedFetch;
+}
+
+/**
+ * Restores the `globalThis.fetch` replaced by `install`. If other code has since wrapped the
+ * installed fetch, the wrapper is left in place since it still delegates to the original `fetch`
+ * through the installed one.
+ */
+export const uninstall = (): void => {
+  if (!installation) {
+    return;
+  }
+  if (globalThis.fetch === installation.rateLimitedFetch) {
+    globalThis.fetch = installation.originalFetch;
+  }
+  installation = undefined;
+}
+
+/**
+ * Returns whether a rate limited fetch is installed.
+ */
+export const isInstalled = (): boolean => {
+  return installation !== undefined;
+}
+
+/**
+ * Installs a rate limited fetch for the duration of `scope` and uninstalls it once `scope`
+ * settles.
+ * @param scope the code to run with the rate limited fetch installed.
+ * @param options the options of the underlying `RateLimitingFetch` instance.
+ * @returns the result of `scope`.
+ */
+export const runWithRateLimitedFetch = async <T>(
+    scope: (rateLimitedFetch: RateLimitedFetch) => Promise<T>,
+    options?: RateLimitingHandlingOptions): Promise<T> => {
+  const rateLimitedFetch = install(options);
+  try {
+    return await scope(rateLimitedFetch);
+  } finally {
+    uninstall();
+  }
+}
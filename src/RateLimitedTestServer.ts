@@ -0,0 +1,480 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Clock, SystemClock } from './Clock';
+import { MathRandom, Random } from './Random';
+import {
+  internalServerErrorStatusCode,
+  serviceUnavailableStatusCode,
+  tooManyRequestsStatusCode
+} from './RateLimitingConstants';
+
+/**
+ * A quota that admits up to `limit` requests per key within fixed windows of `windowMillis` that
+ * start when the server starts.
+ */
+export interface FixedWindowTestServerQuota {
+  algorithm: 'fixedWindow'
+  limit: number
+  windowMillis: number
+}
+
+/**
+ * A quota that admits up to `limit` requests per key within any sliding window of `windowMillis`.
+ */
+export interface SlidingWindowTestServerQuota {
+  algorithm: 'slidingWindow'
+  limit: number
+  windowMillis: number
+}
+
+/**
+ * A quota that admits requests through a token bucket per key.
+ */
+export interface TokenBucketTestServerQuota {
+  algorithm: 'tokenBucket'
+  bucketCapacity: number
+  refillTokensPerSecond: number
+}
+
+export type TestServerQuota = FixedWindowTestServerQuota | SlidingWindowTestServerQuota | TokenBucketTestServerQuota;
+
+/**
+ * Describes a burst of failures injected in place of normal responses, e.g. to simulate an
+ * upstream outage.
+ */
+export interface TestServerFaultBurst {
+  /**
+   * The status of the failure responses. This defaults to 503.
+   */
+  status?: number
+  /**
+   * The number of consecutive requests that fail.
+   */
+  count: number
+  /**
+   * The number of requests to answer normally before the burst starts. This defaults to 0.
+   */
+  afterRequests?: number
+  /**
+   * If specified, the failure responses include a `Retry-After` header with this number of seconds.
+   */
+  retryAfterSeconds?: number
+}
+
+/**
+ * A request received by `RateLimitedTestServer`.
+ */
+export interface TestServerRequest {
+  method: string
+  /**
+   * The path and query of the request.
+   */
+  path: string
+  headers: http.IncomingHttpHeaders
+  /**
+   * The request body decoded as text or undefined if the request has no body.
+   */
+  body: undefined | string
+  /**
+   * The key the request was rate limited by.
+   */
+  clientKey: string
+}
+
+export interface TestServerResponse {
+  status?: number
+  headers?: http.OutgoingHttpHeaders
+  /**
+   * The response body. Values other than strings are serialised as JSON.
+   */
+  body?: any
+}
+
+export type TestServerOutcome = 'success' | 'rateLimited' | 'fault';
+
+/**
+ * An entry of the request log of `RateLimitedTestServer`.
+ */
+export interface TestServerLogEntry extends TestServerRequest {
+  /**
+   * The time the request was received in milliseconds.
+   */
+  time: number
+  status: number
+  outcome: TestServerOutcome
+}
+
+export interface RateLimitedTestServerOptions {
+  /**
+   * The quota requests are admitted by. If not specified, requests are never rate limited.
+   */
+  quota?: TestServerQuota
+  /**
+   * If specified, quotas are kept per value of this request header such that clients are rate
+   * limited independently. Otherwise, all requests share one quota.
+   */
+  clientKeyHeader?: string
+  /**
+   * Whether rate limited responses include a `Retry-After` header. This defaults to true.
+   */
+  sendRetryAfter?: boolean
+  /**
+   * Whether responses include `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset`
+   * headers, the latter in epoch seconds. This defaults to true.
+   */
+  sendRateLimitHeaders?: boolean
+  /**
+   * The number of milliseconds to wait before responding to each request. This defaults to 0.
+   */
+  latencyMillis?: number
+  /**
+   * The maximum number of milliseconds randomly added to `latencyMillis`. This defaults to 0.
+   */
+  latencyJitterMillis?: number
+  /**
+   * The source of the random numbers the latency jitter is drawn from. This defaults to
+   * `MathRandom`.
+   */
+  random?: Random
+  /**
+   * The bursts of failures to inject, counted from when the server starts.
+   */
+  faultBursts?: TestServerFaultBurst[]
+  /**
+   * Builds the response to requests that are admitted. By default, a 200 response with a JSON body
+   * echoing the method and path is returned.
+   */
+  respond?: (request: TestServerRequest) => TestServerResponse
+  /**
+   * The port to listen on. This defaults to 0 which selects a free port.
+   */
+  port?: number
+}
+
+interface QuotaDecision {
+  admitted: boolean
+  limit: number
+  remaining: number
+  /**
+   * The time in milliseconds at which the quota is fully available again.
+   */
+  resetTime: number
+  /**
+   * The number of milliseconds until a rejected request would be admitted.
+   */
+  retryAfterMillis: number
+}
+
+interface QuotaState {
+  admissionTimes: number[]
+  windowStartTime: number
+  windowCount: number
+  tokens: number
+  lastRefillTime: number
+}
+
+interface PendingFaultBurst {
+  status: number
+  startRequestNumber: number
+  remaining: number
+  retryAfterSeconds: undefined | number
+}
+
+/**
+ * This class provides a local HTTP server, bound to localhost, that simulates a rate limited API
+ * such that `RateLimitingFetch` can be tested end to end over real sockets without a network.
+ * Requests over the quota receive *429 Too Many Requests* responses, bursts of 500 and 503
+ * responses and latency can be injected, and every request is recorded in a request log.
+ */
+export class RateLimitedTestServer {
+
+  private options: RateLimitedTestServerOptions;
+  private server: undefined | http.Server = undefined;
+  private baseUrl: undefined | string = undefined;
+  private clock: Clock = new SystemClock();
+  private random: Random;
+  private startTime = 0;
+  private requestCount = 0;
+  private quotaStates = new Map<string, QuotaState>();
+  private faultBursts: PendingFaultBurst[] = [];
+  private requestLog: TestServerLogEntry[] = [];
+  private pendingTimeouts = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(options: RateLimitedTestServerOptions = {}) {
+    this._validateQuota(options.quota);
+    this.options = options;
+    this.random = options.random ?? new MathRandom();
+    (options.faultBursts ?? []).forEach(this.injectFaultBurst);
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  /**
+   * Starts listening on localhost.
+   * @returns the base URL of the server, e.g. `http://127.0.0.1:53412`.
+   */
+  public start = async (): Promise<string> => {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+    this.startTime = this.clock.now();
+    const server = http.createServer(this._handleRequest);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, '127.0.0.1', () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stops the server, dropping any responses that are still delayed by latency and closing idle
+   * keep-alive connections.
+   */
+  public stop = async (): Promise<void> => {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    this.baseUrl = undefined;
+    this.pendingTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.pendingTimeouts.clear();
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Returns the URL of the given path on the server.
+   * @throws Error if the server has not been started.
+   */
+  public getUrl = (path: string = '/'): string => {
+    if (!this.baseUrl) {
+      throw new Error('RateLimitedTestServer has not been started.');
+    }
+    return `${this.baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  /**
+   * Injects a burst of failures, starting after `afterRequests` further requests.
+   */
+  public injectFaultBurst = (faultBurst: TestServerFaultBurst): void => {
+    this.faultBursts.push({
+      status: faultBurst.status ?? serviceUnavailableStatusCode,
+      startRequestNumber: this.requestCount + (faultBurst.afterRequests ?? 0) + 1,
+      remaining: faultBurst.count,
+      retryAfterSeconds: faultBurst.retryAfterSeconds
+    });
+  }
+
+  /**
+   * Returns the requests received so far in the order they were received.
+   */
+  public getRequestLog = (): TestServerLogEntry[] => {
+    return [...this.requestLog];
+  }
+
+  /**
+   * Clears the request log, the quota state and any pending fault bursts.
+   */
+  public reset = (): void => {
+    this.requestLog = [];
+    this.quotaStates.clear();
+    this.faultBursts = [];
+    this.requestCount = 0;
+    this.startTime = this.clock.now();
+  }
+
+  private _handleRequest = (request: http.IncomingMessage, response: http.ServerResponse): void => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const body = chunks.length ? Buffer.concat(chunks).toString('utf8') : undefined;
+      const time = this.clock.now();
+      const requestNumber = ++this.requestCount;
+      const receivedRequest: TestServerRequest = {
+        method: request.method ?? 'GET',
+        path: request.url ?? '/',
+        headers: request.headers,
+        body: body,
+        clientKey: this._getClientKey(request)
+      };
+      const serverResponse = this._buildResponse(receivedRequest, requestNumber, time);
+      this.requestLog.push({
+        ...receivedRequest,
+        time: time,
+        status: serverResponse.status,
+        outcome: serverResponse.outcome
+      });
+      this._sendAfterLatency(response, serverResponse);
+    });
+  }
+
+  private _buildResponse = (
+      receivedRequest: TestServerRequest,
+      requestNumber: number,
+      now: number): TestServerResponse & { status: number, outcome: TestServerOutcome } => {
+    const faultBurst = this.faultBursts.find(faultBurst => requestNumber >= faultBurst.startRequestNumber && faultBurst.remaining > 0);
+    if (faultBurst) {
+      faultBurst.remaining--;
+      this.faultBursts = this.faultBursts.filter(faultBurst => faultBurst.remaining > 0);
+      return {
+        status: faultBurst.status,
+        headers: faultBurst.retryAfterSeconds === undefined ? {} : { 'Retry-After': `${faultBurst.retryAfterSeconds}` },
+        body: { error: faultBurst.status === internalServerErrorStatusCode ? 'Internal Server Error' : 'Service Unavailable' },
+        outcome: 'fault'
+      };
+    }
+    const headers: http.OutgoingHttpHeaders = {};
+    if (this.options.quota) {
+      const decision = this._decide(this.options.quota, receivedRequest.clientKey, now);
+      if (this.options.sendRateLimitHeaders ?? true) {
+        headers['X-RateLimit-Limit'] = `${decision.limit}`;
+        headers['X-RateLimit-Remaining'] = `${decision.remaining}`;
+        headers['X-RateLimit-Reset'] = `${Math.ceil(decision.resetTime / 1000)}`;
+      }
+      if (!decision.admitted) {
+        if (this.options.sendRetryAfter ?? true) {
+          headers['Retry-After'] = `${Math.max(1, Math.ceil(decision.retryAfterMillis / 1000))}`;
+        }
+        return {
+          status: tooManyRequestsStatusCode,
+          headers: headers,
+          body: { error: 'Too Many Requests' },
+          outcome: 'rateLimited'
+        };
+      }
+    }
+    const admittedResponse = this.options.respond ?
+      this.options.respond(receivedRequest) :
+      { body: { method: receivedRequest.method, path: receivedRequest.path } };
+    return {
+      status: admittedResponse.status ?? 200,
+      headers: { ...headers, ...admittedResponse.headers },
+      body: admittedResponse.body,
+      outcome: 'success'
+    };
+  }
+
+  private _decide = (quota: TestServerQuota, clientKey: string, now: number): QuotaDecision => {
+    let state = this.quotaStates.get(clientKey);
+    if (!state) {
+      state = {
+        admissionTimes: [],
+        windowStartTime: this.startTime,
+        windowCount: 0,
+        tokens: quota.algorithm === 'tokenBucket' ? quota.bucketCapacity : 0,
+        lastRefillTime: now
+      };
+      this.quotaStates.set(clientKey, state);
+    }
+    if (quota.algorithm === 'fixedWindow') {
+      const windowIndex = Math.floor((now - this.startTime) / quota.windowMillis);
+      const windowStartTime = this.startTime + windowIndex * quota.windowMillis;
+      if (windowStartTime !== state.windowStartTime) {
+        state.windowStartTime = windowStartTime;
+        state.windowCount = 0;
+      }
+      const resetTime = windowStartTime + quota.windowMillis;
+      const admitted = state.windowCount < quota.limit;
+      if (admitted) {
+        state.windowCount++;
+      }
+      return {
+        admitted: admitted,
+        limit: quota.limit,
+        remaining: quota.limit - state.windowCount,
+        resetTime: resetTime,
+        retryAfterMillis: resetTime - now
+      };
+    } else if (quota.algorithm === 'slidingWindow') {
+      const admissionTimes = state.admissionTimes;
+      while (admissionTimes.length && admissionTimes[0] <= now - quota.windowMillis) {
+        admissionTimes.shift();
+      }
+      const admitted = admissionTimes.length < quota.limit;
+      if (admitted) {
+        admissionTimes.push(now);
+      }
+      return {
+        admitted: admitted,
+        limit: quota.limit,
+        remaining: quota.limit - admissionTimes.length,
+        resetTime: admissionTimes.length ? admissionTimes[admissionTimes.length - 1] + quota.windowMillis : now,
+        retryAfterMillis: admissionTimes.length ? admissionTimes[0] + quota.windowMillis - now : 0
+      };
+    } else {
+      const elapsedMillis = Math.max(0, now - state.lastRefillTime);
+      state.tokens = Math.min(quota.bucketCapacity, state.tokens + elapsedMillis * quota.refillTokensPerSecond / 1000);
+      state.lastRefillTime = now;
+      const admitted = state.tokens >= 1;
+      if (admitted) {
+        state.tokens -= 1;
+      }
+      return {
+        admitted: admitted,
+        limit: quota.bucketCapacity,
+        remaining: Math.floor(state.tokens),
+        resetTime: now + Math.ceil((quota.bucketCapacity - state.tokens) * 1000 / quota.refillTokensPerSecond),
+        retryAfterMillis: admitted ? 0 : Math.ceil((1 - state.tokens) * 1000 / quota.refillTokensPerSecond)
+      };
+    }
+  }
+
+  private _getClientKey = (request: http.IncomingMessage): string => {
+    if (!this.options.clientKeyHeader) {
+      return 'default';
+    }
+    const value = request.headers[this.options.clientKeyHeader.toLowerCase()];
+    return (Array.isArray(value) ? value[0] : value) ?? 'anonymous';
+  }
+
+  private _sendAfterLatency = (response: http.ServerResponse, serverResponse: TestServerResponse & { status: number }): void => {
+    const latencyMillis = (this.options.latencyMillis ?? 0) + this.random.random() * (this.options.latencyJitterMillis ?? 0);
+    if (latencyMillis <= 0) {
+      this._send(response, serverResponse);
+      return;
+    }
+    const timeout = setTimeout(() => {
+      this.pendingTimeouts.delete(timeout);
+      this._send(response, serverResponse);
+    }, latencyMillis);
+    this.pendingTimeouts.add(timeout);
+  }
+
+  private _send = (response: http.ServerResponse, serverResponse: TestServerResponse & { status: number }): void => {
+    const headers: http.OutgoingHttpHeaders = { ...serverResponse.headers };
+    let body = serverResponse.body;
+    if (body !== undefined && typeof body !== 'string') {
+      body = JSON.stringify(body);
+      if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+    response.writeHead(serverResponse.status, headers);
+    response.end(body);
+  }
+
+  private _validateQuota = (quota: undefined | TestServerQuota): void => {
+    if (!quota) {
+      return;
+    }
+    const checks: [string, number][] = quota.algorithm === 'tokenBucket' ?
+      [['bucketCapacity', quota.bucketCapacity], ['refillTokensPerSecond', quota.refillTokensPerSecond]] :
+      [['limit', quota.limit], ['windowMillis', quota.windowMillis]];
+    for (const [name, value] of checks) {
+      if (!(value > 0)) {
+        throw new Error(`Invalid RateLimitedTestServer options: quota.${name} is ${value}, but it must be greater than 0.`);
+      }
+    }
+  }
+
+}
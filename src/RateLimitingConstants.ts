@@ -4,3 +4,69 @@ export const minJitterMultiplier = 1;
 export const tooManyRequestsStatusCode = 429;
 export const internalServerErrorStatusCode = 500;
 export const serviceUnavailableStatusCode = 503;
+
+export const defaultRetryableStatusCodes = [
+  tooManyRequestsStatusCode,
+  internalServerErrorStatusCode,
+  serviceUnavailableStatusCode
+];
+
+export const idempotentRequestMethods = ['GET', 'HEAD', 'OPTIONS', 'TRACE', 'PUT', 'DELETE'];
+export const idempotencyKeyHeaderName = 'Idempotency-Key';
+
+export const retryableNetworkErrorCodes = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT'
+];
+
+export const defaultMaxBufferedBodyBytes = 1024 * 1024;
+
+export const defaultRetryBudgetWindowMillis = 10000;
+
+export const defaultCooldownReleaseIntervalMillis = 100;
+
+export const attemptHistoryHeaderNames = [
+  'Date',
+  'Retry-After',
+  'RateLimit',
+  'RateLimit-Policy',
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+  'X-RateLimit-Reset-After'
+];
+
+export const notModifiedStatusCode = 304;
+
+export const defaultMaxCacheSizeBytes = 10 * 1024 * 1024;
+
+export const defaultMaxCacheEntryBytes = 1024 * 1024;
+
+/**
+ * The statuses of responses that may be cached when they carry explicit freshness or validators.
+ */
+export const cacheableStatusCodes = [200, 203, 300, 301, 308, 404, 410];
+
+export const defaultBulkFetchConcurrency = 4;
+
+export const defaultCursorParameterName = 'cursor';
+
+/**
+ * The partition of requests without an `Authorization` header when partitioning by credentials.
+ */
+export const anonymousPartitionKey = 'anonymous';
@@ -0,0 +1,201 @@
+import { AttemptRecord } from './AttemptHistory';
+
+/**
+ * This error is thrown when a request is rejected without being sent because the circuit for its
+ * key is open.
+ */
+export class CircuitOpenError extends Error {
+
+  /**
+   * The key of the circuit that rejected the request.
+   */
+  key: string;
+  /**
+   * The number of milliseconds until the circuit allows probe requests through, or undefined if the
+   * circuit is half-open and waiting for the probe requests it let through to complete.
+   */
+  retryAfterMillis: undefined | number;
+
+  constructor(key: string, retryAfterMillis: undefined | number) {
+    super(retryAfterMillis === undefined ?
+      `Circuit for ${key} is half-open and its probe requests are still in flight.` :
+      `Circuit for ${key} is open. Requests will be allowed through in ${retryAfterMillis}ms.`);
+    this.name = 'CircuitOpenError';
+    this.key = key;
+    this.retryAfterMillis = retryAfterMillis;
+  }
+
+}
+
+export type RequestTimeoutType = 'attempt' | 'deadline';
+
+/**
+ * This error is thrown when a request times out, either because a single attempt exceeded
+ * `attemptTimeoutMillis` or because the request as a whole exceeded `deadlineMillis`.
+ */
+export class RequestTimeoutError extends Error {
+
+  /**
+   * Whether the timeout applied to a single attempt or to the request as a whole.
+   */
+  timeoutType: RequestTimeoutType;
+  timeoutMillis: number;
+
+  constructor(timeoutType: RequestTimeoutType, timeoutMillis: number) {
+    super(timeoutType === 'attempt' ?
+      `Request attempt timed out after ${timeoutMillis}ms.` :
+      `Request deadline of ${timeoutMillis}ms was exceeded.`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutType = timeoutType;
+    this.timeoutMillis = timeoutMillis;
+  }
+
+}
+
+/**
+ * This error is thrown when the caller aborts a request through the `signal` of its options,
+ * including while the request is waiting to be retried.
+ */
+export class RequestAbortedError extends Error {
+
+  /**
+   * The reason the signal was aborted with.
+   */
+  reason: any;
+
+  constructor(reason: any) {
+    super('Request was aborted.');
+    this.name = 'RequestAbortedError';
+    this.reason = reason;
+  }
+
+}
+
+/**
+ * This error is thrown when a request needs to be retried, but its body can not be sent again. This
+ * happens when the body is a stream that exceeded `maxBufferedBodyBytes` or when the body of a
+ * `Request` object has already been consumed.
+ */
+export class RequestBodyNotReplayableError extends Error {
+
+  /**
+   * The response that would otherwise have been retried, if the retry was due to a response.
+   */
+  response: undefined | Response;
+  /**
+   * The error that would otherwise have been retried, if the retry was due to an error.
+   */
+  cause: any;
+
+  constructor(message: string, response?: Response, cause?: any) {
+    super(message);
+    this.name = 'RequestBodyNotReplayableError';
+    this.response = response;
+    this.cause = cause;
+  }
+
+}
+
+/**
+ * This error is thrown when `throwOnRetriesExhausted` is enabled and a request still needed
+ * retrying after its retries ran out or its deadline left no time for another retry.
+ */
+export class RetriesExhaustedError extends Error {
+
+  /**
+   * The history of every attempt of the request.
+   */
+  attempts: AttemptRecord[];
+  /**
+   * The final response, if the final attempt received a response.
+   */
+  response: undefined | Response;
+  /**
+   * The error the final attempt failed with, if the final attempt failed with an error.
+   */
+  cause: any;
+
+  constructor(attempts: AttemptRecord[], response?: Response, cause?: any) {
+    super(response ?
+      `Retries exhausted after ${attempts.length} attempts. The final response status was ${response.status}.` :
+      `Retries exhausted after ${attempts.length} attempts. The final attempt failed with "${cause && cause.message}".`);
+    this.name = 'RetriesExhaustedError';
+    this.attempts = attempts;
+    this.response = response;
+    this.cause = cause;
+  }
+
+}
+
+/**
+ * This error is thrown by `ScriptedMockFetchController` when a request does not match any scripted
+ * response so that tests fail loudly rather than the request going to the network.
+ */
+export class UnmatchedMockRequestError extends Error {
+
+  method: string;
+  url: string;
+
+  constructor(method: string, url: string, scriptDescriptions: string[]) {
+    super(`No scripted response matches ${method} ${url}. ` +
+      (scriptDescriptions.length ? `Scripts: ${scriptDescriptions.join('; ')}.` : 'No responses are scripted.'));
+    this.name = 'UnmatchedMockRequestError';
+    this.method = method;
+    this.url = url;
+  }
+
+}
+
+/**
+ * This error is thrown by `ReplayingFetch` when a request does not match the cassette being
+ * replayed.
+ */
+export class UnmatchedCassetteRequestError extends Error {
+
+  method: string;
+  url: string;
+
+  constructor(method: string, url: string, reason: string) {
+    super(`No recorded response matches ${method} ${url}: ${reason}`);
+    this.name = 'UnmatchedCassetteRequestError';
+    this.method = method;
+    this.url = url;
+  }
+
+}
+
+/**
+ * This error is thrown when the lock of a shared rate limit state store can not be acquired in
+ * time, e.g. because another process holds it for too long.
+ */
+export class StateStoreLockTimeoutError extends Error {
+
+  lockPath: string;
+  timeoutMillis: number;
+
+  constructor(lockPath: string, timeoutMillis: number) {
+    super(`Unable to acquire the lock ${lockPath} within ${timeoutMillis}ms.`);
+    this.name = 'StateStoreLockTimeoutError';
+    this.lockPath = lockPath;
+    this.timeoutMillis = timeoutMillis;
+  }
+
+}
+
+/**
+ * This error is thrown by `paginate` when a page is answered with an unsuccessful status, e.g.
+ * once its retries are exhausted, since the remaining pages can not be found without it.
+ */
+export class PaginationFailedError extends Error {
+
+  url: string;
+  response: Response;
+
+  constructor(url: string, response: Response) {
+    super(`Fetching the page ${url} failed with status ${response.status}.`);
+    this.name = 'PaginationFailedError';
+    this.url = url;
+    this.response = response;
+  }
+
+}
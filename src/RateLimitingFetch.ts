@@ -1,12 +1,94 @@
 import { FetchInterface, NodeFetch } from './FetchInterface';
-import { minJitterMultiplier } from './RateLimitingConstants';
 import {
+  defaultCooldownReleaseIntervalMillis,
+  defaultMaxBufferedBodyBytes,
+  defaultMaxCacheSizeBytes,
+  minJitterMultiplier,
+  notModifiedStatusCode,
+  serviceUnavailableStatusCode,
+  tooManyRequestsStatusCode
+} from './RateLimitingConstants';
+import {
+  FetchStatsContext,
   RateLimitingFetchStatsRecorder,
   NoopRateLimitingFetchStatsRecorder
 } from './RateLimitingFetchStats';
-import { RateLimitingHandlingOptions } from './RateLimitingHandlingOptions';
+import {
+  BackoffAlgorithm,
+  BackoffStrategyOptions,
+  CircuitBreakerOptions,
+  ConcurrencyOptions,
+  CooldownOptions,
+  RateLimitingHandlingOptions,
+  RateLimitingRequestOptions,
+  RetryBudgetOptions,
+  RetryPolicy,
+  RetryPolicyOptions,
+  ThrottlingOptions
+} from './RateLimitingHandlingOptions';
 import { DefaultRetryDetector, RetryDetector } from './RetryDetector';
 import { RetryInfo } from './RetryInfo';
+import { buildThrottler, Throttler } from './Throttler';
+import { parseRateLimitQuota, RateLimitQuota } from './RateLimitHeaders';
+import { applyAdvertisedQuota, RateLimitQuotaTracker, reservePacedSend } from './RateLimitQuotaTracker';
+import { RateLimitStateStore } from './RateLimitStateStore';
+import { InMemoryResponseCacheStore, ResponseCache, ResponseCacheStore } from './ResponseCache';
+import { RequestCoalescer } from './RequestCoalescer';
+import { BulkFetchOptions, BulkFetchRequest, BulkFetchResult, fetchAll } from './BulkFetch';
+import { paginate, PaginationOptions } from './Paginator';
+import { getPartitionedKey, getRequestMethod, getRequestOrigin, getRequestUrl, originRequestKeyExtractor } from './RequestUtils';
+import { CircuitBreaker, CircuitPermit, CircuitState, DefaultCircuitBreaker } from './CircuitBreaker';
+import {
+  CircuitOpenError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  RequestBodyNotReplayableError,
+  RequestTimeoutType,
+  RetriesExhaustedError
+} from './RateLimitingErrors';
+import { AttemptRecord, extractHeadersOfInterest } from './AttemptHistory';
+import { prepareReplayableRequest, ReplayableRequest, RequestAttempt } from './ReplayableRequest';
+import {
+  RateLimitingFetchEventName,
+  RateLimitingFetchHooks,
+  RateLimitingFetchListener
+} from './RateLimitingFetchHooks';
+import { isAbortError } from './NetworkErrors';
+import { onResponseBodyReleased } from './ResponseUtils';
+import { ConsoleLogger, LogFields, Logger } from './Logger';
+import { buildRetryBudget, RetryBudget } from './RetryBudget';
+import { CooldownCoordinator, isRateLimitedResponse, parseCooldownMillis } from './CooldownCoordinator';
+import { RetryPolicyRegistry } from './RetryPolicyRegistry';
+import { Clock, SystemClock } from './Clock';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+import { MathRandom, Random } from './Random';
+import { ConcurrencyOutcome, ConcurrencyPermit, ConcurrencyScheduler, RequestScheduler } from './ConcurrencyScheduler';
+
+/**
+ * The state of a single call to `fetch` that is carried across its attempts.
+ */
+interface FetchContext {
+  url: RequestInfo
+  init: undefined | RequestInit
+  options: RateLimitingHandlingOptions
+  signal: undefined | AbortSignal
+  deadlineTime: undefined | number
+  replayableRequest: ReplayableRequest
+  attempts: AttemptRecord[]
+  statsContext: FetchStatsContext
+  priority: number
+  cost: number
+  partitionKey: undefined | string
+}
+
+/**
+ * The optional methods through which components accept the time sources of `RateLimitingFetch`.
+ */
+interface TimeSourceConsumer {
+  setClock?: (clock: Clock) => void
+  setSleeper?: (sleeper: Sleeper) => void
+  setRandom?: (random: Random) => void
+}
 
 /**
  * This class provides a fetch implementation that handles rate limiting.
@@ -16,12 +98,53 @@ export class RateLimitingFetch {
   fetchImplementation: FetchInterface = new NodeFetch();
   options: RateLimitingHandlingOptions;
   debugEnabled: boolean = false;
+  logger: Logger = new ConsoleLogger();
+  clock: Clock = new SystemClock();
+  sleeper: Sleeper = new TimeoutSleeper();
+  random: Random = new MathRandom();
   statsRecorder: RateLimitingFetchStatsRecorder = new NoopRateLimitingFetchStatsRecorder();
   retryDetector: RetryDetector = new DefaultRetryDetector();
+  throttler: Throttler;
+  quotaTracker: undefined | RateLimitQuotaTracker = undefined;
+  circuitBreaker: undefined | CircuitBreaker = undefined;
+  retryBudget: RetryBudget;
+  cooldownCoordinator: undefined | CooldownCoordinator = undefined;
+  requestScheduler: undefined | RequestScheduler = undefined;
+  stateStore: undefined | RateLimitStateStore = undefined;
+  responseCache: undefined | ResponseCache = undefined;
+  requestCoalescer: undefined | RequestCoalescer = undefined;
+  policyRegistry: RetryPolicyRegistry;
+  hooks: RateLimitingFetchHooks = new RateLimitingFetchHooks();
+  private attemptHistories = new WeakMap<Response, AttemptRecord[]>();
 
   constructor(options: RateLimitingHandlingOptions) {
     this.options = options;
     this._validateOptions(options);
+    this.throttler = buildThrottler(options.throttling);
+    this.retryBudget = buildRetryBudget(options.retryBudget);
+    this.policyRegistry = new RetryPolicyRegistry(options.policies);
+    if (options.quotaPacing) {
+      this.quotaTracker = new RateLimitQuotaTracker(options.quotaPacing.reserveFraction);
+    }
+    if (options.cooldown) {
+      this.cooldownCoordinator = new CooldownCoordinator(
+        options.cooldown.releaseIntervalMillis ?? defaultCooldownReleaseIntervalMillis);
+    }
+    if (options.circuitBreaker) {
+      this.setCircuitBreaker(new DefaultCircuitBreaker(options.circuitBreaker));
+    }
+    if (options.concurrency) {
+      this.setRequestScheduler(new ConcurrencyScheduler(options.concurrency));
+    }
+    if (options.caching) {
+      if (options.caching.coalesceRequests ?? true) {
+        this.requestCoalescer = new RequestCoalescer();
+      }
+      if (options.caching.cacheResponses ?? true) {
+        this.responseCache = new ResponseCache(new InMemoryResponseCacheStore(
+          options.caching.maxCacheSizeBytes ?? defaultMaxCacheSizeBytes), options.caching.maxEntryBytes);
+      }
+    }
   }
 
   /**
@@ -37,14 +160,23 @@ export class RateLimitingFetch {
    */
   public setFetchImplementation = (fetchImplementation: FetchInterface): void => {
     this.fetchImplementation = fetchImplementation;
+    if (fetchImplementation.setLogger) {
+      fetchImplementation.setLogger(this.logger);
+    }
+    this._applyTimeSources(fetchImplementation);
   }
 
   /**
-   * This method allows an implementation of `RateLimitingFetchStatsRecorder` to be injected.
+   * This method allows an implementation of `RateLimitingFetchStatsRecorder` to be injected. The
+   * logger and clock are passed to the recorder if it accepts them.
    * @param statsRecorder the implementation of `RateLimitingFetchStatsRecorder` to be injected.
    */
   public setRateLimitingFetchStatsRecorder = (statsRecorder: RateLimitingFetchStatsRecorder): void => {
     this.statsRecorder = statsRecorder;
+    if (statsRecorder.setLogger) {
+      statsRecorder.setLogger(this.logger);
+    }
+    this._applyTimeSources(statsRecorder);
   }
 
   /**
@@ -53,11 +185,194 @@ export class RateLimitingFetch {
    */
   public setRetryDetector = (retryDetector: RetryDetector): void => {
     this.retryDetector = retryDetector;
+    if (retryDetector.setLogger) {
+      retryDetector.setLogger(this.logger);
+    }
+    this._applyTimeSources(retryDetector);
+  }
+
+  /**
+   * This method allows an implementation of `Clock` to be injected. The clock is also passed to the
+   * components of this instance that accept one, such as the throttler, circuit breaker and fetch
+   * implementation. Together with `setSleeper`, this allows virtual time to be used in tests.
+   * @param clock the implementation of `Clock` to be injected.
+   */
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+    this._forEachTimeSourceConsumer(consumer => consumer.setClock && consumer.setClock(clock));
+  }
+
+  /**
+   * This method allows an implementation of `Sleeper` to be injected. The sleeper is used for retry
+   * delays, throttling, cooldowns and timeouts, and is also passed to the components of this
+   * instance that accept one.
+   * @param sleeper the implementation of `Sleeper` to be injected.
+   */
+  public setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+    this._forEachTimeSourceConsumer(consumer => consumer.setSleeper && consumer.setSleeper(sleeper));
+  }
+
+  /**
+   * This method allows an implementation of `Random` to be injected such that jitter is
+   * deterministic. The source of randomness is passed to the components of this instance that
+   * accept one, such as the retry detector.
+   * @param random the implementation of `Random` to be injected.
+   */
+  public setRandom = (random: Random): void => {
+    this.random = random;
+    this._forEachTimeSourceConsumer(consumer => consumer.setRandom && consumer.setRandom(random));
+  }
+
+  /**
+   * This method allows an implementation of `Logger` to be injected. The logger is also passed to
+   * the lifecycle hooks, and to the fetch implementation, retry detector and stats recorder if they
+   * accept one. By default, messages are logged to the console.
+   * @param logger the implementation of `Logger` to be injected.
+   */
+  public setLogger = (logger: Logger): void => {
+    this.logger = logger;
+    this._applyTimeSources(logger);
+    this.hooks.setLogger(logger);
+    if (this.fetchImplementation.setLogger) {
+      this.fetchImplementation.setLogger(logger);
+    }
+    if (this.statsRecorder.setLogger) {
+      this.statsRecorder.setLogger(logger);
+    }
+    if (this.retryDetector.setLogger) {
+      this.retryDetector.setLogger(logger);
+    }
+  }
+
+  /**
+   * This method allows an implementation of `Throttler` to be injected. By default, the throttler is
+   * built from the `throttling` options.
+   * @param throttler the implementation of `Throttler` to be injected.
+   */
+  public setThrottler = (throttler: Throttler): void => {
+    this.throttler = throttler;
+    this._applyTimeSources(throttler);
+    if (this.stateStore && throttler.setRateLimitStateStore) {
+      throttler.setRateLimitStateStore(this.stateStore);
+    }
+  }
+
+  /**
+   * This method allows a `RateLimitStateStore` to be injected such that cooldowns, quota snapshots
+   * and token buckets are shared with the other `RateLimitingFetch` instances using the same store,
+   * including instances in other processes when the store supports it. By default, each instance
+   * keeps its own state.
+   * @param stateStore the implementation of `RateLimitStateStore` to be injected.
+   */
+  public setRateLimitStateStore = (stateStore: RateLimitStateStore): void => {
+    this.stateStore = stateStore;
+    this._applyTimeSources(stateStore);
+    if (this.throttler.setRateLimitStateStore) {
+      this.throttler.setRateLimitStateStore(stateStore);
+    }
+  }
+
+  /**
+   * This method allows an implementation of `RetryBudget` to be injected. By default, the retry
+   * budget is built from the `retryBudget` options. Injecting the same instance into several
+   * `RateLimitingFetch` instances shares the budget between them.
+   * @param retryBudget the implementation of `RetryBudget` to be injected.
+   */
+  public setRetryBudget = (retryBudget: RetryBudget): void => {
+    this.retryBudget = retryBudget;
+    this._applyTimeSources(retryBudget);
+  }
+
+  /**
+   * This method allows an implementation of `CircuitBreaker` to be injected. By default, a circuit
+   * breaker is only used if the `circuitBreaker` options are specified. State changes of the
+   * circuit breaker are reported to the stats recorder.
+   * @param circuitBreaker the implementation of `CircuitBreaker` to be injected.
+   */
+  public setCircuitBreaker = (circuitBreaker: CircuitBreaker): void => {
+    if (this.circuitBreaker) {
+      this.circuitBreaker.removeStateChangeListener(this._onCircuitStateChange);
+    }
+    this.circuitBreaker = circuitBreaker;
+    circuitBreaker.addStateChangeListener(this._onCircuitStateChange);
+    this._applyTimeSources(circuitBreaker);
+  }
+
+  /**
+   * This method adds a policy which applies different retry options to the requests it matches.
+   * Policies are matched in the order they were added and only the first matching policy applies.
+   * @param policy the policy to add.
+   * @throws Error if the policy is invalid.
+   */
+  public addPolicy = (policy: RetryPolicy): void => {
+    this._validateRetryPolicy(policy, `policies[${this.policyRegistry.getPolicyCount()}].`);
+    this.policyRegistry.addPolicy(policy);
+  }
+
+  /**
+   * This method allows an implementation of `RequestScheduler` to be injected. By default, a
+   * scheduler is only used if the `concurrency` options are specified. Queue depth changes of the
+   * scheduler are reported to the stats recorder.
+   * @param requestScheduler the implementation of `RequestScheduler` to be injected.
+   */
+  public setRequestScheduler = (requestScheduler: RequestScheduler): void => {
+    if (this.requestScheduler) {
+      this.requestScheduler.removeQueueDepthListener(this._onQueueDepthChange);
+    }
+    this.requestScheduler = requestScheduler;
+    requestScheduler.addQueueDepthListener(this._onQueueDepthChange);
+    this._applyTimeSources(requestScheduler);
+  }
+
+  /**
+   * This method allows an implementation of `ResponseCacheStore` to be injected, e.g. to share
+   * cached responses between instances. Injecting a store enables the HTTP cache even if the
+   * `caching` options are not specified.
+   * @param responseCacheStore the implementation of `ResponseCacheStore` to be injected.
+   */
+  public setResponseCacheStore = (responseCacheStore: ResponseCacheStore): void => {
+    if (this.responseCache) {
+      this.responseCache.setStore(responseCacheStore);
+    } else {
+      this.responseCache = new ResponseCache(responseCacheStore, this.options.caching?.maxEntryBytes);
+    }
   }
 
   /**
-   * This method controls whether to log debug to the console.
-   * @param debugEnabled if `true`, debug will be logged to the console, otherwise it will not be logged.
+   * This method adds a listener for a lifecycle event such as `beforeAttempt` or `retryScheduled`.
+   * Listeners of `beforeAttempt` may modify the headers of the attempt.
+   * @param eventName the name of the event to listen to.
+   * @param listener the listener to add.
+   */
+  public on = <K extends RateLimitingFetchEventName>(eventName: K, listener: RateLimitingFetchListener<K>): void => {
+    this.hooks.on(eventName, listener);
+  }
+
+  /**
+   * This method removes a listener previously added by calling `on`.
+   * @param eventName the name of the event the listener was added for.
+   * @param listener the listener to remove.
+   */
+  public off = <K extends RateLimitingFetchEventName>(eventName: K, listener: RateLimitingFetchListener<K>): void => {
+    this.hooks.off(eventName, listener);
+  }
+
+  /**
+   * This method returns the history of the attempts made to obtain a response returned by `fetch`.
+   * @param response a response returned by `fetch`.
+   * @returns the attempts in the order they were made or undefined if the response was not returned
+   * by this instance.
+   */
+  public getAttemptHistory = (response: Response): undefined | AttemptRecord[] => {
+    return this.attemptHistories.get(response);
+  }
+
+  /**
+   * This method controls whether to log debug messages describing each attempt, throttle, retry and
+   * circuit state change. The default logger only writes messages at `info` and above, so debug
+   * messages are only written once a logger such as `new ConsoleLogger('debug')` has been set.
+   * @param debugEnabled if `true`, debug will be logged via the logger, otherwise it will not be logged.
    */
   public setDebugEnabled = (debugEnabled: boolean): void => {
     this.debugEnabled = debugEnabled;
@@ -66,46 +381,903 @@ export class RateLimitingFetch {
   /**
    * Call this method to perform the actual fetch. The method has the same signature and semantics of the 
    * standard fetch method as documented in https://developer.mozilla.org/en-US/docs/Web/API/Fetch_API. 
+   * Options that only apply to this request, such as its priority, can be passed in `requestOptions`.
+   */
+  public fetch = async (url: RequestInfo, init?: RequestInit, requestOptions?: RateLimitingRequestOptions): Promise<Response> => {
+    const method = getRequestMethod(url, init);
+    if (method !== 'GET') {
+      const response = await this._fetchUncached(url, init, requestOptions);
+      if (this.responseCache && !['HEAD', 'OPTIONS', 'TRACE'].includes(method) && response.status < 400) {
+        // A successful unsafe request may change the resource, so its cached response is stale...
+        await this.responseCache.invalidate(getRequestUrl(url));
+      }
+      return response;
+    }
+    if (this.requestCoalescer && typeof url === 'string' && !init?.signal && !requestOptions?.overrides) {
+      const statsContext = this._buildStatsContext(url, init, requestOptions);
+      const { response, sharedResponse } = await this.requestCoalescer.coalesce(
+        this._getCoalescingKey(url, init, requestOptions),
+        () => this._fetchThroughCache(url, init, requestOptions),
+        () => {
+          if (this.statsRecorder.logCoalescedRequest) {
+            this.statsRecorder.logCoalescedRequest(statsContext);
+          }
+        });
+      this._copyAttemptHistory(sharedResponse, response);
+      return response;
+    }
+    return await this._fetchThroughCache(url, init, requestOptions);
+  }
+
+  /**
+   * Call this method to send a batch of requests with bounded concurrency. The requests are sent
+   * through `fetch` and therefore share the retry, throttling and cooldown state of this instance, so
+   * a rate limited request slows down the whole batch.
+   * @param requests the URLs or requests of the batch.
+   * @param options the concurrency, progress callback and cancellation signal of the batch.
+   * @returns the result of each request in the order of `requests`. Failed requests are rejected
+   * results rather than failing the batch.
    */
-  public fetch = async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
+  public fetchAll = (requests: Iterable<string | BulkFetchRequest>, options?: BulkFetchOptions): Promise<BulkFetchResult[]> => {
+    return fetchAll(this.fetch, requests, options);
+  }
+
+  /**
+   * Call this method to walk the pages of a collection with `for await`. The pages are sent through
+   * `fetch` and therefore share the retry, throttling and cooldown state of this instance.
+   * @param url the URL of the first page.
+   * @param options how the next page is found, which defaults to following `Link: rel="next"` headers.
+   * @returns an async iterator of the response of each page.
+   */
+  public paginate = (url: string, options?: PaginationOptions): AsyncGenerator<Response, void, undefined> => {
+    return paginate(this.fetch, url, options);
+  }
+
+  private _fetchThroughCache = async (url: RequestInfo, init?: RequestInit, requestOptions?: RateLimitingRequestOptions): Promise<Response> => {
+    const requestHeaders = new Headers(init?.headers ?? (typeof url === 'string' ? undefined : url.headers));
+    if (!this.responseCache || !this.responseCache.isCacheableRequest(requestHeaders, init)) {
+      return await this._fetchUncached(url, init, requestOptions);
+    }
+    const key = getRequestUrl(url);
+    const statsContext = this._buildStatsContext(url, init, requestOptions);
+    const lookup = await this.responseCache.lookup(key, requestHeaders, this.clock.now(), init);
+    if (lookup.cachedResponse && lookup.fresh) {
+      if (this.statsRecorder.logCacheHit) {
+        this.statsRecorder.logCacheHit(statsContext, false);
+      }
+      return this.responseCache.toResponse(lookup.cachedResponse, this.clock.now());
+    }
+    let attemptInit = init;
+    if (lookup.cachedResponse) {
+      const conditionalHeaders = new Headers(requestHeaders);
+      if (this.responseCache.addConditionalHeaders(lookup.cachedResponse, conditionalHeaders)) {
+        attemptInit = { ...init, headers: conditionalHeaders };
+      }
+    }
+    const response = await this._fetchUncached(url, attemptInit, requestOptions);
+    if (response.status === notModifiedStatusCode && attemptInit !== init) {
+      const refreshedResponse = await this.responseCache.refresh(key, lookup.cachedResponse, response, this.clock.now());
+      if (this.statsRecorder.logCacheHit) {
+        this.statsRecorder.logCacheHit(statsContext, true);
+      }
+      const cachedResponse = this.responseCache.toResponse(refreshedResponse, this.clock.now());
+      this._copyAttemptHistory(response, cachedResponse);
+      return cachedResponse;
+    }
+    const storedResponse = this.responseCache.store(key, requestHeaders, response, this.clock.now());
+    this._copyAttemptHistory(response, storedResponse);
+    return storedResponse;
+  }
+
+  private _fetchUncached = async (url: RequestInfo, init?: RequestInit, requestOptions?: RateLimitingRequestOptions): Promise<Response> => {
+    if (requestOptions?.overrides) {
+      this._validateRetryPolicyOptions(requestOptions.overrides, 'overrides.');
+    }
+    const cost = requestOptions?.cost ?? (this.options.costExtractor ? this.options.costExtractor(url, init) : 1);
+    if (!(cost >= 0)) {
+      throw new Error(`Invalid RateLimitFetch options: cost is ${cost}, but it must be >= 0`);
+    }
+    const options = this.policyRegistry.resolveOptions(this.options, url, init, requestOptions?.overrides);
+    const context: FetchContext = {
+      url: url,
+      init: init,
+      options: options,
+      signal: init?.signal ?? (typeof url === 'string' ? undefined : url.signal),
+      deadlineTime: options.deadlineMillis === undefined ? undefined : this.clock.now() + options.deadlineMillis,
+      replayableRequest: await prepareReplayableRequest(
+        url, init, this.options.maxBufferedBodyBytes ?? defaultMaxBufferedBodyBytes),
+      attempts: [],
+      statsContext: this._buildStatsContext(url, init, requestOptions),
+      priority: requestOptions?.priority ?? 0,
+      cost: cost,
+      partitionKey: this._getPartitionKey(url, init, requestOptions)
+    }
     const lastRetryInfo: RetryInfo = {
-      remainingRetries: this.options.maxRetries,
+      remainingRetries: options.maxRetries,
       retryDelayMillis: 0
     }
-    return await this._fetch(lastRetryInfo, url, init);
+    return await this._fetch(lastRetryInfo, context);
+  }
+
+  private _fetch = async (lastRetryInfo: RetryInfo, context: FetchContext): Promise<Response> => {
+    this._checkNotAbortedOrExpired(context);
+    const circuitKey = this._getCircuitKey(context.url, context.init);
+    let circuitPermit: undefined | CircuitPermit = undefined;
+    if (circuitKey !== undefined) {
+      try {
+        circuitPermit = this.circuitBreaker.acquirePermission(circuitKey);
+      } catch (error) {
+        if (error instanceof CircuitOpenError) {
+          if (this.statsRecorder.logCircuitRejection) {
+            this.statsRecorder.logCircuitRejection(circuitKey);
+          }
+        }
+        throw error;
+      }
+    }
+    try {
+      return await this._fetchWithinCircuit(lastRetryInfo, context, circuitKey, circuitPermit);
+    } finally {
+      // The permit is also released if the request ends before its outcome is recorded, e.g. when it
+      // is aborted while waiting to be sent, such that a half-open circuit does not run out of probes...
+      this._releaseCircuitPermit(circuitPermit);
+    }
   }
 
-  private _fetch = async (lastRetryInfo: RetryInfo, url: RequestInfo, init?: RequestInit): Promise<Response> => {
-    this.statsRecorder.logFetchAttempt();
-    const response = await this.fetchImplementation.fetch(url, init);
+  private _fetchWithinCircuit = async (
+      lastRetryInfo: RetryInfo,
+      context: FetchContext,
+      circuitKey: undefined | string,
+      circuitPermit: undefined | CircuitPermit): Promise<Response> => {
+    const { url, init } = context;
+    const attemptNumber = context.attempts.length + 1;
+    const cooldownKey = this._getCooldownKey(url, init, context.partitionKey);
+    if (cooldownKey !== undefined) {
+      await this._loadSharedCooldown(cooldownKey);
+      const cooldownDelayMillis = await this._waitWithinDeadline(context, (signal: AbortSignal) =>
+        this.cooldownCoordinator.waitForRelease(cooldownKey, (millis: number) => this.sleeper.sleep(millis, signal)));
+      if (cooldownDelayMillis > 0) {
+        this._debug('Request held back by cooldown', context, attemptNumber, { delayMillis: cooldownDelayMillis, reason: 'cooldown' });
+        if (this.statsRecorder.logThrottle) {
+          this.statsRecorder.logThrottle(cooldownDelayMillis, context.statsContext);
+        }
+        await this.hooks.emit('throttled', { url, init, attemptNumber, throttleDelayMillis: cooldownDelayMillis, reason: 'cooldown' });
+      }
+    }
+    const throttleDelayMillis = await this._waitWithinDeadline(context, (signal: AbortSignal) =>
+      this.throttler.throttle(url, init, context.cost, context.partitionKey, signal));
+    if (throttleDelayMillis > 0) {
+      this._debug('Request throttled', context, attemptNumber, { delayMillis: throttleDelayMillis, reason: 'throttling' });
+      if (this.statsRecorder.logThrottle) {
+        this.statsRecorder.logThrottle(throttleDelayMillis, context.statsContext);
+      }
+      await this.hooks.emit('throttled', { url, init, attemptNumber, throttleDelayMillis, reason: 'throttling' });
+    }
+    const quotaKey = this._getQuotaKey(url, init, context.partitionKey);
+    if (quotaKey !== undefined) {
+      const pacingDelayMillis = await this._computePacingDelayMillis(quotaKey, context.cost);
+      if (pacingDelayMillis > 0) {
+        this._debug('Request throttled', context, attemptNumber, { delayMillis: pacingDelayMillis, reason: 'quotaPacing' });
+        await this._waitWithinDeadline(context, (signal: AbortSignal) => this.sleeper.sleep(pacingDelayMillis, signal));
+        if (this.statsRecorder.logThrottle) {
+          this.statsRecorder.logThrottle(pacingDelayMillis, context.statsContext);
+        }
+        await this.hooks.emit('throttled', { url, init, attemptNumber, throttleDelayMillis: pacingDelayMillis, reason: 'quotaPacing' });
+      }
+    }
+    if (attemptNumber === 1) {
+      this.retryBudget.recordRequest(context.partitionKey);
+    }
+    // The attempt is only recorded once it has been granted a permit, such that requests that are
+    // aborted or expire while queued by the concurrency limit are not counted as attempts...
+    const permit = await this._acquireConcurrencyPermit(context, attemptNumber);
+    this.statsRecorder.logFetchAttempt(context.statsContext);
+    const attempt = context.replayableRequest.nextAttempt();
+    if (this.hooks.hasListeners('beforeAttempt')) {
+      const headers = new Headers(attempt.init?.headers ?? (typeof attempt.url === 'string' ? undefined : attempt.url.headers));
+      await this.hooks.emit('beforeAttempt', { url, init, attemptNumber, headers });
+      attempt.init = {
+        ...attempt.init,
+        headers: headers
+      };
+    }
+    const attemptRecord: AttemptRecord = {
+      attemptNumber: attemptNumber,
+      startTime: this.clock.now(),
+      endTime: 0,
+      headers: {}
+    };
+    context.attempts.push(attemptRecord);
+    this._debug('Sending attempt', context, attemptNumber);
+    let response: Response;
+    try {
+      response = await this._fetchAttempt(context, attempt);
+    } catch (error) {
+      this._releaseConcurrencyPermit(permit, 'failure');
+      attemptRecord.endTime = this.clock.now();
+      attemptRecord.error = error;
+      this._debug('Attempt failed', context, attemptNumber, { error: error });
+      if (this.statsRecorder.logAttemptCompleted) {
+        this.statsRecorder.logAttemptCompleted(context.statsContext, undefined, attemptRecord.endTime - attemptRecord.startTime);
+      }
+      await this.hooks.emit('error', { url, init, attemptNumber, error, durationMillis: attemptRecord.endTime - attemptRecord.startTime });
+      if (context.signal && context.signal.aborted) {
+        throw new RequestAbortedError(context.signal.reason);
+      }
+      if (circuitKey !== undefined && !isAbortError(error)) {
+        this.circuitBreaker.recordFailure(circuitKey);
+      }
+      this._releaseCircuitPermit(circuitPermit);
+      const errorRetryInfo = this._computeErrorRetryInfo(lastRetryInfo.remainingRetries, lastRetryInfo, error, context);
+      if (errorRetryInfo && this._isRetryWithinDeadline(errorRetryInfo, context)) {
+        if (!context.replayableRequest.isReplayable()) {
+          throw new RequestBodyNotReplayableError(
+            `Unable to retry after error "${error.message}" since the request body can not be sent again.`, undefined, error);
+        }
+        if (this._tryWithdrawRetry(context, attemptNumber)) {
+          attemptRecord.retryDelayMillis = errorRetryInfo.retryDelayMillis;
+          this._debug('Retry scheduled', context, attemptNumber, { delayMillis: errorRetryInfo.retryDelayMillis, error: error });
+          await this.hooks.emit('retryScheduled', {
+            url, init, attemptNumber, response: undefined, error,
+            retryDelayMillis: errorRetryInfo.retryDelayMillis,
+            remainingRetries: errorRetryInfo.remainingRetries
+          });
+          return await this._retry(errorRetryInfo, context);
+        }
+      }
+      const retriesExhausted = errorRetryInfo !== undefined ||
+        (lastRetryInfo.remainingRetries === 0 && this._isRetryableError(lastRetryInfo, error, context));
+      if (retriesExhausted) {
+        this._debug('Retries exhausted', context, attemptNumber, { error: error });
+        if (this.statsRecorder.logRetriesExhausted) {
+          this.statsRecorder.logRetriesExhausted(context.statsContext);
+        }
+        await this.hooks.emit('gaveUp', { url, init, attemptNumber, response: undefined, error, attempts: context.attempts });
+        if (context.options.throwOnRetriesExhausted) {
+          throw new RetriesExhaustedError(context.attempts, undefined, error);
+        }
+      }
+      throw error;
+    }
+    this._releaseConcurrencyPermit(permit, this._getConcurrencyOutcome(response));
+    attemptRecord.endTime = this.clock.now();
+    attemptRecord.status = response.status;
+    attemptRecord.headers = extractHeadersOfInterest(response.headers);
+    this._debug('Response received', context, attemptNumber, { status: response.status });
+    if (this.statsRecorder.logAttemptCompleted) {
+      this.statsRecorder.logAttemptCompleted(context.statsContext, response.status, attemptRecord.endTime - attemptRecord.startTime);
+    }
+    await this.hooks.emit('afterResponse', { url, init, attemptNumber, response, durationMillis: attemptRecord.endTime - attemptRecord.startTime });
+    if (circuitKey !== undefined) {
+      if (this.circuitBreaker.isFailure(response)) {
+        this.circuitBreaker.recordFailure(circuitKey);
+      } else {
+        this.circuitBreaker.recordSuccess(circuitKey);
+      }
+    }
+    this._releaseCircuitPermit(circuitPermit);
+    if (quotaKey !== undefined) {
+      const now = this.clock.now();
+      const quota = parseRateLimitQuota(response.headers, now);
+      if (quota) {
+        await this._recordQuota(quotaKey, quota, now);
+      }
+    }
+    if (cooldownKey !== undefined && isRateLimitedResponse(response)) {
+      const now = this.clock.now();
+      const cooldownMillis = parseCooldownMillis(response, now) ??
+        this.options.cooldown.defaultCooldownMillis ?? context.options.initialRetryDelayMillis;
+      this._debug('Cooldown started', context, attemptNumber, { status: response.status, delayMillis: cooldownMillis });
+      this.cooldownCoordinator.startCooldown(cooldownKey, cooldownMillis, now);
+      await this._shareCooldown(cooldownKey, now + cooldownMillis);
+    }
     const retryInfo = this.retryDetector.computeRetryInfo(
-      lastRetryInfo.remainingRetries, lastRetryInfo.retryDelayMillis, this.options, response);
-    if (retryInfo) {
-      this._delay(retryInfo.retryDelayMillis);
-      this.statsRecorder.logRetry(retryInfo.retryDelayMillis);
-      return await this._fetch(retryInfo, url, init);
-    } else {
-      return response;
+      lastRetryInfo.remainingRetries, lastRetryInfo.retryDelayMillis, context.options, response);
+    if (retryInfo && this._isRetryWithinDeadline(retryInfo, context)) {
+      if (!context.replayableRequest.isReplayable()) {
+        throw new RequestBodyNotReplayableError(
+          `Unable to retry after ${response.status} response since the request body can not be sent again.`, response);
+      }
+      if (this._tryWithdrawRetry(context, attemptNumber)) {
+        attemptRecord.retryDelayMillis = retryInfo.retryDelayMillis;
+        this._debug('Retry scheduled', context, attemptNumber, { delayMillis: retryInfo.retryDelayMillis, status: response.status });
+        await this.hooks.emit('retryScheduled', {
+          url, init, attemptNumber, response, error: undefined,
+          retryDelayMillis: retryInfo.retryDelayMillis,
+          remainingRetries: retryInfo.remainingRetries
+        });
+        return await this._retry(retryInfo, context);
+      }
+    }
+    this.attemptHistories.set(response, context.attempts);
+    const retriesExhausted = retryInfo !== undefined ||
+      (lastRetryInfo.remainingRetries === 0 && this._isRetryableResponse(lastRetryInfo, response, context));
+    if (retriesExhausted) {
+      this._debug('Retries exhausted', context, attemptNumber, { status: response.status });
+      if (this.statsRecorder.logRetriesExhausted) {
+        this.statsRecorder.logRetriesExhausted(context.statsContext);
+      }
+      await this.hooks.emit('gaveUp', { url, init, attemptNumber, response, error: undefined, attempts: context.attempts });
+      if (context.options.throwOnRetriesExhausted) {
+        throw new RetriesExhaustedError(context.attempts, response);
+      }
+    }
+    return response;
+  }
+
+  private _acquireConcurrencyPermit = async (context: FetchContext, attemptNumber: number): Promise<undefined | ConcurrencyPermit> => {
+    if (!this.requestScheduler) {
+      return undefined;
+    }
+    const keyExtractor = this.options.concurrency?.keyExtractor ?? originRequestKeyExtractor;
+    const key = getPartitionedKey(keyExtractor(context.url, context.init), context.partitionKey);
+    const permit = await this._waitWithinDeadline(context, (signal: AbortSignal) =>
+      this.requestScheduler.acquire(key, context.priority, signal));
+    if (permit.waitMillis > 0) {
+      this._debug('Attempt queued by concurrency limit', context, attemptNumber, { delayMillis: permit.waitMillis, priority: context.priority });
+      if (this.statsRecorder.logQueueWait) {
+        this.statsRecorder.logQueueWait(permit.waitMillis, context.statsContext);
+      }
+    }
+    return permit;
+  }
+
+  private _releaseCircuitPermit = (permit: undefined | CircuitPermit): void => {
+    if (permit) {
+      permit.release();
+    }
+  }
+
+  /**
+   * By default, every 503 response counts as rate limited, whether or not it has a `Retry-After`
+   * header, since an overloaded upstream needs fewer attempts in flight either way.
+   */
+  private _getConcurrencyOutcome = (response: Response): ConcurrencyOutcome => {
+    const rateLimitedStatusCodes = this.options.concurrency?.adaptive?.rateLimitedStatusCodes ??
+      [tooManyRequestsStatusCode, serviceUnavailableStatusCode];
+    if (rateLimitedStatusCodes.includes(response.status)) {
+      return 'rateLimited';
     }
+    return response.status >= 500 ? 'failure' : 'success';
   }
 
-  private _delay = async (millis: number): Promise<void> => {
-    return new Promise((resolve, reject) => {
-      setTimeout(() => {
-        resolve();
-      }, millis);
+  private _releaseConcurrencyPermit = (permit: undefined | ConcurrencyPermit, outcome: ConcurrencyOutcome): void => {
+    if (permit) {
+      permit.release(outcome);
+    }
+  }
+
+  private _computeErrorRetryInfo = (
+      remainingRetries: number,
+      lastRetryInfo: RetryInfo,
+      error: any,
+      context: FetchContext): undefined | RetryInfo => {
+    if (!this.retryDetector.computeErrorRetryInfo) {
+      return undefined;
+    }
+    return this.retryDetector.computeErrorRetryInfo(
+      remainingRetries, lastRetryInfo.retryDelayMillis, context.options, error, context.url, context.init);
+  }
+
+  /**
+   * Determines whether a response would have been retried had a retry remained. Detectors that can
+   * not tell without side effects are asked to compute a retry instead.
+   */
+  private _isRetryableResponse = (lastRetryInfo: RetryInfo, response: Response, context: FetchContext): boolean => {
+    if (this.retryDetector.isRetryableResponse) {
+      return this.retryDetector.isRetryableResponse(context.options, response);
+    }
+    return this.retryDetector.computeRetryInfo(1, lastRetryInfo.retryDelayMillis, context.options, response) !== undefined;
+  }
+
+  /**
+   * The counterpart of `_isRetryableResponse` for attempts that failed with an error.
+   */
+  private _isRetryableError = (lastRetryInfo: RetryInfo, error: any, context: FetchContext): boolean => {
+    if (this.retryDetector.isRetryableError) {
+      return this.retryDetector.isRetryableError(context.options, error, context.url, context.init);
+    }
+    return this._computeErrorRetryInfo(1, lastRetryInfo, error, context) !== undefined;
+  }
+
+  /**
+   * Withdraws a retry from the retry budget. A denied retry is counted and the request gives up
+   * as though its retries had run out.
+   */
+  private _tryWithdrawRetry = (context: FetchContext, attemptNumber: number): boolean => {
+    if (this.retryBudget.tryWithdrawRetry(context.partitionKey)) {
+      return true;
+    }
+    this._debug('Retry denied by retry budget', context, attemptNumber);
+    if (this.statsRecorder.logRetryBudgetDenial) {
+      this.statsRecorder.logRetryBudgetDenial(context.statsContext);
+    }
+    return false;
+  }
+
+  private _retry = async (retryInfo: RetryInfo, context: FetchContext): Promise<Response> => {
+    await this.sleeper.sleep(retryInfo.retryDelayMillis, context.signal);
+    this.statsRecorder.logRetry(retryInfo.retryDelayMillis, context.statsContext);
+    return await this._fetch(retryInfo, context);
+  }
+
+  /**
+   * Performs a single attempt, aborting it if the caller's signal is aborted or if the attempt
+   * timeout or deadline passes. The attempt is raced against these conditions so that fetch
+   * implementations that ignore signals are not waited upon.
+   */
+  private _fetchAttempt = (context: FetchContext, attempt: RequestAttempt): Promise<Response> => {
+    let timeoutType: RequestTimeoutType = 'attempt';
+    let timeoutMillis: undefined | number = context.options.attemptTimeoutMillis;
+    if (context.deadlineTime !== undefined) {
+      const millisUntilDeadline = context.deadlineTime - this.clock.now();
+      if (timeoutMillis === undefined || millisUntilDeadline < timeoutMillis) {
+        timeoutType = 'deadline';
+        timeoutMillis = millisUntilDeadline;
+      }
+    }
+    if (timeoutMillis === undefined && !context.signal) {
+      return this.fetchImplementation.fetch(attempt.url, attempt.init);
+    }
+    return new Promise<Response>((resolve, reject) => {
+      const attemptController = new AbortController();
+      const timeoutController = new AbortController();
+      const clearTimeout = () => timeoutController.abort();
+      const onAbort = () => {
+        clearTimeout();
+        attemptController.abort(context.signal.reason);
+        reject(new RequestAbortedError(context.signal.reason));
+      };
+      if (context.signal) {
+        if (context.signal.aborted) {
+          reject(new RequestAbortedError(context.signal.reason));
+          return;
+        }
+        context.signal.addEventListener('abort', onAbort, { once: true });
+      }
+      if (timeoutMillis !== undefined) {
+        this.sleeper.sleep(Math.max(0, timeoutMillis), timeoutController.signal).then(() => {
+          if (context.signal) {
+            context.signal.removeEventListener('abort', onAbort);
+          }
+          const error = new RequestTimeoutError(
+            timeoutType, timeoutType === 'attempt' ? timeoutMillis : context.options.deadlineMillis);
+          attemptController.abort(error);
+          reject(error);
+        }, () => {
+          // The attempt completed or was aborted before timing out...
+        });
+      }
+      const attemptInit: RequestInit = {
+        ...attempt.init,
+        signal: attemptController.signal
+      };
+      this.fetchImplementation.fetch(attempt.url, attemptInit).then((response) => {
+        clearTimeout();
+        if (!context.signal) {
+          resolve(response);
+          return;
+        }
+        // The listener is kept until the response body has been read so that aborting the caller's
+        // signal also aborts reading the body, but no longer such that long-lived signals do not
+        // collect a listener per request...
+        resolve(onResponseBodyReleased(response, () => context.signal.removeEventListener('abort', onAbort)));
+      }, (error) => {
+        clearTimeout();
+        if (context.signal) {
+          context.signal.removeEventListener('abort', onAbort);
+        }
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Runs a wait, such as for throttling, which ends early if the caller's signal is aborted or the
+   * deadline passes. The wait is given a signal which is aborted in either case.
+   * @throws RequestAbortedError if the caller's signal is aborted during the wait.
+   * @throws RequestTimeoutError if the deadline passes during the wait.
+   */
+  private _waitWithinDeadline = async <T>(context: FetchContext, wait: (signal: undefined | AbortSignal) => Promise<T>): Promise<T> => {
+    if (context.deadlineTime === undefined) {
+      return await wait(context.signal);
+    }
+    this._checkNotAbortedOrExpired(context);
+    const waitController = new AbortController();
+    const deadlineController = new AbortController();
+    const deadlineError = new RequestTimeoutError('deadline', context.options.deadlineMillis);
+    const onAbort = () => waitController.abort(context.signal.reason);
+    if (context.signal) {
+      context.signal.addEventListener('abort', onAbort, { once: true });
+    }
+    this.sleeper.sleep(context.deadlineTime - this.clock.now(), deadlineController.signal).then(() => {
+      waitController.abort(deadlineError);
+    }, () => {
+      // The wait ended before the deadline...
+    });
+    try {
+      return await wait(waitController.signal);
+    } catch (error) {
+      throw waitController.signal.reason === deadlineError ? deadlineError : error;
+    } finally {
+      deadlineController.abort();
+      if (context.signal) {
+        context.signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  private _checkNotAbortedOrExpired = (context: FetchContext): void => {
+    if (context.signal && context.signal.aborted) {
+      throw new RequestAbortedError(context.signal.reason);
+    }
+    if (context.deadlineTime !== undefined && this.clock.now() >= context.deadlineTime) {
+      throw new RequestTimeoutError('deadline', context.options.deadlineMillis);
+    }
+  }
+
+  private _isRetryWithinDeadline = (retryInfo: RetryInfo, context: FetchContext): boolean => {
+    return context.deadlineTime === undefined ||
+      this.clock.now() + retryInfo.retryDelayMillis < context.deadlineTime;
+  }
+
+  private _computePacingDelayMillis = async (quotaKey: string, cost: number): Promise<number> => {
+    const now = this.clock.now();
+    if (!this.stateStore) {
+      return this.quotaTracker.computePacingDelayMillis(quotaKey, now, cost);
+    }
+    let pacingDelayMillis = 0;
+    await this.stateStore.update(quotaKey, (state) => {
+      const snapshot = state?.quota;
+      if (!snapshot) {
+        return state;
+      }
+      if (snapshot.resetTime <= now) {
+        return { ...state, quota: undefined };
+      }
+      pacingDelayMillis = reservePacedSend(snapshot, this.quotaTracker.getReserveFraction(), now, cost);
+      return { ...state, quota: snapshot };
+    });
+    return pacingDelayMillis;
+  }
+
+  private _recordQuota = async (quotaKey: string, quota: RateLimitQuota, now: number): Promise<void> => {
+    if (!this.stateStore) {
+      this.quotaTracker.recordQuota(quotaKey, quota, now);
+      return;
+    }
+    await this.stateStore.update(quotaKey, (state) => ({ ...state, quota: applyAdvertisedQuota(state?.quota, quota, now) }));
+  }
+
+  /**
+   * Starts a local cooldown for any cooldown that other instances sharing the state store started.
+   */
+  private _loadSharedCooldown = async (cooldownKey: string): Promise<void> => {
+    if (!this.stateStore) {
+      return;
+    }
+    const state = await this.stateStore.get(cooldownKey);
+    const now = this.clock.now();
+    if (state?.cooldown && state.cooldown.endTime > now) {
+      this.cooldownCoordinator.startCooldown(cooldownKey, state.cooldown.endTime - now, now);
+    }
+  }
+
+  private _shareCooldown = async (cooldownKey: string, endTime: number): Promise<void> => {
+    if (!this.stateStore) {
+      return;
+    }
+    await this.stateStore.update(cooldownKey, (state) => {
+      if (state?.cooldown && state.cooldown.endTime >= endTime) {
+        return state;
+      }
+      return { ...state, cooldown: { endTime: endTime } };
     });
-  };
+  }
+
+  /**
+   * Identical requests have the same URL, headers, partition, priority and cost. Requests with retry
+   * overrides are never coalesced since their backoff strategies can not be compared.
+   */
+  private _getCoalescingKey = (url: string, init?: RequestInit, requestOptions?: RateLimitingRequestOptions): string => {
+    const headers: [string, string][] = [];
+    new Headers(init?.headers).forEach((value, name) => headers.push([name, value]));
+    headers.sort(([nameA], [nameB]) => nameA < nameB ? -1 : nameA > nameB ? 1 : 0);
+    const partitionKey = this._getPartitionKey(url, init, requestOptions) ?? null;
+    return JSON.stringify([url, headers, partitionKey, requestOptions?.priority ?? 0, requestOptions?.cost ?? 1]);
+  }
+
+  private _copyAttemptHistory = (fromResponse: Response, toResponse: Response): void => {
+    const attempts = this.attemptHistories.get(fromResponse);
+    if (attempts) {
+      this.attemptHistories.set(toResponse, attempts);
+    }
+  }
+
+  private _getPartitionKey = (url: RequestInfo, init?: RequestInit, requestOptions?: RateLimitingRequestOptions): undefined | string => {
+    if (requestOptions?.partitionKey !== undefined) {
+      return requestOptions.partitionKey;
+    }
+    return this.options.partitioning ? this.options.partitioning.keyExtractor(url, init) : undefined;
+  }
+
+  private _buildStatsContext = (url: RequestInfo, init?: RequestInit, requestOptions?: RateLimitingRequestOptions): FetchStatsContext => {
+    const statsContext: FetchStatsContext = {
+      origin: getRequestOrigin(url),
+      method: getRequestMethod(url, init)
+    };
+    const partitionKey = this._getPartitionKey(url, init, requestOptions);
+    if (partitionKey !== undefined) {
+      statsContext.partitionKey = partitionKey;
+    }
+    const policy = this.policyRegistry.findPolicy(url, init);
+    if (policy && policy.name !== undefined) {
+      statsContext.policyName = policy.name;
+    }
+    return statsContext;
+  }
+
+  private _getQuotaKey = (url: RequestInfo, init: undefined | RequestInit, partitionKey: undefined | string): undefined | string => {
+    if (!this.quotaTracker) {
+      return undefined;
+    }
+    const keyExtractor = this.options.quotaPacing.keyExtractor ?? originRequestKeyExtractor;
+    return getPartitionedKey(keyExtractor(url, init), partitionKey);
+  }
+
+  private _getCooldownKey = (url: RequestInfo, init: undefined | RequestInit, partitionKey: undefined | string): undefined | string => {
+    if (!this.cooldownCoordinator) {
+      return undefined;
+    }
+    const keyExtractor = this.options.cooldown?.keyExtractor ?? originRequestKeyExtractor;
+    return getPartitionedKey(keyExtractor(url, init), partitionKey);
+  }
+
+  private _getCircuitKey = (url: RequestInfo, init?: RequestInit): undefined | string => {
+    if (!this.circuitBreaker) {
+      return undefined;
+    }
+    const keyExtractor = this.options.circuitBreaker?.keyExtractor ?? originRequestKeyExtractor;
+    return keyExtractor(url, init);
+  }
+
+  private _onCircuitStateChange = (key: string, fromState: CircuitState, toState: CircuitState): void => {
+    if (this.debugEnabled) {
+      this.logger.debug('Circuit state changed', { key: key, fromState: fromState, toState: toState });
+    }
+    if (this.statsRecorder.logCircuitStateChange) {
+      this.statsRecorder.logCircuitStateChange(key, fromState, toState);
+    }
+  }
+
+  private _onQueueDepthChange = (key: string, queueDepth: number): void => {
+    if (this.statsRecorder.logQueueDepth) {
+      this.statsRecorder.logQueueDepth(key, queueDepth);
+    }
+  }
+
+  private _debug = (message: string, context: FetchContext, attemptNumber: number, fields?: LogFields): void => {
+    if (this.debugEnabled) {
+      this.logger.debug(message, {
+        url: getRequestUrl(context.url),
+        method: context.statsContext.method,
+        attempt: attemptNumber,
+        ...(context.partitionKey === undefined ? {} : { partitionKey: context.partitionKey }),
+        ...(context.statsContext.policyName === undefined ? {} : { policyName: context.statsContext.policyName }),
+        ...fields
+      });
+    }
+  }
+
+  private _applyTimeSources = (consumer: TimeSourceConsumer): void => {
+    if (consumer.setClock) {
+      consumer.setClock(this.clock);
+    }
+    if (consumer.setSleeper) {
+      consumer.setSleeper(this.sleeper);
+    }
+    if (consumer.setRandom) {
+      consumer.setRandom(this.random);
+    }
+  }
+
+  private _forEachTimeSourceConsumer = (callback: (consumer: TimeSourceConsumer) => void): void => {
+    const consumers: TimeSourceConsumer[] = [
+      this.fetchImplementation,
+      this.logger,
+      this.retryDetector,
+      this.statsRecorder,
+      this.throttler,
+      this.retryBudget,
+      this.circuitBreaker,
+      this.requestScheduler,
+      this.cooldownCoordinator,
+      this.stateStore
+    ];
+    consumers.filter(consumer => consumer !== undefined).forEach(callback);
+  }
 
   private _validateOptions = (options: RateLimitingHandlingOptions) => {
+    this._validateRetryPolicyOptions(options, '');
+    if (options.maxBufferedBodyBytes !== undefined && options.maxBufferedBodyBytes < 0) {
+      throw new Error(`Invalid RateLimitFetch options: maxBufferedBodyBytes is ${options.maxBufferedBodyBytes}, but it must be >= 0`);
+    }
+    if (options.policies) {
+      options.policies.forEach((policy, index) => this._validateRetryPolicy(policy, `policies[${index}].`));
+    }
+    if (options.throttling) {
+      this._validateThrottlingOptions(options.throttling);
+    }
+    if (options.circuitBreaker) {
+      this._validateCircuitBreakerOptions(options.circuitBreaker);
+    }
+    if (options.concurrency) {
+      this._validateConcurrencyOptions(options.concurrency);
+    }
+    if (options.cooldown) {
+      this._validateCooldownOptions(options.cooldown);
+    }
+    if (options.retryBudget) {
+      this._validateRetryBudgetOptions(options.retryBudget);
+    }
+    if (options.quotaPacing) {
+      if (options.quotaPacing.reserveFraction < 0 || options.quotaPacing.reserveFraction > 1) {
+        throw new Error(`Invalid RateLimitFetch options: quotaPacing.reserveFraction is ${options.quotaPacing.reserveFraction}, but it must be between 0 and 1`);
+      }
+    }
+    if (options.caching && options.caching.maxCacheSizeBytes !== undefined && options.caching.maxCacheSizeBytes <= 0) {
+      throw new Error(`Invalid RateLimitFetch options: caching.maxCacheSizeBytes is ${options.caching.maxCacheSizeBytes}, but it must be > 0`);
+    }
+    if (options.caching && options.caching.maxEntryBytes !== undefined && options.caching.maxEntryBytes <= 0) {
+      throw new Error(`Invalid RateLimitFetch options: caching.maxEntryBytes is ${options.caching.maxEntryBytes}, but it must be > 0`);
+    }
+  }
+
+  /**
+   * Validates the options that can be varied per route or per call. The prefix identifies where the
+   * options were specified, e.g. `policies[0].`.
+   */
+  private _validateRetryPolicyOptions = (options: RetryPolicyOptions, prefix: string) => {
     if (options.maxRetries < 0) {
-      throw new Error(`Invalid RateLimitFetch options: maxRetries is ${options.maxRetries}, but it must be >= 0`);
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}maxRetries is ${options.maxRetries}, but it must be >= 0`);
     }
     if (options.maxRetryDelayMillis <= 0) {
-      throw new Error(`Invalid RateLimitFetch options: maxRetryDelayMillis is ${options.maxRetryDelayMillis}, but it must be > 0`);
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}maxRetryDelayMillis is ${options.maxRetryDelayMillis}, but it must be > 0`);
     }
     if (options.maxJitterMultiplier < minJitterMultiplier) {
-      throw new Error(`Invalid RateLimitFetch options: maxJitterMultiplier is ${options.maxJitterMultiplier}, but it must be > than minJitterMultiplier which is ${minJitterMultiplier}.`);
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}maxJitterMultiplier is ${options.maxJitterMultiplier}, but it must be > than minJitterMultiplier which is ${minJitterMultiplier}.`);
+    }
+    if (options.attemptTimeoutMillis !== undefined && options.attemptTimeoutMillis <= 0) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}attemptTimeoutMillis is ${options.attemptTimeoutMillis}, but it must be > 0`);
+    }
+    if (options.deadlineMillis !== undefined && options.deadlineMillis <= 0) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}deadlineMillis is ${options.deadlineMillis}, but it must be > 0`);
+    }
+    if (options.retryableStatusCodes !== undefined) {
+      const invalidStatusCode = options.retryableStatusCodes.find(statusCode => !Number.isInteger(statusCode) || statusCode < 100 || statusCode > 599);
+      if (invalidStatusCode !== undefined) {
+        throw new Error(`Invalid RateLimitFetch options: ${prefix}retryableStatusCodes contains ${invalidStatusCode}, but status codes must be integers between 100 and 599`);
+      }
+    }
+    if (options.backoffStrategy) {
+      this._validateBackoffStrategyOptions(options.backoffStrategy, prefix);
+    }
+  }
+
+  private _validateRetryPolicy = (policy: RetryPolicy, prefix: string) => {
+    if (!policy.match) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}match is ${policy.match}, but it must be specified`);
+    }
+    const { origin, path, methods } = policy.match;
+    if (origin !== undefined) {
+      let isValidOrigin = false;
+      try {
+        isValidOrigin = new URL(origin).origin !== 'null';
+      } catch (error) {
+        isValidOrigin = false;
+      }
+      if (!isValidOrigin) {
+        throw new Error(`Invalid RateLimitFetch options: ${prefix}match.origin is ${origin}, but it must be an origin such as https://api.example.com`);
+      }
+    }
+    if (path !== undefined && !(path instanceof RegExp) && (typeof path !== 'string' || !path.startsWith('/'))) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}match.path is ${path}, but it must be a RegExp or a string starting with /`);
+    }
+    if (methods !== undefined && (!methods.length || methods.some(method => typeof method !== 'string' || !method))) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}match.methods is ${methods}, but it must be a non-empty array of method names`);
+    }
+    if (!policy.options) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}options is ${policy.options}, but it must be specified`);
+    }
+    this._validateRetryPolicyOptions(policy.options, `${prefix}options.`);
+  }
+
+  private _validateBackoffStrategyOptions = (backoffStrategy: BackoffStrategyOptions, prefix: string) => {
+    const algorithms: BackoffAlgorithm[] = ['exponential', 'fullJitter', 'equalJitter', 'decorrelatedJitter', 'linear', 'constant'];
+    if (!algorithms.includes(backoffStrategy.algorithm)) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}backoffStrategy.algorithm is ${backoffStrategy.algorithm}, but it must be one of ${algorithms.join(', ')}`);
+    }
+    if (backoffStrategy.incrementMillis !== undefined && backoffStrategy.incrementMillis < 0) {
+      throw new Error(`Invalid RateLimitFetch options: ${prefix}backoffStrategy.incrementMillis is ${backoffStrategy.incrementMillis}, but it must be >= 0`);
+    }
+  }
+
+  private _validateConcurrencyOptions = (concurrency: ConcurrencyOptions) => {
+    if (concurrency.maxConcurrency < 1) {
+      throw new Error(`Invalid RateLimitFetch options: concurrency.maxConcurrency is ${concurrency.maxConcurrency}, but it must be >= 1`);
+    }
+    const adaptive = concurrency.adaptive;
+    if (adaptive) {
+      const minConcurrency = adaptive.minConcurrency ?? 1;
+      if (minConcurrency < 1 || minConcurrency > concurrency.maxConcurrency) {
+        throw new Error(`Invalid RateLimitFetch options: concurrency.adaptive.minConcurrency is ${minConcurrency}, but it must be between 1 and maxConcurrency`);
+      }
+      if (adaptive.initialConcurrency !== undefined &&
+          (adaptive.initialConcurrency < minConcurrency || adaptive.initialConcurrency > concurrency.maxConcurrency)) {
+        throw new Error(`Invalid RateLimitFetch options: concurrency.adaptive.initialConcurrency is ${adaptive.initialConcurrency}, but it must be between minConcurrency and maxConcurrency`);
+      }
+      if (adaptive.additiveIncrease !== undefined && adaptive.additiveIncrease <= 0) {
+        throw new Error(`Invalid RateLimitFetch options: concurrency.adaptive.additiveIncrease is ${adaptive.additiveIncrease}, but it must be > 0`);
+      }
+      if (adaptive.multiplicativeDecrease !== undefined && (adaptive.multiplicativeDecrease <= 0 || adaptive.multiplicativeDecrease >= 1)) {
+        throw new Error(`Invalid RateLimitFetch options: concurrency.adaptive.multiplicativeDecrease is ${adaptive.multiplicativeDecrease}, but it must be > 0 and < 1`);
+      }
+    }
+  }
+
+  private _validateCooldownOptions = (cooldown: CooldownOptions) => {
+    if (cooldown.releaseIntervalMillis !== undefined && cooldown.releaseIntervalMillis < 0) {
+      throw new Error(`Invalid RateLimitFetch options: cooldown.releaseIntervalMillis is ${cooldown.releaseIntervalMillis}, but it must be >= 0`);
+    }
+    if (cooldown.defaultCooldownMillis !== undefined && cooldown.defaultCooldownMillis < 0) {
+      throw new Error(`Invalid RateLimitFetch options: cooldown.defaultCooldownMillis is ${cooldown.defaultCooldownMillis}, but it must be >= 0`);
+    }
+  }
+
+  private _validateRetryBudgetOptions = (retryBudget: RetryBudgetOptions) => {
+    if (retryBudget.retryRatio < 0) {
+      throw new Error(`Invalid RateLimitFetch options: retryBudget.retryRatio is ${retryBudget.retryRatio}, but it must be >= 0`);
+    }
+    if (retryBudget.minRetriesPerSecond !== undefined && retryBudget.minRetriesPerSecond < 0) {
+      throw new Error(`Invalid RateLimitFetch options: retryBudget.minRetriesPerSecond is ${retryBudget.minRetriesPerSecond}, but it must be >= 0`);
+    }
+    if (retryBudget.windowMillis !== undefined && retryBudget.windowMillis <= 0) {
+      throw new Error(`Invalid RateLimitFetch options: retryBudget.windowMillis is ${retryBudget.windowMillis}, but it must be > 0`);
+    }
+  }
+
+  private _validateCircuitBreakerOptions = (circuitBreaker: CircuitBreakerOptions) => {
+    if (circuitBreaker.failureThreshold < 1) {
+      throw new Error(`Invalid RateLimitFetch options: circuitBreaker.failureThreshold is ${circuitBreaker.failureThreshold}, but it must be >= 1`);
+    }
+    if (circuitBreaker.openDurationMillis <= 0) {
+      throw new Error(`Invalid RateLimitFetch options: circuitBreaker.openDurationMillis is ${circuitBreaker.openDurationMillis}, but it must be > 0`);
+    }
+    if (circuitBreaker.maxHalfOpenProbes !== undefined && circuitBreaker.maxHalfOpenProbes < 1) {
+      throw new Error(`Invalid RateLimitFetch options: circuitBreaker.maxHalfOpenProbes is ${circuitBreaker.maxHalfOpenProbes}, but it must be >= 1`);
+    }
+    if (circuitBreaker.successThreshold !== undefined && circuitBreaker.successThreshold < 1) {
+      throw new Error(`Invalid RateLimitFetch options: circuitBreaker.successThreshold is ${circuitBreaker.successThreshold}, but it must be >= 1`);
+    }
+  }
+
+  private _validateThrottlingOptions = (throttling: ThrottlingOptions) => {
+    if (throttling.algorithm === 'tokenBucket') {
+      if (throttling.bucketCapacity < 1) {
+        throw new Error(`Invalid RateLimitFetch options: throttling.bucketCapacity is ${throttling.bucketCapacity}, but it must be >= 1`);
+      }
+      if (throttling.refillTokensPerSecond <= 0) {
+        throw new Error(`Invalid RateLimitFetch options: throttling.refillTokensPerSecond is ${throttling.refillTokensPerSecond}, but it must be > 0`);
+      }
+    } else if (throttling.algorithm === 'slidingWindow') {
+      if (throttling.maxRequestsPerWindow < 1) {
+        throw new Error(`Invalid RateLimitFetch options: throttling.maxRequestsPerWindow is ${throttling.maxRequestsPerWindow}, but it must be >= 1`);
+      }
+      if (throttling.windowMillis <= 0) {
+        throw new Error(`Invalid RateLimitFetch options: throttling.windowMillis is ${throttling.windowMillis}, but it must be > 0`);
+      }
+    } else {
+      throw new Error(`Invalid RateLimitFetch options: throttling.algorithm is ${(throttling as ThrottlingOptions).algorithm}, but it must be 'tokenBucket' or 'slidingWindow'`);
     }
   }
 
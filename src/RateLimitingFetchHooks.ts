@@ -0,0 +1,133 @@
+import { AttemptRecord } from './AttemptHistory';
+import { ConsoleLogger, Logger } from './Logger';
+
+/**
+ * The request context carried by every event.
+ */
+export interface RateLimitingFetchEvent {
+  /**
+   * The URL or `Request` object passed to `fetch`.
+   */
+  url: RequestInfo
+  /**
+   * The options passed to `fetch`.
+   */
+  init: undefined | RequestInit
+  /**
+   * The number of the attempt the event relates to, starting at 1.
+   */
+  attemptNumber: number
+}
+
+/**
+ * This event is emitted before each attempt is sent. Listeners may modify `headers`, for example to
+ * refresh an authorization token, and the attempt is sent with the modified headers.
+ */
+export interface BeforeAttemptEvent extends RateLimitingFetchEvent {
+  headers: Headers
+}
+
+/**
+ * This event is emitted when an attempt receives a response, whether or not it will be retried.
+ */
+export interface AfterResponseEvent extends RateLimitingFetchEvent {
+  response: Response
+  durationMillis: number
+}
+
+/**
+ * This event is emitted when an attempt is to be retried after `retryDelayMillis`.
+ */
+export interface RetryScheduledEvent extends RateLimitingFetchEvent {
+  response: undefined | Response
+  error: undefined | any
+  retryDelayMillis: number
+  remainingRetries: number
+}
+
+/**
+ * This event is emitted when a request still needed retrying, but its retries ran out or its
+ * deadline left no time for another retry.
+ */
+export interface GaveUpEvent extends RateLimitingFetchEvent {
+  response: undefined | Response
+  error: undefined | any
+  attempts: AttemptRecord[]
+}
+
+/**
+ * This event is emitted when an attempt was held back by throttling, quota pacing or an origin
+ * cooldown.
+ */
+export interface ThrottledEvent extends RateLimitingFetchEvent {
+  throttleDelayMillis: number
+  reason: 'throttling' | 'quotaPacing' | 'cooldown'
+}
+
+/**
+ * This event is emitted when an attempt fails with an error rather than receiving a response.
+ */
+export interface AttemptErrorEvent extends RateLimitingFetchEvent {
+  error: any
+  durationMillis: number
+}
+
+export interface RateLimitingFetchEventMap {
+  beforeAttempt: BeforeAttemptEvent
+  afterResponse: AfterResponseEvent
+  retryScheduled: RetryScheduledEvent
+  gaveUp: GaveUpEvent
+  throttled: ThrottledEvent
+  error: AttemptErrorEvent
+}
+
+export type RateLimitingFetchEventName = keyof RateLimitingFetchEventMap;
+
+export type RateLimitingFetchListener<K extends RateLimitingFetchEventName> =
+  (event: RateLimitingFetchEventMap[K]) => void | Promise<void>;
+
+/**
+ * This class manages the listeners of `RateLimitingFetch` lifecycle events. Listeners are called
+ * in the order they were added and asynchronous listeners are awaited before the request proceeds.
+ * Errors thrown by listeners are logged and do not affect the request or the remaining listeners.
+ */
+export class RateLimitingFetchHooks {
+
+  logger: Logger = new ConsoleLogger();
+  private listeners = new Map<RateLimitingFetchEventName, RateLimitingFetchListener<any>[]>();
+
+  /**
+   * This method allows an implementation of `Logger` to be injected to log errors thrown by listeners.
+   * @param logger the implementation of `Logger` to be injected.
+   */
+  public setLogger = (logger: Logger): void => {
+    this.logger = logger;
+  }
+
+  public on = <K extends RateLimitingFetchEventName>(eventName: K, listener: RateLimitingFetchListener<K>): void => {
+    this.listeners.set(eventName, [...this._getListeners(eventName), listener]);
+  }
+
+  public off = <K extends RateLimitingFetchEventName>(eventName: K, listener: RateLimitingFetchListener<K>): void => {
+    this.listeners.set(eventName, this._getListeners(eventName).filter(existingListener => existingListener !== listener));
+  }
+
+  public hasListeners = (eventName: RateLimitingFetchEventName): boolean => {
+    return this._getListeners(eventName).length > 0;
+  }
+
+  public emit = async <K extends RateLimitingFetchEventName>(eventName: K, event: RateLimitingFetchEventMap[K]): Promise<void> => {
+    for (const listener of this._getListeners(eventName)) {
+      try {
+        await listener(event);
+      } catch (error) {
+        this.logger.error('Lifecycle listener failed', { eventName: eventName, error: error });
+      }
+    }
+  }
+
+  private _getListeners = (eventName: RateLimitingFetchEventName): RateLimitingFetchListener<any>[] => {
+    return this.listeners.get(eventName) ?? [];
+  }
+
+}
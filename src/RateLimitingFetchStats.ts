@@ -1,3 +1,24 @@
+import { CircuitState } from './CircuitBreaker';
+import { Clock } from './Clock';
+import { Logger } from './Logger';
+
+/**
+ * This interface describes the request that a statistic is being recorded for.
+ */
+export interface FetchStatsContext {
+
+  origin: string
+  method: string
+  /**
+   * The partition of the request, if any.
+   */
+  partitionKey?: string
+  /**
+   * The name of the retry policy that applies to the request, if any.
+   */
+  policyName?: string
+
+}
 
 /**
  * This interface provides a means for recording statistics.
@@ -7,35 +28,120 @@ export interface RateLimitingFetchStats {
   fetchAttemptCount: number
   fetchRetryCount: number
   totalFetchRetryDelay: number
+  fetchThrottleCount?: number
+  totalFetchThrottleDelay?: number
+  circuitOpenCount?: number
+  circuitRejectionCount?: number
+  retriesExhaustedCount?: number
+  retryBudgetDenialCount?: number
+  concurrencyQueuedCount?: number
+  totalConcurrencyQueueWait?: number
+  maxConcurrencyQueueDepth?: number
+  cacheHitCount?: number
+  cacheRevalidationCount?: number
+  coalescedRequestCount?: number
 }
 
 /**
- * This interface provides a means for recording statistics.
+ * This interface provides a means for recording statistics. The optional methods are only called
+ * if the recorder implements them.
  */
 export interface RateLimitingFetchStatsRecorder {
 
-  logFetchAttempt: () => void
-  logRetry: (delayMillis: number) => void
-  getRateLimitingFetchStats: () => RateLimitingFetchStats
+  logFetchAttempt: (context: FetchStatsContext) => void
+  logAttemptCompleted?: (context: FetchStatsContext, status: undefined | number, durationMillis: number) => void
+  logRetry: (delayMillis: number, context: FetchStatsContext) => void
+  logRetriesExhausted?: (context: FetchStatsContext) => void
+  logRetryBudgetDenial?: (context: FetchStatsContext) => void
+  logThrottle?: (delayMillis: number, context: FetchStatsContext) => void
+  logQueueWait?: (waitMillis: number, context: FetchStatsContext) => void
+  logQueueDepth?: (key: string, queueDepth: number) => void
+  logCircuitStateChange?: (key: string, fromState: CircuitState, toState: CircuitState) => void
+  logCircuitRejection?: (key: string) => void
+  logCacheHit?: (context: FetchStatsContext, revalidated: boolean) => void
+  logCoalescedRequest?: (context: FetchStatsContext) => void
+  /**
+   * Returns the statistics of all requests or, if `partitionKey` is specified, of the requests of
+   * that partition. Circuit and concurrency queue depth statistics are keyed by their own keys and
+   * are only included in the statistics of all requests.
+   */
+  getRateLimitingFetchStats: (partitionKey?: string) => RateLimitingFetchStats
+  report?: (logger: Logger) => void
   reportToConsole: () => void
+  /**
+   * This optional method allows the clock to be injected.
+   */
+  setClock?: (clock: Clock) => void
+  /**
+   * This optional method allows the logger to be injected.
+   */
+  setLogger?: (logger: Logger) => void
+
+}
 
+const buildEmptyRateLimitingFetchStats = (): RateLimitingFetchStats => {
+  return {
+    fetchAttemptCount: 0,
+    fetchRetryCount: 0,
+    totalFetchRetryDelay: 0,
+    fetchThrottleCount: 0,
+    totalFetchThrottleDelay: 0,
+    circuitOpenCount: 0,
+    circuitRejectionCount: 0,
+    retriesExhaustedCount: 0,
+    retryBudgetDenialCount: 0,
+    concurrencyQueuedCount: 0,
+    totalConcurrencyQueueWait: 0,
+    maxConcurrencyQueueDepth: 0,
+    cacheHitCount: 0,
+    cacheRevalidationCount: 0,
+    coalescedRequestCount: 0
+  };
 }
 
 export class NoopRateLimitingFetchStatsRecorder implements RateLimitingFetchStatsRecorder  {
 
-  public logFetchAttempt = (): void => {
+  public logFetchAttempt = (context: FetchStatsContext): void => {
   }
 
-  public logRetry = (delayMillis: number): void => {
+  public logAttemptCompleted = (context: FetchStatsContext, status: undefined | number, durationMillis: number): void => {
   }
 
-  public getRateLimitingFetchStats = (): RateLimitingFetchStats => {
-    const stats: RateLimitingFetchStats = {
-      fetchAttemptCount: 0,
-      fetchRetryCount: 0,
-      totalFetchRetryDelay: 0
-    }
-    return stats;
+  public logRetry = (delayMillis: number, context: FetchStatsContext): void => {
+  }
+
+  public logRetriesExhausted = (context: FetchStatsContext): void => {
+  }
+
+  public logRetryBudgetDenial = (context: FetchStatsContext): void => {
+  }
+
+  public logThrottle = (delayMillis: number, context: FetchStatsContext): void => {
+  }
+
+  public logQueueWait = (waitMillis: number, context: FetchStatsContext): void => {
+  }
+
+  public logQueueDepth = (key: string, queueDepth: number): void => {
+  }
+
+  public logCircuitStateChange = (key: string, fromState: CircuitState, toState: CircuitState): void => {
+  }
+
+  public logCircuitRejection = (key: string): void => {
+  }
+
+  public logCacheHit = (context: FetchStatsContext, revalidated: boolean): void => {
+  }
+
+  public logCoalescedRequest = (context: FetchStatsContext): void => {
+  }
+
+  public getRateLimitingFetchStats = (partitionKey?: string): RateLimitingFetchStats => {
+    return buildEmptyRateLimitingFetchStats();
+  }
+
+  public report = (logger: Logger): void => {
   }
 
   public reportToConsole = (): void => {
@@ -45,23 +151,99 @@ export class NoopRateLimitingFetchStatsRecorder implements RateLimitingFetchStat
 
 export class SimpleRateLimitingFetchStatsRecorder implements RateLimitingFetchStatsRecorder {
 
-  stats: RateLimitingFetchStats = {
-    fetchAttemptCount: 0,
-    fetchRetryCount: 0,
-    totalFetchRetryDelay: 0
+  stats: RateLimitingFetchStats = buildEmptyRateLimitingFetchStats();
+  partitionStats = new Map<string, RateLimitingFetchStats>();
+
+  public logFetchAttempt = (context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.fetchAttemptCount++;
+    });
+  }
+
+  public logAttemptCompleted = (context: FetchStatsContext, status: undefined | number, durationMillis: number): void => {
+  }
+
+  public logRetry = (delayMillis: number, context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.fetchRetryCount++;
+      stats.totalFetchRetryDelay += delayMillis;
+    });
+  }
+
+  public logRetriesExhausted = (context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.retriesExhaustedCount++;
+    });
+  }
+
+  public logRetryBudgetDenial = (context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.retryBudgetDenialCount++;
+    });
+  }
+
+  public logThrottle = (delayMillis: number, context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.fetchThrottleCount++;
+      stats.totalFetchThrottleDelay += delayMillis;
+    });
+  }
+
+  public logQueueWait = (waitMillis: number, context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.concurrencyQueuedCount++;
+      stats.totalConcurrencyQueueWait += waitMillis;
+    });
+  }
+
+  public logQueueDepth = (key: string, queueDepth: number): void => {
+    this.stats.maxConcurrencyQueueDepth = Math.max(this.stats.maxConcurrencyQueueDepth, queueDepth);
+  }
+
+  public logCircuitStateChange = (key: string, fromState: CircuitState, toState: CircuitState): void => {
+    if (toState === 'open') {
+      this.stats.circuitOpenCount++;
+    }
+  }
+
+  public logCircuitRejection = (key: string): void => {
+    this.stats.circuitRejectionCount++;
   }
 
-  public logFetchAttempt = (): void => {
-    this.stats.fetchAttemptCount++;
+  public logCacheHit = (context: FetchStatsContext, revalidated: boolean): void => {
+    this._forEachStats(context, (stats) => {
+      stats.cacheHitCount++;
+      if (revalidated) {
+        stats.cacheRevalidationCount++;
+      }
+    });
   }
 
-  public logRetry = (delayMillis: number): void => {
-    this.stats.fetchRetryCount++;
-    this.stats.totalFetchRetryDelay += delayMillis;
+  public logCoalescedRequest = (context: FetchStatsContext): void => {
+    this._forEachStats(context, (stats) => {
+      stats.coalescedRequestCount++;
+    });
   }
 
-  public getRateLimitingFetchStats = (): RateLimitingFetchStats => {
-    return this.stats;
+  public getRateLimitingFetchStats = (partitionKey?: string): RateLimitingFetchStats => {
+    if (partitionKey === undefined) {
+      return this.stats;
+    }
+    return this.partitionStats.get(partitionKey) ?? buildEmptyRateLimitingFetchStats();
+  }
+
+  /**
+   * Returns the partitions that statistics have been recorded for.
+   */
+  public getPartitionKeys = (): string[] => {
+    return Array.from(this.partitionStats.keys());
+  }
+
+  public report = (logger: Logger): void => {
+    logger.info('Rate limiting fetch stats', { ...this.stats });
+    this.partitionStats.forEach((stats, partitionKey) => {
+      logger.info('Rate limiting fetch partition stats', { partitionKey: partitionKey, ...stats });
+    });
   }
 
   public reportToConsole = (): void => {
@@ -71,6 +253,37 @@ export class SimpleRateLimitingFetchStatsRecorder implements RateLimitingFetchSt
     if (this.stats.fetchRetryCount) {
       console.log(` * average fetch retry delay = ${this.stats.totalFetchRetryDelay / (1000 * this.stats.fetchRetryCount)}s`);
     }
+    console.log(` * retries exhausted count = ${this.stats.retriesExhaustedCount}`);
+    console.log(` * retry budget denial count = ${this.stats.retryBudgetDenialCount}`);
+    console.log(` * fetch throttle count = ${this.stats.fetchThrottleCount}`);
+    console.log(` * total fetch throttle delay = ${this.stats.totalFetchThrottleDelay / 1000}s`);
+    console.log(` * concurrency queued count = ${this.stats.concurrencyQueuedCount}`);
+    console.log(` * total concurrency queue wait = ${this.stats.totalConcurrencyQueueWait / 1000}s`);
+    console.log(` * max concurrency queue depth = ${this.stats.maxConcurrencyQueueDepth}`);
+    console.log(` * circuit open count = ${this.stats.circuitOpenCount}`);
+    console.log(` * circuit rejection count = ${this.stats.circuitRejectionCount}`);
+    console.log(` * cache hit count = ${this.stats.cacheHitCount}`);
+    console.log(` * cache revalidation count = ${this.stats.cacheRevalidationCount}`);
+    console.log(` * coalesced request count = ${this.stats.coalescedRequestCount}`);
+    this.partitionStats.forEach((stats, partitionKey) => {
+      console.log(` * partition ${partitionKey}: fetch attempt count = ${stats.fetchAttemptCount}, ` +
+        `fetch retry count = ${stats.fetchRetryCount}, fetch throttle count = ${stats.fetchThrottleCount}`);
+    });
+  }
+
+  /**
+   * Applies an update to the statistics of all requests and to those of the request's partition.
+   */
+  private _forEachStats = (context: FetchStatsContext, update: (stats: RateLimitingFetchStats) => void): void => {
+    update(this.stats);
+    if (context.partitionKey !== undefined) {
+      let stats = this.partitionStats.get(context.partitionKey);
+      if (!stats) {
+        stats = buildEmptyRateLimitingFetchStats();
+        this.partitionStats.set(context.partitionKey, stats);
+      }
+      update(stats);
+    }
   }
 
 }
@@ -1,3 +1,245 @@
+import { RequestCostExtractor, RequestKeyExtractor } from './RequestUtils';
+
+/**
+ * Options for throttling requests through a token bucket per key. Each request consumes one token
+ * and tokens are replenished at a constant rate up to the capacity of the bucket.
+ */
+export interface TokenBucketThrottlingOptions {
+  algorithm: 'tokenBucket';
+  /**
+   * The maximum number of tokens the bucket can hold. This is the size of the largest burst
+   * of requests that will be admitted without waiting.
+   */
+  bucketCapacity: number;
+  /**
+   * The number of tokens added to the bucket every second.
+   */
+  refillTokensPerSecond: number;
+  /**
+   * Determines the bucket a request is admitted through. Requests are keyed by origin by default.
+   */
+  keyExtractor?: RequestKeyExtractor;
+}
+
+/**
+ * Options for throttling requests such that no more than a given number of requests per key are
+ * admitted within any sliding window of time.
+ */
+export interface SlidingWindowThrottlingOptions {
+  algorithm: 'slidingWindow';
+  /**
+   * The maximum number of requests admitted within any window.
+   */
+  maxRequestsPerWindow: number;
+  /**
+   * The duration of the window in milliseconds.
+   */
+  windowMillis: number;
+  /**
+   * Determines the window a request is admitted through. Requests are keyed by origin by default.
+   */
+  keyExtractor?: RequestKeyExtractor;
+}
+
+export type ThrottlingOptions = TokenBucketThrottlingOptions | SlidingWindowThrottlingOptions;
+
+/**
+ * Options for pacing requests based on the rate limit quota advertised in response headers.
+ */
+export interface QuotaPacingOptions {
+  /**
+   * The fraction of the advertised quota limit below which requests are spread evenly over the
+   * time remaining until the quota resets. Requests are always held back until the quota resets
+   * once the advertised remaining quota reaches zero.
+   */
+  reserveFraction: number;
+  /**
+   * Determines the quota a request is accounted against. Requests are keyed by origin by default.
+   */
+  keyExtractor?: RequestKeyExtractor;
+}
+
+/**
+ * Options for failing requests fast while an upstream is failing rather than retrying them.
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * The number of consecutive failures that trips the circuit open.
+   */
+  failureThreshold: number;
+  /**
+   * The number of milliseconds the circuit stays open before probe requests are let through.
+   */
+  openDurationMillis: number;
+  /**
+   * The maximum number of probe requests in flight while the circuit is half-open. This
+   * defaults to 1.
+   */
+  maxHalfOpenProbes?: number;
+  /**
+   * The number of consecutive successful probe requests required to close the circuit. This
+   * defaults to 1.
+   */
+  successThreshold?: number;
+  /**
+   * The response status codes that count as failures. This defaults to 500 and 503.
+   */
+  failureStatusCodes?: number[];
+  /**
+   * Determines the circuit a request goes through. Requests are keyed by origin by default.
+   */
+  keyExtractor?: RequestKeyExtractor;
+}
+
+/**
+ * Options for coordinating a cooldown across the requests to the same key once any of them is
+ * rate limited.
+ */
+export interface CooldownOptions {
+  /**
+   * The interval between releasing waiting requests once the cooldown ends. This defaults to 100
+   * milliseconds.
+   */
+  releaseIntervalMillis?: number;
+  /**
+   * The cooldown to apply when a rate limited response does not specify one through its
+   * `Retry-After` or rate limit headers. This defaults to `initialRetryDelayMillis`.
+   */
+  defaultCooldownMillis?: number;
+  /**
+   * Determines the key whose requests share a cooldown. Requests are keyed by origin by default.
+   */
+  keyExtractor?: RequestKeyExtractor;
+}
+
+/**
+ * Options for adapting the concurrency limit to the responses of the upstream.
+ */
+export interface AdaptiveConcurrencyOptions {
+  /**
+   * The lowest the concurrency limit is cut to. This defaults to 1.
+   */
+  minConcurrency?: number;
+  /**
+   * The concurrency limit to start with. This defaults to `maxConcurrency`.
+   */
+  initialConcurrency?: number;
+  /**
+   * The amount the concurrency limit grows by for each limit's worth of successful attempts. This
+   * defaults to 1.
+   */
+  additiveIncrease?: number;
+  /**
+   * The factor the concurrency limit is multiplied by when an attempt is rate limited. This
+   * defaults to 0.5.
+   */
+  multiplicativeDecrease?: number;
+  /**
+   * The response status codes that count as rate limited and cut the concurrency limit. This
+   * defaults to 429 and 503.
+   */
+  rateLimitedStatusCodes?: number[];
+}
+
+/**
+ * Options for limiting the number of attempts in flight per key.
+ */
+export interface ConcurrencyOptions {
+  /**
+   * The maximum number of attempts in flight per key.
+   */
+  maxConcurrency: number;
+  /**
+   * If specified, the concurrency limit grows additively on success and is cut multiplicatively
+   * when attempts are rate limited, never exceeding `maxConcurrency`.
+   */
+  adaptive?: AdaptiveConcurrencyOptions;
+  /**
+   * Determines the queue an attempt goes through. Requests are keyed by origin by default.
+   */
+  keyExtractor?: RequestKeyExtractor;
+}
+
+/**
+ * Options for capping retries across all requests sharing a retry budget so that an upstream
+ * brownout does not multiply the request rate by the number of retries.
+ */
+export interface RetryBudgetOptions {
+  /**
+   * The number of retries allowed per request sent within the window, e.g. 0.1 allows one retry
+   * for every ten requests.
+   */
+  retryRatio: number;
+  /**
+   * The number of retries per second allowed regardless of the number of requests sent. This
+   * defaults to 0.
+   */
+  minRetriesPerSecond?: number;
+  /**
+   * The duration of the sliding window over which requests and retries are counted. This
+   * defaults to 10 seconds.
+   */
+  windowMillis?: number;
+}
+
+/**
+ * Options for saving quota by sharing and caching the responses of GET requests.
+ */
+export interface CachingOptions {
+  /**
+   * Whether identical concurrent GET requests share one in-flight request. Only requests made with
+   * a URL string and without a signal are shared. This defaults to true.
+   */
+  coalesceRequests?: boolean;
+  /**
+   * Whether responses are kept in an HTTP cache that respects `Cache-Control` and revalidates stale
+   * responses with conditional requests. This defaults to true.
+   */
+  cacheResponses?: boolean;
+  /**
+   * The maximum total size of the responses kept by the default in-memory cache store. This
+   * defaults to 10 MiB.
+   */
+  maxCacheSizeBytes?: number;
+  /**
+   * The maximum size of the body of a cached response. Larger responses are returned without being
+   * cached. This defaults to 1 MiB.
+   */
+  maxEntryBytes?: number;
+}
+
+/**
+ * Options for tracking the rate limiting state of requests separately per partition, e.g. per
+ * tenant when an API is called with the credentials of many customers, each with their own quota.
+ */
+export interface PartitioningOptions {
+  /**
+   * Determines the partition of a request, e.g. `authorizationPartitionKeyExtractor`. The
+   * `partitionKey` request option takes precedence over this.
+   */
+  keyExtractor: RequestKeyExtractor;
+}
+
+export type BackoffAlgorithm =
+  'exponential' |
+  'fullJitter' |
+  'equalJitter' |
+  'decorrelatedJitter' |
+  'linear' |
+  'constant';
+
+/**
+ * Options for selecting the strategy used to compute retry delays when the response does not
+ * dictate the delay through headers such as `Retry-After`.
+ */
+export interface BackoffStrategyOptions {
+  algorithm: BackoffAlgorithm;
+  /**
+   * The amount to increase the delay by on each retry when the algorithm is `linear`. This
+   * defaults to `initialRetryDelayMillis`.
+   */
+  incrementMillis?: number;
+}
 
 export interface RateLimitingHandlingOptions {
   /**
@@ -22,6 +264,175 @@ export interface RateLimitingHandlingOptions {
    * instructed in any response headers.
    */
   maxJitterMultiplier: number;
+  /**
+   * The strategy used to compute retry delays. If not specified, the delay grows exponentially
+   * by `backoffMultiplier` and is jittered by up to `maxJitterMultiplier`.
+   */
+  backoffStrategy?: BackoffStrategyOptions;
+  /**
+   * Whether requests that fail due to transient network errors such as connection resets should
+   * be retried. Only requests with idempotent methods or an `Idempotency-Key` header are retried
+   * since a non-idempotent request may have been processed before the connection failed. This
+   * defaults to true.
+   */
+  retryNetworkErrors?: boolean;
+  /**
+   * The response status codes that are retried. This defaults to 429, 500 and 503.
+   */
+  retryableStatusCodes?: number[];
+  /**
+   * If specified, each attempt that has not received a response within this number of
+   * milliseconds is aborted with a `RequestTimeoutError`. Timed out attempts are retried in the
+   * same way as network errors.
+   */
+  attemptTimeoutMillis?: number;
+  /**
+   * If specified, the maximum number of milliseconds a request may take across all attempts
+   * and retry delays. Retries that would overshoot the deadline are skipped and an attempt in
+   * flight when the deadline passes is aborted with a `RequestTimeoutError`.
+   */
+  deadlineMillis?: number;
+  /**
+   * The maximum number of bytes of a request body that can only be read once, such as a stream,
+   * to buffer so that it can be sent again on retry. Requests with larger bodies are not retried.
+   * This defaults to 1MiB.
+   */
+  maxBufferedBodyBytes?: number;
+  /**
+   * If true, a `RetriesExhaustedError` carrying the attempt history is thrown when a request
+   * still needs retrying after its retries run out, rather than the last response being returned
+   * or the last error being thrown. This defaults to false.
+   */
+  throwOnRetriesExhausted?: boolean;
+  /**
+   * If specified, requests are proactively throttled such that they queue until they are
+   * admitted rather than being sent and subsequently rate limited.
+   */
+  throttling?: ThrottlingOptions;
+  /**
+   * If specified, the rate limit quota advertised in response headers is used to slow requests
+   * down before the quota is exhausted.
+   */
+  quotaPacing?: QuotaPacingOptions;
+  /**
+   * If specified, requests fail fast with a `CircuitOpenError` once the upstream they are sent
+   * to has failed repeatedly.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * If specified, retries are denied once they exceed a budget shared by all requests made through
+   * the `RateLimitingFetch` instance. The budget can be shared across instances by injecting the
+   * same `RetryBudget` into each of them.
+   */
+  retryBudget?: RetryBudgetOptions;
+  /**
+   * If specified, once a request is rate limited, the other requests to the same origin wait for
+   * the cooldown the response asks for and are then released gradually. Their waits count as
+   * throttling rather than retries.
+   */
+  cooldown?: CooldownOptions;
+  /**
+   * If specified, the number of attempts in flight is limited and the attempts over the limit are
+   * queued in order of priority.
+   */
+  concurrency?: ConcurrencyOptions;
+  /**
+   * If specified, identical concurrent GET requests share one in-flight request and responses are
+   * cached such that fewer requests count against the rate limit.
+   */
+  caching?: CachingOptions;
+  /**
+   * If specified, the throttling, quota pacing, cooldown, concurrency and retry budget state is
+   * tracked per partition such that the requests of one partition can not starve the others.
+   * Circuits are not partitioned since they track the health of the upstream.
+   */
+  partitioning?: PartitioningOptions;
+  /**
+   * Determines the cost of a request, which is the number of throttling tokens and advertised quota
+   * units it consumes. The `cost` request option takes precedence over this. Requests cost 1 by
+   * default.
+   */
+  costExtractor?: RequestCostExtractor;
+  /**
+   * Policies that apply different retry options to the requests they match. The options of the
+   * first matching policy take precedence over these options.
+   */
+  policies?: RetryPolicy[];
+}
+
+/**
+ * The options that can be varied per route by a `RetryPolicy` or per call.
+ */
+export type RetryPolicyOptions = Partial<Pick<RateLimitingHandlingOptions,
+  'maxRetries' |
+  'maxRetryDelayMillis' |
+  'backoffMultiplier' |
+  'initialRetryDelayMillis' |
+  'maxJitterMultiplier' |
+  'backoffStrategy' |
+  'retryNetworkErrors' |
+  'retryableStatusCodes' |
+  'attemptTimeoutMillis' |
+  'deadlineMillis' |
+  'throwOnRetriesExhausted'>>;
+
+/**
+ * Determines the requests a `RetryPolicy` applies to. A request matches if it matches every
+ * criterion that is specified.
+ */
+export interface RouteMatcher {
+  /**
+   * The origin of the requests such as `https://api.example.com`.
+   */
+  origin?: string;
+  /**
+   * The path of the requests. Strings must start with `/` and may contain `*` to match within a
+   * path segment and `**` to match across path segments, e.g. `/payments/**`.
+   */
+  path?: string | RegExp;
+  /**
+   * The methods of the requests such as `POST`.
+   */
+  methods?: string[];
+}
+
+/**
+ * A set of retry options that apply to the requests matched by `match`.
+ */
+export interface RetryPolicy {
+  /**
+   * An optional name used to identify the policy in debug output and in the `FetchStatsContext`
+   * passed to the stats recorder.
+   */
+  name?: string;
+  match: RouteMatcher;
+  options: RetryPolicyOptions;
+}
+
+/**
+ * Options that apply to a single call to `RateLimitingFetch.fetch`.
+ */
+export interface RateLimitingRequestOptions {
+  /**
+   * The priority of the request when attempts are queued due to the concurrency limit. Attempts
+   * with higher priorities are sent first. This defaults to 0.
+   */
+  priority?: number;
+  /**
+   * Retry options that apply to this request only. These take precedence over the options of any
+   * matching policy.
+   */
+  overrides?: RetryPolicyOptions;
+  /**
+   * The cost of the request, which is the number of throttling tokens and advertised quota units
+   * each of its attempts consumes. This must be >= 0.
+   */
+  cost?: number;
+  /**
+   * The partition the rate limiting state of the request is tracked in, e.g. the tenant on whose
+   * behalf it is made.
+   */
+  partitionKey?: string;
 }
 
 export const nonUiContextRateLimitingHandlingOptionsDefaults: RateLimitingHandlingOptions = {
@@ -0,0 +1,106 @@
+import {
+  Cassette,
+  CassetteEntry,
+  defaultRedactedHeaderNames,
+  toRecordedError,
+  toRecordedRequest,
+  toRecordedResponse
+} from './Cassette';
+import { Clock, SystemClock } from './Clock';
+import { FetchInterface, NodeFetch } from './FetchInterface';
+import { Logger } from './Logger';
+import { isAbortError } from './NetworkErrors';
+
+export interface RecordingFetchOptions {
+  /**
+   * The fetch implementation whose requests are recorded. This defaults to `NodeFetch`.
+   */
+  fetchImplementation?: FetchInterface
+  /**
+   * The names of the headers whose values are redacted from the recording. This defaults to
+   * `defaultRedactedHeaderNames`.
+   */
+  redactedHeaderNames?: string[]
+}
+
+/**
+ * This implementation of `FetchInterface` passes requests on to another fetch implementation and
+ * records each request with its response, or the error it failed with, and its timing into a
+ * cassette. Requests aborted by the caller are not recorded. The cassette can be saved with
+ * `saveCassette` and replayed offline with `ReplayingFetch`.
+ */
+export class RecordingFetch implements FetchInterface {
+
+  private fetchImplementation: FetchInterface;
+  private redactedHeaderNames: string[];
+  private clock: Clock = new SystemClock();
+  private entries: CassetteEntry[] = [];
+  private firstStartTime: undefined | number = undefined;
+
+  constructor(options: RecordingFetchOptions = {}) {
+    this.fetchImplementation = options.fetchImplementation ?? new NodeFetch();
+    this.redactedHeaderNames = (options.redactedHeaderNames ?? defaultRedactedHeaderNames).map(name => name.toLowerCase());
+  }
+
+  public setLogger = (logger: Logger): void => {
+    if (this.fetchImplementation.setLogger) {
+      this.fetchImplementation.setLogger(logger);
+    }
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  public fetch = async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const recordedRequest = await toRecordedRequest(url, init, this.redactedHeaderNames);
+    const startTime = this.clock.now();
+    if (this.firstStartTime === undefined) {
+      this.firstStartTime = startTime;
+    }
+    const entry: Omit<CassetteEntry, 'durationMillis'> = {
+      request: recordedRequest,
+      startedDateTime: new Date(startTime).toISOString(),
+      startOffsetMillis: startTime - this.firstStartTime
+    };
+    let response: Response;
+    try {
+      response = await this.fetchImplementation.fetch(url, init);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        this.entries.push({
+          ...entry,
+          error: toRecordedError(error),
+          durationMillis: this.clock.now() - startTime
+        });
+      }
+      throw error;
+    }
+    const durationMillis = this.clock.now() - startTime;
+    this.entries.push({
+      ...entry,
+      response: await toRecordedResponse(response, this.redactedHeaderNames),
+      durationMillis: durationMillis
+    });
+    return response;
+  }
+
+  /**
+   * Returns the cassette of the requests recorded so far in the order they were sent.
+   */
+  public getCassette = (): Cassette => {
+    return {
+      version: 1,
+      entries: [...this.entries].sort((entryA, entryB) => entryA.startOffsetMillis - entryB.startOffsetMillis)
+    };
+  }
+
+  /**
+   * Discards the requests recorded so far.
+   */
+  public clear = (): void => {
+    this.entries = [];
+    this.firstStartTime = undefined;
+  }
+
+}
@@ -0,0 +1,199 @@
+import { RequestBodyNotReplayableError } from './RateLimitingErrors';
+
+/**
+ * The URL and options to pass to the fetch implementation for a single attempt.
+ */
+export interface RequestAttempt {
+  url: RequestInfo
+  init: undefined | RequestInit
+}
+
+/**
+ * A body that was read in full into `bytes` or, if it exceeded the size limit, a `stream` of the
+ * buffered chunks followed by the remainder of the body.
+ */
+interface BufferedBody {
+  bytes?: Uint8Array
+  stream?: ReadableStream<Uint8Array>
+}
+
+/**
+ * Determines whether a body can be passed to `fetch` more than once without being consumed.
+ */
+export const isReplayableBody = (body: any): boolean => {
+  return body === undefined ||
+    body === null ||
+    typeof body === 'string' ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof URLSearchParams ||
+    (typeof Blob !== 'undefined' && body instanceof Blob) ||
+    (typeof FormData !== 'undefined' && body instanceof FormData);
+}
+
+/**
+ * This class produces the URL and options for each attempt of a request such that its body is
+ * sent in full on every attempt. Bodies that can only be read once, such as streams, async
+ * iterables and the bodies of `Request` objects, are buffered up to a size limit. A body that
+ * exceeds the limit is streamed on the first attempt and the request is not replayable.
+ */
+export class ReplayableRequest {
+
+  private url: RequestInfo;
+  private init: undefined | RequestInit;
+  private bufferedBody: undefined | BufferedBody;
+  private bodySource: 'none' | 'init' | 'request';
+  private attemptCount = 0;
+
+  constructor(url: RequestInfo, init: undefined | RequestInit, bodySource: 'none' | 'init' | 'request', bufferedBody?: BufferedBody) {
+    this.url = url;
+    this.init = init;
+    this.bodySource = bodySource;
+    this.bufferedBody = bufferedBody;
+  }
+
+  /**
+   * Whether the request can be sent again after its first attempt.
+   */
+  public isReplayable = (): boolean => {
+    return !this.bufferedBody || this.bufferedBody.bytes !== undefined;
+  }
+
+  /**
+   * Returns the URL and options for the next attempt.
+   * @throws RequestBodyNotReplayableError if the request has already been sent and is not replayable.
+   */
+  public nextAttempt = (): RequestAttempt => {
+    if (this.attemptCount > 0 && !this.isReplayable()) {
+      throw new RequestBodyNotReplayableError('The request body is a stream that was too large to buffer and can not be sent again.');
+    }
+    this.attemptCount++;
+    const body = this.bufferedBody ? this.bufferedBody.bytes ?? this.bufferedBody.stream : undefined;
+    // Streamed bodies must be sent half duplex...
+    const duplex = this.isReplayable() ? {} : { duplex: 'half' };
+    if (this.bodySource === 'init') {
+      return {
+        url: this._cloneRequest(this.url),
+        init: { ...this.init, body: body, ...duplex } as RequestInit
+      };
+    } else if (this.bodySource === 'request') {
+      const request = this.url as Request;
+      return {
+        url: new Request(request, { body: body, ...duplex } as RequestInit),
+        init: this.init
+      };
+    } else {
+      return {
+        url: this._cloneRequest(this.url),
+        init: this.init
+      };
+    }
+  }
+
+  private _cloneRequest = (url: RequestInfo): RequestInfo => {
+    return typeof url === 'string' || url.bodyUsed ? url : url.clone();
+  }
+
+}
+
+/**
+ * Prepares a request for being sent one or more times by buffering its body if necessary.
+ * @param url the URL or `Request` object passed to `fetch`.
+ * @param init the options passed to `fetch`.
+ * @param maxBufferedBodyBytes the maximum number of bytes of a one-shot body to buffer.
+ * @throws RequestBodyNotReplayableError if the body of the `Request` object has already been consumed.
+ */
+export const prepareReplayableRequest = async (
+    url: RequestInfo,
+    init: undefined | RequestInit,
+    maxBufferedBodyBytes: number): Promise<ReplayableRequest> => {
+  if (init && init.body !== undefined && init.body !== null) {
+    if (isReplayableBody(init.body)) {
+      return new ReplayableRequest(url, init, 'none');
+    }
+    const bufferedBody = await bufferBody(init.body, maxBufferedBodyBytes);
+    return new ReplayableRequest(url, init, 'init', bufferedBody);
+  }
+  if (typeof url !== 'string' && url.body !== null) {
+    if (url.bodyUsed) {
+      throw new RequestBodyNotReplayableError('The body of the Request object has already been consumed.');
+    }
+    const bufferedBody = await bufferBody(url.body, maxBufferedBodyBytes);
+    return new ReplayableRequest(url, init, 'request', bufferedBody);
+  }
+  return new ReplayableRequest(url, init, 'none');
+}
+
+const bufferBody = async (body: any, maxBufferedBodyBytes: number): Promise<BufferedBody> => {
+  const iterator = toChunkIterator(body);
+  const chunks: Uint8Array[] = [];
+  let byteCount = 0;
+  while (byteCount <= maxBufferedBodyBytes) {
+    const next = await iterator.next();
+    if (next.done) {
+      return {
+        bytes: concatenateChunks(chunks, byteCount)
+      };
+    }
+    chunks.push(next.value);
+    byteCount += next.value.byteLength;
+  }
+  // The body is too large to buffer, so stream the buffered chunks followed by the remainder...
+  const stream = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      if (chunks.length) {
+        controller.enqueue(chunks.shift());
+        return;
+      }
+      const next = await iterator.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(next.value);
+      }
+    }
+  });
+  return {
+    stream: stream
+  };
+}
+
+const toChunkIterator = (body: any): AsyncIterator<Uint8Array> => {
+  const textEncoder = new TextEncoder();
+  const toBytes = (chunk: any): Uint8Array => {
+    if (typeof chunk === 'string') {
+      return textEncoder.encode(chunk);
+    } else if (chunk instanceof ArrayBuffer) {
+      return new Uint8Array(chunk);
+    } else if (ArrayBuffer.isView(chunk)) {
+      return new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+    }
+    throw new TypeError(`Unsupported request body chunk type: ${typeof chunk}`);
+  }
+  let readNext: () => Promise<IteratorResult<any>>;
+  if (typeof body.getReader === 'function') {
+    const reader = (body as ReadableStream).getReader();
+    readNext = () => reader.read() as Promise<IteratorResult<any>>;
+  } else if (typeof body[Symbol.asyncIterator] === 'function') {
+    const iterator: AsyncIterator<any> = body[Symbol.asyncIterator]();
+    readNext = () => iterator.next();
+  } else {
+    throw new TypeError(`Unsupported request body type: ${typeof body}`);
+  }
+  return {
+    next: async (): Promise<IteratorResult<Uint8Array>> => {
+      const result = await readNext();
+      return result.done ? { done: true, value: undefined } : { done: false, value: toBytes(result.value) };
+    }
+  };
+}
+
+const concatenateChunks = (chunks: Uint8Array[], byteCount: number): Uint8Array => {
+  const bytes = new Uint8Array(byteCount);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
@@ -0,0 +1,180 @@
+import {
+  Cassette,
+  CassetteEntry,
+  fromRecordedError,
+  getRecordedBodyBytes,
+  RecordedRequest,
+  toRecordedRequest
+} from './Cassette';
+import { FetchInterface } from './FetchInterface';
+import { UnmatchedCassetteRequestError } from './RateLimitingErrors';
+import { buildResponse } from './ResponseUtils';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+
+/**
+ * The parts of a request that must equal those of a recorded request for it to match.
+ */
+export type CassetteMatchField = 'method' | 'url' | 'origin' | 'path' | 'query' | 'body';
+
+/**
+ * Determines whether a request matches a recorded request.
+ */
+export type CassetteRequestMatcher = (request: RecordedRequest, recordedRequest: RecordedRequest) => boolean;
+
+export interface ReplayingFetchOptions {
+  /**
+   * How requests are matched with recorded requests. This defaults to `['method', 'url']`.
+   */
+  matchOn?: CassetteMatchField[] | CassetteRequestMatcher
+  /**
+   * If true, requests must be made in the order they were recorded. Otherwise, each request is
+   * answered by the first unused recorded request that it matches. This defaults to false.
+   */
+  strictOrder?: boolean
+  /**
+   * If true, the last matching recorded request is replayed again once all of the recorded
+   * requests a request matches have been used. This defaults to false.
+   */
+  allowReuse?: boolean
+  /**
+   * If true, each response is delayed by the duration that was recorded for it. This defaults to
+   * false.
+   */
+  replayLatency?: boolean
+}
+
+const getUrlPart = (url: string, part: 'origin' | 'path' | 'query'): string => {
+  try {
+    const parsedUrl = new URL(url);
+    return part === 'origin' ? parsedUrl.origin : part === 'path' ? parsedUrl.pathname : parsedUrl.search;
+  } catch (error) {
+    return url;
+  }
+}
+
+const buildFieldMatcher = (fields: CassetteMatchField[]): CassetteRequestMatcher => {
+  return (request: RecordedRequest, recordedRequest: RecordedRequest): boolean => {
+    return fields.every(field => {
+      if (field === 'method') {
+        return request.method === recordedRequest.method.toUpperCase();
+      } else if (field === 'url') {
+        return request.url === recordedRequest.url;
+      } else if (field === 'body') {
+        return (request.body ?? '') === (recordedRequest.body ?? '');
+      } else {
+        return getUrlPart(request.url, field) === getUrlPart(recordedRequest.url, field);
+      }
+    });
+  };
+}
+
+/**
+ * This implementation of `FetchInterface` replays a cassette recorded by `RecordingFetch` or
+ * converted from a HAR file such that recorded incidents, such as sequences of rate limited
+ * responses, can be reproduced offline. Requests that do not match the cassette are rejected with
+ * an `UnmatchedCassetteRequestError` rather than going to the network.
+ */
+export class ReplayingFetch implements FetchInterface {
+
+  private entries: CassetteEntry[];
+  private usedEntries: boolean[];
+  private matcher: CassetteRequestMatcher;
+  private strictOrder: boolean;
+  private allowReuse: boolean;
+  private replayLatency: boolean;
+  private sleeper: Sleeper = new TimeoutSleeper();
+
+  constructor(cassette: Cassette, options: ReplayingFetchOptions = {}) {
+    this.entries = cassette.entries;
+    this.usedEntries = cassette.entries.map(() => false);
+    const matchOn = options.matchOn ?? ['method', 'url'];
+    this.matcher = typeof matchOn === 'function' ? matchOn : buildFieldMatcher(matchOn);
+    this.strictOrder = options.strictOrder ?? false;
+    this.allowReuse = options.allowReuse ?? false;
+    this.replayLatency = options.replayLatency ?? false;
+  }
+
+  /**
+   * This method allows the sleeper used to replay latency to be injected.
+   */
+  public setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+  }
+
+  public fetch = async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const request = await toRecordedRequest(url, init);
+    const entry = this._takeEntry(request);
+    const signal = init?.signal ?? (typeof url === 'string' ? undefined : url.signal);
+    if (this.replayLatency && entry.durationMillis > 0) {
+      try {
+        await this.sleeper.sleep(entry.durationMillis, signal);
+      } catch (error) {
+        // Like a real fetch, reject with the reason the request was aborted for...
+        throw signal && signal.aborted ? signal.reason : error;
+      }
+    }
+    if (entry.error || !entry.response) {
+      throw fromRecordedError(entry.error ?? { name: 'TypeError', message: 'fetch failed' });
+    }
+    return buildResponse(request.url, {
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: entry.response.headers,
+      body: getRecordedBodyBytes(entry.response)
+    });
+  }
+
+  /**
+   * Returns the number of recorded requests that have not been replayed.
+   */
+  public getUnusedEntryCount = (): number => {
+    return this.usedEntries.filter(used => !used).length;
+  }
+
+  /**
+   * @throws Error if any recorded request has not been replayed.
+   */
+  public expectAllEntriesUsed = (): void => {
+    const unusedEntries = this.entries.filter((entry, index) => !this.usedEntries[index]);
+    if (unusedEntries.length) {
+      throw new Error(`Expected all recorded requests to be replayed, but these were not: ` +
+        `${unusedEntries.map(entry => `${entry.request.method} ${entry.request.url}`).join(', ')}.`);
+    }
+  }
+
+  private _takeEntry = (request: RecordedRequest): CassetteEntry => {
+    let index: number;
+    if (this.strictOrder) {
+      index = this.usedEntries.indexOf(false);
+      if (index < 0) {
+        index = this.allowReuse && this.entries.length && this.matcher(request, this.entries[this.entries.length - 1].request) ?
+          this.entries.length - 1 : -1;
+        if (index < 0) {
+          throw new UnmatchedCassetteRequestError(request.method, request.url, 'all recorded requests have been replayed.');
+        }
+      } else if (!this.matcher(request, this.entries[index].request)) {
+        const expectedRequest = this.entries[index].request;
+        throw new UnmatchedCassetteRequestError(request.method, request.url,
+          `the next recorded request is ${expectedRequest.method} ${expectedRequest.url}.`);
+      }
+    } else {
+      index = this.entries.findIndex((entry, entryIndex) => !this.usedEntries[entryIndex] && this.matcher(request, entry.request));
+      if (index < 0 && this.allowReuse) {
+        for (let entryIndex = this.entries.length - 1; entryIndex >= 0 && index < 0; entryIndex--) {
+          if (this.matcher(request, this.entries[entryIndex].request)) {
+            index = entryIndex;
+          }
+        }
+      }
+      if (index < 0) {
+        throw new UnmatchedCassetteRequestError(request.method, request.url,
+          this.entries.some(entry => this.matcher(request, entry.request)) ?
+            'all matching recorded requests have been replayed.' :
+            'no recorded request matches.');
+      }
+    }
+    this.usedEntries[index] = true;
+    return this.entries[index];
+  }
+
+}
@@ -0,0 +1,48 @@
+/**
+ * This class shares one in-flight request among identical concurrent requests. Each caller receives
+ * its own clone of the shared response such that every caller can read the body.
+ */
+export class RequestCoalescer {
+
+  private inFlightRequests = new Map<string, Promise<Response>>();
+
+  /**
+   * Sends the request through `send` unless an identical request is already in flight, in which
+   * case the caller shares its response.
+   * @param key the key identifying identical requests.
+   * @param send the function sending the request.
+   * @param onCoalesced called when the caller shares a request that is already in flight.
+   * @returns a clone of the shared response and whether the request was shared.
+   */
+  public coalesce = async (
+      key: string,
+      send: () => Promise<Response>,
+      onCoalesced?: () => void): Promise<{ response: Response, sharedResponse: Response }> => {
+    let inFlightRequest = this.inFlightRequests.get(key);
+    if (inFlightRequest) {
+      if (onCoalesced) {
+        onCoalesced();
+      }
+    } else {
+      inFlightRequest = send();
+      this.inFlightRequests.set(key, inFlightRequest);
+      const clearInFlightRequest = () => {
+        if (this.inFlightRequests.get(key) === inFlightRequest) {
+          this.inFlightRequests.delete(key);
+        }
+      };
+      inFlightRequest.then(clearInFlightRequest, clearInFlightRequest);
+    }
+    const sharedResponse = await inFlightRequest;
+    // The shared response is never read itself such that it can always be cloned...
+    return { response: sharedResponse.clone(), sharedResponse: sharedResponse };
+  }
+
+  /**
+   * Returns the number of distinct requests in flight.
+   */
+  public getInFlightCount = (): number => {
+    return this.inFlightRequests.size;
+  }
+
+}
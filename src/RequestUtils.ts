@@ -0,0 +1,99 @@
+import { anonymousPartitionKey, idempotencyKeyHeaderName, idempotentRequestMethods } from './RateLimitingConstants';
+
+/**
+ * This type abstracts the derivation of a key from a request such that state such as throttling
+ * buckets can be partitioned by something other than the request origin.
+ */
+export type RequestKeyExtractor = (url: RequestInfo, init?: RequestInit) => string;
+
+/**
+ * Returns the URL of the request as a string.
+ */
+export const getRequestUrl = (url: RequestInfo): string => {
+  return typeof url === 'string' ? url : url.url;
+}
+
+/**
+ * Returns the origin (scheme, host and port) of the request. If the URL can not be parsed, the
+ * URL itself is returned so that callers still get a stable key.
+ */
+export const getRequestOrigin = (url: RequestInfo): string => {
+  const requestUrl = getRequestUrl(url);
+  try {
+    return new URL(requestUrl).origin;
+  } catch (error) {
+    return requestUrl;
+  }
+}
+
+/**
+ * The default `RequestKeyExtractor` which keys requests by their origin.
+ */
+export const originRequestKeyExtractor: RequestKeyExtractor = (url: RequestInfo, init?: RequestInit): string => {
+  return getRequestOrigin(url);
+}
+
+/**
+ * This type abstracts the derivation of the cost of a request, e.g. the points a GraphQL query is
+ * charged or the number of calls a bulk request counts as.
+ */
+export type RequestCostExtractor = (url: RequestInfo, init?: RequestInit) => number;
+
+/**
+ * Returns the key of the state a request is tracked by within its partition. Requests without a
+ * partition are tracked by the key itself.
+ */
+export const getPartitionedKey = (key: string, partitionKey: undefined | string): string => {
+  return partitionKey === undefined ? key : `${partitionKey}|${key}`;
+}
+
+/**
+ * Computes the 64-bit FNV-1a hash of a string as a hexadecimal string.
+ */
+const hashString = (value: string): string => {
+  let hash = BigInt('0xcbf29ce484222325');
+  for (let index = 0; index < value.length; index++) {
+    hash ^= BigInt(value.charCodeAt(index));
+    hash = (hash * BigInt('0x100000001b3')) & BigInt('0xffffffffffffffff');
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * A `RequestKeyExtractor` which partitions requests by the credentials in their `Authorization`
+ * header. The credentials are hashed such that they do not leak into keys, logs and metrics.
+ */
+export const authorizationPartitionKeyExtractor: RequestKeyExtractor = (url: RequestInfo, init?: RequestInit): string => {
+  const authorization = getRequestHeader(url, init, 'Authorization');
+  return authorization ? `authorization:${hashString(authorization)}` : anonymousPartitionKey;
+}
+
+/**
+ * Returns the upper case method of the request.
+ */
+export const getRequestMethod = (url: RequestInfo, init?: RequestInit): string => {
+  if (init && init.method) {
+    return init.method.toUpperCase();
+  }
+  return typeof url === 'string' ? 'GET' : url.method.toUpperCase();
+}
+
+/**
+ * Returns the value of a request header. As with `fetch`, headers specified in `init` replace
+ * those of a `Request` object.
+ */
+export const getRequestHeader = (url: RequestInfo, init: undefined | RequestInit, name: string): null | string => {
+  if (init && init.headers !== undefined) {
+    return new Headers(init.headers).get(name);
+  }
+  return typeof url === 'string' ? null : url.headers.get(name);
+}
+
+/**
+ * Determines whether the request can safely be sent more than once. This is the case for requests
+ * with idempotent methods and requests carrying an `Idempotency-Key` header.
+ */
+export const isIdempotentRequest = (url: RequestInfo, init?: RequestInit): boolean => {
+  return idempotentRequestMethods.includes(getRequestMethod(url, init)) ||
+    !!getRequestHeader(url, init, idempotencyKeyHeaderName);
+}
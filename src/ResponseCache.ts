@@ -0,0 +1,400 @@
+import { cacheableStatusCodes, defaultMaxCacheEntryBytes, defaultMaxCacheSizeBytes } from './RateLimitingConstants';
+import { buildResponse, replaceResponseBody } from './ResponseUtils';
+
+/**
+ * A response held by a `ResponseCacheStore`.
+ */
+export interface CachedResponse {
+  url: string
+  status: number
+  statusText: string
+  headers: [string, string][]
+  body: Uint8Array
+  /**
+   * The time in milliseconds at which the response was received or last revalidated.
+   */
+  responseTime: number
+  /**
+   * The age of the response in milliseconds when it was received, as advertised by its `Age`
+   * header.
+   */
+  initialAgeMillis: number
+  /**
+   * The values of the request headers named by the `Vary` header of the response, or null for
+   * headers the request did not have.
+   */
+  varyHeaders: [string, null | string][]
+}
+
+/**
+ * This interface abstracts the storage of cached responses such that alternate stores, e.g. shared
+ * between processes, can be injected.
+ */
+export interface ResponseCacheStore {
+
+  get: (key: string) => Promise<undefined | CachedResponse>;
+
+  set: (key: string, cachedResponse: CachedResponse) => Promise<void>;
+
+  delete: (key: string) => Promise<void>;
+
+}
+
+/**
+ * Estimates the number of bytes a cached response occupies.
+ */
+export const getCachedResponseSize = (cachedResponse: CachedResponse): number => {
+  const headersSize = cachedResponse.headers.reduce((size, [name, value]) => size + name.length + value.length, 0);
+  return cachedResponse.body.byteLength + headersSize + cachedResponse.url.length;
+}
+
+/**
+ * This implementation of `ResponseCacheStore` keeps responses in memory and evicts the least
+ * recently used responses once their total size exceeds `maxSizeBytes`.
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+
+  private maxSizeBytes: number;
+  private sizeBytes = 0;
+  private cachedResponses = new Map<string, CachedResponse>();
+
+  constructor(maxSizeBytes: number = defaultMaxCacheSizeBytes) {
+    this.maxSizeBytes = maxSizeBytes;
+  }
+
+  public get = async (key: string): Promise<undefined | CachedResponse> => {
+    const cachedResponse = this.cachedResponses.get(key);
+    if (cachedResponse) {
+      // Re-insert the response to mark it as the most recently used...
+      this.cachedResponses.delete(key);
+      this.cachedResponses.set(key, cachedResponse);
+    }
+    return cachedResponse;
+  }
+
+  public set = async (key: string, cachedResponse: CachedResponse): Promise<void> => {
+    await this.delete(key);
+    const size = getCachedResponseSize(cachedResponse);
+    if (size > this.maxSizeBytes) {
+      return;
+    }
+    this.cachedResponses.set(key, cachedResponse);
+    this.sizeBytes += size;
+    for (const [leastRecentlyUsedKey, leastRecentlyUsedResponse] of this.cachedResponses) {
+      if (this.sizeBytes <= this.maxSizeBytes) {
+        break;
+      }
+      this.cachedResponses.delete(leastRecentlyUsedKey);
+      this.sizeBytes -= getCachedResponseSize(leastRecentlyUsedResponse);
+    }
+  }
+
+  public delete = async (key: string): Promise<void> => {
+    const cachedResponse = this.cachedResponses.get(key);
+    if (cachedResponse) {
+      this.cachedResponses.delete(key);
+      this.sizeBytes -= getCachedResponseSize(cachedResponse);
+    }
+  }
+
+  /**
+   * Returns the estimated number of bytes occupied by the cached responses.
+   */
+  public getSizeBytes = (): number => {
+    return this.sizeBytes;
+  }
+
+}
+
+/**
+ * Parses a `Cache-Control` header into a map of lower case directives to their values, or to true
+ * for directives without a value.
+ */
+export const parseCacheControl = (value: null | string): Map<string, true | string> => {
+  const directives = new Map<string, true | string>();
+  if (!value) {
+    return directives;
+  }
+  for (const part of value.split(',')) {
+    const [name, ...rest] = part.split('=');
+    const directiveName = name.trim().toLowerCase();
+    if (directiveName) {
+      directives.set(directiveName, rest.length ? rest.join('=').trim().replace(/^"(.*)"$/, '$1') : true);
+    }
+  }
+  return directives;
+}
+
+const getSecondsDirective = (directives: Map<string, true | string>, name: string): undefined | number => {
+  const value = directives.get(name);
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  return parseInt(value);
+}
+
+const getHeader = (headers: [string, string][], name: string): null | string => {
+  const header = headers.find(([headerName]) => headerName.toLowerCase() === name);
+  return header ? header[1] : null;
+}
+
+/**
+ * Computes how long a response stays fresh from its `Cache-Control` max-age directive or, failing
+ * that, its `Expires` header. Responses with a `no-cache` directive or without explicit freshness
+ * must be revalidated before they are reused.
+ */
+export const computeFreshnessLifetimeMillis = (headers: [string, string][]): number => {
+  const directives = parseCacheControl(getHeader(headers, 'cache-control'));
+  if (directives.has('no-cache')) {
+    return 0;
+  }
+  const maxAgeSeconds = getSecondsDirective(directives, 'max-age');
+  if (maxAgeSeconds !== undefined) {
+    return 1000 * maxAgeSeconds;
+  }
+  const expires = getHeader(headers, 'expires');
+  if (expires) {
+    const expiresTime = Date.parse(expires);
+    const date = Date.parse(getHeader(headers, 'date') ?? '');
+    if (isNaN(expiresTime) || isNaN(date)) {
+      return 0;
+    }
+    return Math.max(0, expiresTime - date);
+  }
+  return 0;
+}
+
+/**
+ * Computes the current age of a cached response in milliseconds.
+ */
+export const computeAgeMillis = (cachedResponse: CachedResponse, now: number): number => {
+  return cachedResponse.initialAgeMillis + Math.max(0, now - cachedResponse.responseTime);
+}
+
+const hasValidators = (headers: [string, string][]): boolean => {
+  return getHeader(headers, 'etag') !== null || getHeader(headers, 'last-modified') !== null;
+}
+
+/**
+ * The result of looking up a request in a `ResponseCache`.
+ */
+export interface CacheLookup {
+  /**
+   * The cached response matching the request or undefined if there is none.
+   */
+  cachedResponse: undefined | CachedResponse
+  /**
+   * Whether the cached response may be returned without revalidating it.
+   */
+  fresh: boolean
+}
+
+/**
+ * This class implements the caching rules of a private HTTP cache for GET requests on top of a
+ * `ResponseCacheStore`. Responses are stored when they carry explicit freshness or validators and
+ * stale responses are revalidated with `If-None-Match` and `If-Modified-Since` conditional requests.
+ */
+export class ResponseCache {
+
+  private cacheStore: ResponseCacheStore;
+  private maxEntryBytes: number;
+  private pendingStores = new Map<string, Promise<void>>();
+
+  /**
+   * @param store the store to keep the cached responses in.
+   * @param maxEntryBytes the maximum size of the body of a cached response.
+   */
+  constructor(store: ResponseCacheStore, maxEntryBytes: number = defaultMaxCacheEntryBytes) {
+    this.cacheStore = store;
+    this.maxEntryBytes = maxEntryBytes;
+  }
+
+  public setStore = (store: ResponseCacheStore): void => {
+    this.cacheStore = store;
+  }
+
+  /**
+   * Determines whether a GET request may be answered from the cache. Requests with `no-store`
+   * directives or their own conditional headers bypass the cache.
+   */
+  public isCacheableRequest = (requestHeaders: Headers, init?: RequestInit): boolean => {
+    if (init && init.cache === 'no-store') {
+      return false;
+    }
+    if (requestHeaders.has('If-None-Match') || requestHeaders.has('If-Modified-Since') || requestHeaders.has('Range')) {
+      return false;
+    }
+    return !parseCacheControl(requestHeaders.get('Cache-Control')).has('no-store');
+  }
+
+  /**
+   * Looks up the cached response matching a request. If a response for the same key is still being
+   * stored, the lookup waits for it.
+   */
+  public lookup = async (key: string, requestHeaders: Headers, now: number, init?: RequestInit): Promise<CacheLookup> => {
+    await this.pendingStores.get(key);
+    const cachedResponse = await this.cacheStore.get(key);
+    if (!cachedResponse || !this._matchesVaryHeaders(cachedResponse, requestHeaders)) {
+      return { cachedResponse: undefined, fresh: false };
+    }
+    const requestDirectives = parseCacheControl(requestHeaders.get('Cache-Control'));
+    const forceRevalidation = requestDirectives.has('no-cache') ||
+      getSecondsDirective(requestDirectives, 'max-age') === 0 ||
+      (init !== undefined && (init.cache === 'no-cache' || init.cache === 'reload'));
+    return {
+      cachedResponse: cachedResponse,
+      fresh: !forceRevalidation && computeAgeMillis(cachedResponse, now) < computeFreshnessLifetimeMillis(cachedResponse.headers)
+    };
+  }
+
+  /**
+   * Adds the conditional headers that revalidate a cached response to the headers of a request.
+   * @returns false if the cached response has no validators and can not be revalidated.
+   */
+  public addConditionalHeaders = (cachedResponse: CachedResponse, requestHeaders: Headers): boolean => {
+    const etag = getHeader(cachedResponse.headers, 'etag');
+    const lastModified = getHeader(cachedResponse.headers, 'last-modified');
+    if (etag !== null) {
+      requestHeaders.set('If-None-Match', etag);
+    }
+    if (lastModified !== null) {
+      requestHeaders.set('If-Modified-Since', lastModified);
+    }
+    return etag !== null || lastModified !== null;
+  }
+
+  /**
+   * Stores a response if the caching rules allow it. The body is copied into the cache in the
+   * background while the returned response, which replaces `response`, is read by the caller.
+   * Responses whose body exceeds `maxEntryBytes` are not stored. A response that is not stored
+   * leaves the existing cached response in place, since only unsafe requests invalidate it.
+   * @returns the response to return to the caller.
+   */
+  public store = (key: string, requestHeaders: Headers, response: Response, now: number): Response => {
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+    const directives = parseCacheControl(response.headers.get('Cache-Control'));
+    const vary = response.headers.get('Vary');
+    const contentLength = parseInt(response.headers.get('Content-Length') ?? '');
+    const storable = cacheableStatusCodes.includes(response.status) &&
+      !directives.has('no-store') &&
+      !(vary && vary.trim() === '*') &&
+      (!requestHeaders.has('Authorization') || directives.has('public') || directives.has('must-revalidate')) &&
+      (computeFreshnessLifetimeMillis(headers) > 0 || hasValidators(headers)) &&
+      !(contentLength > this.maxEntryBytes);
+    if (!storable) {
+      return response;
+    }
+    let returnedResponse = response;
+    let bodyPromise = Promise.resolve(new Uint8Array(0));
+    if (response.body) {
+      const [returnedBody, cachedBody] = response.body.tee();
+      returnedResponse = replaceResponseBody(response, returnedBody);
+      bodyPromise = this._readBody(cachedBody);
+    }
+    const pendingStore = bodyPromise.then(async (body) => {
+      if (body) {
+        await this.cacheStore.set(key, {
+          url: response.url,
+          status: response.status,
+          statusText: response.statusText,
+          headers: headers,
+          body: body,
+          responseTime: now,
+          initialAgeMillis: this._parseAgeMillis(response.headers.get('Age')),
+          varyHeaders: vary ?
+            vary.split(',').map(name => name.trim().toLowerCase()).filter(name => name).map(name => [name, requestHeaders.get(name)]) :
+            []
+        });
+      }
+    }).catch(() => {
+      // The response has already been returned, so a body that fails to download or a store that
+      // fails to save it only means the response is not cached...
+    });
+    const removePendingStore = () => {
+      if (this.pendingStores.get(key) === pendingStore) {
+        this.pendingStores.delete(key);
+      }
+    };
+    this.pendingStores.set(key, pendingStore);
+    pendingStore.then(removePendingStore);
+    return returnedResponse;
+  }
+
+  /**
+   * Updates a cached response with the headers of a *304 Not Modified* response to its revalidation.
+   * @returns the updated cached response.
+   */
+  public refresh = async (key: string, cachedResponse: CachedResponse, notModifiedResponse: Response, now: number): Promise<CachedResponse> => {
+    const headers = new Map(cachedResponse.headers.map(([name, value]) => [name.toLowerCase(), value]));
+    notModifiedResponse.headers.forEach((value, name) => {
+      if (name.toLowerCase() !== 'content-length') {
+        headers.set(name.toLowerCase(), value);
+      }
+    });
+    const refreshedResponse: CachedResponse = {
+      ...cachedResponse,
+      headers: Array.from(headers.entries()),
+      responseTime: now,
+      initialAgeMillis: this._parseAgeMillis(notModifiedResponse.headers.get('Age'))
+    };
+    await this.cacheStore.set(key, refreshedResponse);
+    return refreshedResponse;
+  }
+
+  public invalidate = async (key: string): Promise<void> => {
+    await this.cacheStore.delete(key);
+  }
+
+  /**
+   * Builds a new `Response` from a cached response with an `Age` header reflecting its current age.
+   */
+  public toResponse = (cachedResponse: CachedResponse, now: number): Response => {
+    const headers = cachedResponse.headers.filter(([name]) => name.toLowerCase() !== 'age');
+    headers.push(['age', `${Math.floor(computeAgeMillis(cachedResponse, now) / 1000)}`]);
+    return buildResponse(cachedResponse.url, {
+      status: cachedResponse.status,
+      statusText: cachedResponse.statusText,
+      headers: headers,
+      body: cachedResponse.body
+    });
+  }
+
+  /**
+   * Reads a body to the end unless it exceeds `maxEntryBytes`, in which case reading stops.
+   * @returns the body or undefined if it is too large to be cached.
+   */
+  private _readBody = async (body: ReadableStream<Uint8Array>): Promise<undefined | Uint8Array> => {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      size += value.byteLength;
+      if (size > this.maxEntryBytes) {
+        await reader.cancel();
+        return undefined;
+      }
+      chunks.push(value);
+    }
+    const bytes = new Uint8Array(size);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return bytes;
+  }
+
+  private _matchesVaryHeaders = (cachedResponse: CachedResponse, requestHeaders: Headers): boolean => {
+    return cachedResponse.varyHeaders.every(([name, value]) => requestHeaders.get(name) === value);
+  }
+
+  private _parseAgeMillis = (age: null | string): number => {
+    return age && /^\d+$/.test(age.trim()) ? 1000 * parseInt(age.trim()) : 0;
+  }
+
+}
@@ -0,0 +1,105 @@
+/**
+ * The statuses of responses that never have a body.
+ */
+const nullBodyStatuses = [101, 204, 205, 304];
+
+/**
+ * The parts of a response built by `buildResponse`.
+ */
+export interface ResponseParts {
+  status: number
+  statusText?: string
+  headers?: HeadersInit
+  body?: null | BodyInit
+}
+
+/**
+ * Builds a real `Response` object. Unlike the `Response` constructor, this allows the URL reported
+ * through `Response.url` to be specified, and it drops the body of statuses that must not have one.
+ * @param url the URL to report through `Response.url`.
+ * @param parts the status, headers and body of the response.
+ */
+export const buildResponse = (url: string, parts: ResponseParts): Response => {
+  const response = new Response(nullBodyStatuses.includes(parts.status) ? null : parts.body, {
+    status: parts.status,
+    statusText: parts.statusText,
+    headers: parts.headers
+  });
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
+
+/**
+ * Returns a response equivalent to `response` but with the given body, which is typically derived
+ * from the body of `response`.
+ * @param response the response to copy the status, headers, URL and redirection flag of.
+ * @param body the body of the new response.
+ */
+export const replaceResponseBody = (response: Response, body: ReadableStream<Uint8Array>): Response => {
+  const replacedResponse = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+  Object.defineProperty(replacedResponse, 'url', { value: response.url });
+  Object.defineProperty(replacedResponse, 'redirected', { value: response.redirected });
+  return replacedResponse;
+}
+
+/**
+ * The `FinalizationRegistry` of the runtime, if it has one, which calls the callback registered
+ * with each collected response.
+ */
+const finalizationRegistry: undefined | FinalizationRegistry<() => void> =
+  typeof FinalizationRegistry !== 'undefined' ?
+    new FinalizationRegistry<() => void>((callback: () => void) => callback()) :
+    undefined;
+
+/**
+ * Returns a response equivalent to `response` that calls `callback` once its body has been read to
+ * the end, has been cancelled or has failed, or once the response has been garbage collected without
+ * its body being read. If the response has no body, `callback` is called immediately and the
+ * response is returned as it is.
+ * @param response the response whose body is watched.
+ * @param callback the function to call once, e.g. to release resources held for reading the body.
+ */
+export const onResponseBodyReleased = (response: Response, callback: () => void): Response => {
+  if (!response.body || nullBodyStatuses.includes(response.status)) {
+    callback();
+    return response;
+  }
+  let released = false;
+  const release = () => {
+    if (!released) {
+      released = true;
+      callback();
+    }
+  };
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel: async (reason) => {
+      release();
+      await reader.cancel(reason);
+    }
+  });
+  const watchedResponse = replaceResponseBody(response, body);
+  if (finalizationRegistry) {
+    // The callback must not refer to the watched response, otherwise it would never be collected...
+    finalizationRegistry.register(watchedResponse, release);
+  }
+  return watchedResponse;
+}
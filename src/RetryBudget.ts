@@ -0,0 +1,125 @@
+import { defaultRetryBudgetWindowMillis } from './RateLimitingConstants';
+import { RetryBudgetOptions } from './RateLimitingHandlingOptions';
+import { Clock, SystemClock } from './Clock';
+
+/**
+ * This interface abstracts the budgeting of retries such that a budget can be shared across
+ * requests and `RateLimitingFetch` instances and alternate implementations can be injected.
+ */
+export interface RetryBudget {
+
+  /**
+   * This method is called when the first attempt of a request is sent.
+   * @param partitionKey the partition of the request, if any.
+   */
+  recordRequest: (partitionKey?: string) => void;
+
+  /**
+   * This method is called before a retry is scheduled and withdraws the retry from the budget.
+   * @param partitionKey the partition of the request, if any.
+   * @returns true if the retry may proceed or false if the budget is spent.
+   */
+  tryWithdrawRetry: (partitionKey?: string) => boolean;
+
+  /**
+   * This optional method allows the clock to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+
+}
+
+/**
+ * This implementation of `RetryBudget` lets every request through.
+ */
+export class UnlimitedRetryBudget implements RetryBudget {
+
+  public recordRequest = (partitionKey?: string): void => {
+  }
+
+  public tryWithdrawRetry = (partitionKey?: string): boolean => {
+    return true;
+  }
+
+}
+
+interface RetryBudgetWindow {
+  requestTimes: number[]
+  retryTimes: number[]
+}
+
+/**
+ * This class limits the retries within a sliding window to `retryRatio` of the requests within
+ * the window plus a floor of `minRetriesPerSecond` so that retries are still possible when the
+ * request rate is low. This is the retry budget scheme used by gRPC and Finagle. Each partition
+ * has a budget of its own.
+ */
+export class DefaultRetryBudget implements RetryBudget {
+
+  private retryRatio: number;
+  private minRetriesPerSecond: number;
+  private windowMillis: number;
+  private windows = new Map<undefined | string, RetryBudgetWindow>();
+  private clock: Clock = new SystemClock();
+
+  constructor(options: RetryBudgetOptions) {
+    this.retryRatio = options.retryRatio;
+    this.minRetriesPerSecond = options.minRetriesPerSecond ?? 0;
+    this.windowMillis = options.windowMillis ?? defaultRetryBudgetWindowMillis;
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  public recordRequest = (partitionKey?: string): void => {
+    const now = this.clock.now();
+    this._getWindow(partitionKey, now).requestTimes.push(now);
+  }
+
+  public tryWithdrawRetry = (partitionKey?: string): boolean => {
+    const now = this.clock.now();
+    const window = this._getWindow(partitionKey, now);
+    if (window.retryTimes.length + 1 > this.getAllowedRetries(partitionKey)) {
+      return false;
+    }
+    window.retryTimes.push(now);
+    return true;
+  }
+
+  /**
+   * Returns the number of retries the budget allows within the current window.
+   * @param partitionKey the partition whose budget is returned, if any.
+   */
+  public getAllowedRetries = (partitionKey?: string): number => {
+    const floor = this.minRetriesPerSecond * this.windowMillis / 1000;
+    const window = this.windows.get(partitionKey);
+    return floor + this.retryRatio * (window ? window.requestTimes.length : 0);
+  }
+
+  /**
+   * Returns the window of a partition with the requests and retries that left it removed.
+   */
+  private _getWindow = (partitionKey: undefined | string, now: number): RetryBudgetWindow => {
+    let window = this.windows.get(partitionKey);
+    if (!window) {
+      window = { requestTimes: [], retryTimes: [] };
+      this.windows.set(partitionKey, window);
+    }
+    const windowStartTime = now - this.windowMillis;
+    while (window.requestTimes.length && window.requestTimes[0] <= windowStartTime) {
+      window.requestTimes.shift();
+    }
+    while (window.retryTimes.length && window.retryTimes[0] <= windowStartTime) {
+      window.retryTimes.shift();
+    }
+    return window;
+  }
+
+}
+
+/**
+ * Builds the `RetryBudget` specified by the options.
+ */
+export const buildRetryBudget = (options: undefined | RetryBudgetOptions): RetryBudget => {
+  return options ? new DefaultRetryBudget(options) : new UnlimitedRetryBudget();
+}
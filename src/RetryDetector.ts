@@ -1,9 +1,15 @@
 import { RateLimitingHandlingOptions } from './RateLimitingHandlingOptions';
 import { RetryInfo } from './RetryInfo';
+import { parseRateLimitQuota, parseRetryAfterMillis } from './RateLimitHeaders';
+import { BackoffStrategy, buildBackoffStrategy } from './BackoffStrategy';
+import { MathRandom, Random } from './Random';
+import { isRetryableNetworkError } from './NetworkErrors';
+import { isIdempotentRequest } from './RequestUtils';
+import { ConsoleLogger, Logger } from './Logger';
+import { Clock, SystemClock } from './Clock';
 import {
-  internalServerErrorStatusCode,
+  defaultRetryableStatusCodes,
   minJitterMultiplier,
-  serviceUnavailableStatusCode,
   tooManyRequestsStatusCode
 } from './RateLimitingConstants';
 
@@ -29,55 +35,193 @@ export interface RetryDetector {
     response: Response
   ) => undefined | RetryInfo;
 
+  /**
+   * This optional method is responsible for the detection of whether a request that failed by
+   * throwing an error, such as a network failure, should be retried. If it is not implemented,
+   * such errors are never retried.
+   * @param remainingRetries the number of retries remaining.
+   * @param lastRetryDelayMillis the delay before the previous retry or 0 if there has been no retry.
+   * @param options the options the request is being handled with.
+   * @param error the error thrown by the fetch implementation.
+   * @param url the URL of the failed request.
+   * @param init the options of the failed request.
+   * @returns an instance of RetryInfo if it is necessary to retry the request or undefined if no
+   * retry is necessary.
+   */
+  computeErrorRetryInfo?: (
+    remainingRetries: number,
+    lastRetryDelayMillis: number,
+    options: RateLimitingHandlingOptions,
+    error: any,
+    url: RequestInfo,
+    init?: RequestInit
+  ) => undefined | RetryInfo;
+
+  /**
+   * This optional method determines whether a response calls for a retry, regardless of the retries
+   * remaining. It must be free of side effects such as drawing jitter or logging since it is used to
+   * tell whether a request ran out of retries. If it is not implemented, `computeRetryInfo` is
+   * called with a retry remaining instead.
+   * @param options the options the request is being handled with.
+   * @param response the response to the request.
+   */
+  isRetryableResponse?: (options: RateLimitingHandlingOptions, response: Response) => boolean;
+
+  /**
+   * This optional method is the counterpart of `isRetryableResponse` for requests that failed by
+   * throwing an error.
+   * @param options the options the request is being handled with.
+   * @param error the error thrown by the fetch implementation.
+   * @param url the URL of the failed request.
+   * @param init the options of the failed request.
+   */
+  isRetryableError?: (options: RateLimitingHandlingOptions, error: any, url: RequestInfo, init?: RequestInit) => boolean;
+
+  /**
+   * This optional method allows the logger to be injected.
+   * @param logger the implementation of `Logger` to be injected.
+   */
+  setLogger?: (logger: Logger) => void;
+
+  /**
+   * This optional method allows the clock used to interpret `Retry-After` dates to be injected.
+   * @param clock the implementation of `Clock` to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+
+  /**
+   * This optional method allows the source of jitter to be injected.
+   * @param random the implementation of `Random` to be injected.
+   */
+  setRandom?: (random: Random) => void;
+
 }
 
 export class DefaultRetryDetector implements RetryDetector {
 
+  random: Random = new MathRandom();
+  backoffStrategy: undefined | BackoffStrategy = undefined;
+  logger: Logger = new ConsoleLogger();
+  clock: Clock = new SystemClock();
+
+  /**
+   * This method allows an implementation of `Clock` to be injected.
+   * @param clock the implementation of `Clock` to be injected.
+   */
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  /**
+   * This method allows an implementation of `Random` to be injected such that jitter is deterministic.
+   * @param random the implementation of `Random` to be injected.
+   */
+  public setRandom = (random: Random): void => {
+    this.random = random;
+  }
+
+  /**
+   * This method allows an implementation of `Logger` to be injected.
+   * @param logger the implementation of `Logger` to be injected.
+   */
+  public setLogger = (logger: Logger): void => {
+    this.logger = logger;
+  }
+
+  /**
+   * This method allows an implementation of `BackoffStrategy` to be injected. By default, the
+   * strategy is built from the `backoffStrategy` options.
+   * @param backoffStrategy the implementation of `BackoffStrategy` to be injected.
+   */
+  public setBackoffStrategy = (backoffStrategy: BackoffStrategy): void => {
+    this.backoffStrategy = backoffStrategy;
+  }
+
   computeRetryInfo = (
       remainingRetries: number,
       lastRetryDelayMillis: number,
       options: RateLimitingHandlingOptions,
       response: Response): undefined | RetryInfo => {
     const statusCode = response.status;
-    const responseNeedsRetry =
-      statusCode === tooManyRequestsStatusCode ||
-      statusCode === internalServerErrorStatusCode ||
-      statusCode === serviceUnavailableStatusCode;
-    if (responseNeedsRetry) {
-      let unjitteredRetryDelayMillis = -1;
-      let retryAfterHeader: string | undefined = response.headers.get('Retry-After');
-      if (retryAfterHeader) {
-        try {
-          const retryAfterSeconds = parseInt(retryAfterHeader.trim());
-          unjitteredRetryDelayMillis = 1000 * retryAfterSeconds;
-        } catch (error) {
-          console.warn(`Unable to parse Retry-After header: ${retryAfterHeader}`);
-        }
-      } else {
-        if (lastRetryDelayMillis > 0) {
-          unjitteredRetryDelayMillis = Math.min(options.backoffMultiplier * lastRetryDelayMillis, options.maxRetryDelayMillis);
-        } else {
-          unjitteredRetryDelayMillis = options.initialRetryDelayMillis;
+    if (this.isRetryableResponse(options, response)) {
+      let retryDelayMillis: number;
+      const now = this.clock.now();
+      const retryAfterHeader: null | string = response.headers.get('Retry-After');
+      let serverRetryDelayMillis = parseRetryAfterMillis(response.headers, now);
+      if (retryAfterHeader && serverRetryDelayMillis === undefined) {
+        this.logger.warn('Unable to parse Retry-After header', {
+          url: response.url,
+          status: statusCode,
+          retryAfter: retryAfterHeader
+        });
+      }
+      if (serverRetryDelayMillis === undefined && statusCode === tooManyRequestsStatusCode) {
+        const quota = parseRateLimitQuota(response.headers, now);
+        if (quota && quota.remaining === 0 && quota.resetDelayMillis !== undefined) {
+          serverRetryDelayMillis = quota.resetDelayMillis;
         }
       }
-      if (remainingRetries > 0 && unjitteredRetryDelayMillis > 0) {
+      if (serverRetryDelayMillis !== undefined) {
+        // Jitter above the delay dictated by the server, but never below it...
         const jitterMultiplier = this.randomInRange(minJitterMultiplier, options.maxJitterMultiplier);
-        const retryDelayMillis = unjitteredRetryDelayMillis * jitterMultiplier;
-        const retryInfo: RetryInfo = {
-          remainingRetries: remainingRetries - 1,
-          retryDelayMillis: retryDelayMillis
-        }
-        return retryInfo;
+        retryDelayMillis = serverRetryDelayMillis * jitterMultiplier;
       } else {
-        return undefined;
+        retryDelayMillis = this._computeBackoffDelayMillis(remainingRetries, lastRetryDelayMillis, options);
       }
+      return this._buildRetryInfo(remainingRetries, retryDelayMillis);
     } else {
       return undefined;
     }
   }
 
+  computeErrorRetryInfo = (
+      remainingRetries: number,
+      lastRetryDelayMillis: number,
+      options: RateLimitingHandlingOptions,
+      error: any,
+      url: RequestInfo,
+      init?: RequestInit): undefined | RetryInfo => {
+    if (this.isRetryableError(options, error, url, init)) {
+      const retryDelayMillis = this._computeBackoffDelayMillis(remainingRetries, lastRetryDelayMillis, options);
+      return this._buildRetryInfo(remainingRetries, retryDelayMillis);
+    } else {
+      return undefined;
+    }
+  }
+
+  isRetryableResponse = (options: RateLimitingHandlingOptions, response: Response): boolean => {
+    return (options.retryableStatusCodes ?? defaultRetryableStatusCodes).includes(response.status);
+  }
+
+  isRetryableError = (options: RateLimitingHandlingOptions, error: any, url: RequestInfo, init?: RequestInit): boolean => {
+    return options.retryNetworkErrors !== false &&
+      isRetryableNetworkError(error) &&
+      isIdempotentRequest(url, init);
+  }
+
   randomInRange = (min: number, max: number): number => {
-    return min + Math.random() * (max - min);
+    return min + this.random.random() * (max - min);
+  }
+
+  private _computeBackoffDelayMillis = (
+      remainingRetries: number,
+      lastRetryDelayMillis: number,
+      options: RateLimitingHandlingOptions): number => {
+    const backoffStrategy = this.backoffStrategy ?? buildBackoffStrategy(options.backoffStrategy, this.random);
+    const retryNumber = options.maxRetries - remainingRetries + 1;
+    return backoffStrategy.computeRetryDelayMillis(retryNumber, lastRetryDelayMillis, options);
+  }
+
+  private _buildRetryInfo = (remainingRetries: number, retryDelayMillis: number): undefined | RetryInfo => {
+    if (remainingRetries > 0 && retryDelayMillis > 0) {
+      const retryInfo: RetryInfo = {
+        remainingRetries: remainingRetries - 1,
+        retryDelayMillis: retryDelayMillis
+      }
+      return retryInfo;
+    } else {
+      return undefined;
+    }
   }
 
 }
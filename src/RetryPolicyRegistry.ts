@@ -0,0 +1,101 @@
+import {
+  RateLimitingHandlingOptions,
+  RetryPolicy,
+  RetryPolicyOptions
+} from './RateLimitingHandlingOptions';
+import { getRequestMethod, getRequestUrl } from './RequestUtils';
+
+/**
+ * Converts a path pattern in which `*` matches within a path segment and `**` matches across path
+ * segments into a regular expression matching the whole path.
+ */
+export const pathPatternToRegExp = (pathPattern: string): RegExp => {
+  const source = pathPattern
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+interface CompiledPolicy {
+  policy: RetryPolicy
+  pathRegExp: undefined | RegExp
+  methods: undefined | string[]
+}
+
+/**
+ * This class holds the retry policies of a `RateLimitingFetch` instance and resolves the options
+ * that apply to each request. Policies are matched in the order they were added and only the first
+ * matching policy applies.
+ */
+export class RetryPolicyRegistry {
+
+  private policies: CompiledPolicy[] = [];
+
+  constructor(policies: RetryPolicy[] = []) {
+    policies.forEach(policy => this.addPolicy(policy));
+  }
+
+  public addPolicy = (policy: RetryPolicy): void => {
+    const path = policy.match.path;
+    this.policies.push({
+      policy: policy,
+      pathRegExp: path === undefined ? undefined : typeof path === 'string' ? pathPatternToRegExp(path) : path,
+      methods: policy.match.methods ? policy.match.methods.map(method => method.toUpperCase()) : undefined
+    });
+  }
+
+  public getPolicyCount = (): number => {
+    return this.policies.length;
+  }
+
+  /**
+   * Returns the first policy matching the request or undefined if no policy matches.
+   */
+  public findPolicy = (url: RequestInfo, init?: RequestInit): undefined | RetryPolicy => {
+    if (!this.policies.length) {
+      return undefined;
+    }
+    let requestUrl: URL;
+    try {
+      requestUrl = new URL(getRequestUrl(url));
+    } catch (error) {
+      return undefined;
+    }
+    const method = getRequestMethod(url, init);
+    const compiledPolicy = this.policies.find(compiledPolicy => this._matches(compiledPolicy, requestUrl, method));
+    return compiledPolicy ? compiledPolicy.policy : undefined;
+  }
+
+  /**
+   * Resolves the options for a request by applying the options of the first matching policy and
+   * then any per-call overrides to the base options.
+   */
+  public resolveOptions = (
+      baseOptions: RateLimitingHandlingOptions,
+      url: RequestInfo,
+      init?: RequestInit,
+      overrides?: RetryPolicyOptions): RateLimitingHandlingOptions => {
+    const policy = this.findPolicy(url, init);
+    if (!policy && !overrides) {
+      return baseOptions;
+    }
+    return {
+      ...baseOptions,
+      ...(policy ? policy.options : {}),
+      ...overrides
+    };
+  }
+
+  private _matches = (compiledPolicy: CompiledPolicy, requestUrl: URL, method: string): boolean => {
+    const match = compiledPolicy.policy.match;
+    if (match.origin !== undefined && new URL(match.origin).origin !== requestUrl.origin) {
+      return false;
+    }
+    if (compiledPolicy.pathRegExp && !compiledPolicy.pathRegExp.test(requestUrl.pathname)) {
+      return false;
+    }
+    return !compiledPolicy.methods || compiledPolicy.methods.includes(method);
+  }
+
+}
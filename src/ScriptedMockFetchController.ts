@@ -0,0 +1,318 @@
+import { MockFetchController, MockFetchInfo } from './MockingFetch';
+import { UnmatchedMockRequestError } from './RateLimitingErrors';
+import { getRequestMethod, getRequestUrl } from './RequestUtils';
+import { Clock, SystemClock } from './Clock';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+import { buildResponse } from './ResponseUtils';
+
+/**
+ * A request received by `ScriptedMockFetchController`.
+ */
+export interface ReceivedRequest {
+  url: string
+  method: string
+  headers: Headers
+  /**
+   * The request body decoded as text or undefined if the request has no body.
+   */
+  body: undefined | string
+  /**
+   * The time the request was received in milliseconds.
+   */
+  time: number
+}
+
+/**
+ * Determines the requests a script applies to. A request matches if it matches every criterion
+ * that is specified. Strings must match the whole URL.
+ */
+export interface MockRequestMatcher {
+  url?: string | RegExp | ((url: string) => boolean)
+  method?: string
+}
+
+/**
+ * Describes a scripted response.
+ */
+export interface MockResponseSpec {
+  /**
+   * The response status code. This defaults to 200.
+   */
+  status?: number
+  statusText?: string
+  headers?: HeadersInit
+  /**
+   * The response body. Objects other than strings and byte arrays are serialised as JSON with a
+   * `Content-Type` of `application/json` unless another content type is specified.
+   */
+  body?: any
+  /**
+   * The number of milliseconds to wait before responding. Aborting the request's signal while
+   * waiting rejects the request.
+   */
+  delayMillis?: number
+  /**
+   * If specified, the request is rejected with this error rather than receiving a response, e.g.
+   * to simulate a connection reset.
+   */
+  error?: any
+}
+
+export type MockResponder = MockResponseSpec | ((request: ReceivedRequest) => MockResponseSpec);
+
+interface Script {
+  matcher: MockRequestMatcher
+  responders: MockResponder[]
+  persistent: boolean
+  matchCount: number
+}
+
+/**
+ * This class allows the responses of a sequence of requests to be scripted.
+ */
+export class MockResponseScript {
+
+  private script: Script;
+
+  constructor(script: Script) {
+    this.script = script;
+  }
+
+  /**
+   * Adds a response to the end of the sequence.
+   */
+  public respondWith = (responder: MockResponder): MockResponseScript => {
+    this.script.responders.push(responder);
+    return this;
+  }
+
+  /**
+   * A synonym of `respondWith` that reads better for the second and subsequent responses.
+   */
+  public thenRespondWith = (responder: MockResponder): MockResponseScript => {
+    return this.respondWith(responder);
+  }
+
+  /**
+   * Makes the last response of the sequence repeat indefinitely rather than the script being used
+   * up once every response has been returned.
+   */
+  public persist = (): MockResponseScript => {
+    this.script.persistent = true;
+    return this;
+  }
+
+}
+
+/**
+ * This implementation of `MockFetchController` acts as a fake backend. Ordered sequences of
+ * responses are scripted per URL and method, requests are answered with real `Response` objects,
+ * and requests that no script matches are rejected with an `UnmatchedMockRequestError` rather than
+ * going to the network. Received requests are recorded so that tests can make assertions about
+ * them and their timing.
+ */
+export class ScriptedMockFetchController implements MockFetchController {
+
+  private scripts: Script[] = [];
+  private receivedRequests: ReceivedRequest[] = [];
+  private clock: Clock = new SystemClock();
+  private sleeper: Sleeper = new TimeoutSleeper();
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  /**
+   * This method allows the sleeper used for `delayMillis` to be injected.
+   */
+  public setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+  }
+
+  /**
+   * Starts a script for the requests matching `matcher`. Scripts are matched in the order they were
+   * added and a script that has returned all of its responses no longer matches.
+   */
+  public when = (matcher: MockRequestMatcher): MockResponseScript => {
+    const script: Script = {
+      matcher: matcher,
+      responders: [],
+      persistent: false,
+      matchCount: 0
+    };
+    this.scripts.push(script);
+    return new MockResponseScript(script);
+  }
+
+  /**
+   * Discards all scripts and received requests.
+   */
+  public reset = (): void => {
+    this.scripts = [];
+    this.receivedRequests = [];
+  }
+
+  /**
+   * This controller answers requests through `handleRequest`, so it never supplies mock fetch info.
+   */
+  public getMockFetchInfo = (timeOfLastRateLimit: number): undefined | MockFetchInfo => {
+    return undefined;
+  }
+
+  public handleRequest = async (url: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const receivedRequest = await this._toReceivedRequest(url, init);
+    this.receivedRequests.push(receivedRequest);
+    const script = this.scripts.find(script => this._isUsable(script) && this._matches(script.matcher, receivedRequest));
+    if (!script) {
+      throw new UnmatchedMockRequestError(receivedRequest.method, receivedRequest.url, this.scripts.map(this._describeScript));
+    }
+    const responder = script.responders[Math.min(script.matchCount, script.responders.length - 1)];
+    script.matchCount++;
+    const responseSpec = typeof responder === 'function' ? responder(receivedRequest) : responder;
+    if (responseSpec.delayMillis) {
+      await this._delay(responseSpec.delayMillis, init?.signal ?? (typeof url === 'string' ? undefined : url.signal));
+    }
+    if (responseSpec.error !== undefined) {
+      throw responseSpec.error;
+    }
+    return buildMockResponse(receivedRequest.url, responseSpec);
+  }
+
+  /**
+   * Returns the requests received so far, optionally filtered by a matcher.
+   */
+  public getReceivedRequests = (matcher?: MockRequestMatcher): ReceivedRequest[] => {
+    return matcher ?
+      this.receivedRequests.filter(receivedRequest => this._matches(matcher, receivedRequest)) :
+      [...this.receivedRequests];
+  }
+
+  /**
+   * Returns the number of milliseconds between consecutive received requests, optionally filtered
+   * by a matcher.
+   */
+  public getRequestIntervalsMillis = (matcher?: MockRequestMatcher): number[] => {
+    const receivedRequests = this.getReceivedRequests(matcher);
+    return receivedRequests.slice(1).map((receivedRequest, index) => receivedRequest.time - receivedRequests[index].time);
+  }
+
+  /**
+   * @throws Error if the number of received requests matching `matcher` is not `expectedCount`.
+   */
+  public expectRequestCount = (expectedCount: number, matcher?: MockRequestMatcher): void => {
+    const receivedRequests = this.getReceivedRequests(matcher);
+    if (receivedRequests.length !== expectedCount) {
+      throw new Error(`Expected ${expectedCount} requests${this._describeMatcherSuffix(matcher)}, but received ${receivedRequests.length}: ` +
+        `${receivedRequests.map(receivedRequest => `${receivedRequest.method} ${receivedRequest.url}`).join(', ') || 'none'}.`);
+    }
+  }
+
+  /**
+   * @throws Error if any consecutive received requests matching `matcher` were less than
+   * `minIntervalMillis` apart.
+   */
+  public expectMinRequestIntervalMillis = (minIntervalMillis: number, matcher?: MockRequestMatcher): void => {
+    const intervals = this.getRequestIntervalsMillis(matcher);
+    const index = intervals.findIndex(interval => interval < minIntervalMillis);
+    if (index >= 0) {
+      throw new Error(`Expected requests${this._describeMatcherSuffix(matcher)} to be at least ${minIntervalMillis}ms apart, ` +
+        `but requests ${index + 1} and ${index + 2} were ${intervals[index]}ms apart.`);
+    }
+  }
+
+  /**
+   * @throws Error if any script has responses that have not been returned.
+   */
+  public expectAllResponsesUsed = (): void => {
+    const unusedScripts = this.scripts.filter(script => script.matchCount < script.responders.length);
+    if (unusedScripts.length) {
+      throw new Error(`Expected all scripted responses to be used, but these scripts have unused responses: ` +
+        `${unusedScripts.map(this._describeScript).join('; ')}.`);
+    }
+  }
+
+  private _isUsable = (script: Script): boolean => {
+    return script.responders.length > 0 && (script.persistent || script.matchCount < script.responders.length);
+  }
+
+  private _matches = (matcher: MockRequestMatcher, receivedRequest: ReceivedRequest): boolean => {
+    if (matcher.method !== undefined && matcher.method.toUpperCase() !== receivedRequest.method) {
+      return false;
+    }
+    const urlMatcher = matcher.url;
+    if (urlMatcher === undefined) {
+      return true;
+    } else if (typeof urlMatcher === 'string') {
+      return urlMatcher === receivedRequest.url;
+    } else if (urlMatcher instanceof RegExp) {
+      return urlMatcher.test(receivedRequest.url);
+    } else {
+      return urlMatcher(receivedRequest.url);
+    }
+  }
+
+  private _describeScript = (script: Script): string => {
+    return `${this._describeMatcher(script.matcher)} (${script.matchCount} of ${script.responders.length} responses used` +
+      `${script.persistent ? ', persistent' : ''})`;
+  }
+
+  private _describeMatcher = (matcher: MockRequestMatcher): string => {
+    const url = matcher.url === undefined ? '*' : typeof matcher.url === 'function' ? '<function>' : `${matcher.url}`;
+    return `${matcher.method ? matcher.method.toUpperCase() : '*'} ${url}`;
+  }
+
+  private _describeMatcherSuffix = (matcher?: MockRequestMatcher): string => {
+    return matcher ? ` matching ${this._describeMatcher(matcher)}` : '';
+  }
+
+  private _toReceivedRequest = async (url: RequestInfo, init?: RequestInit): Promise<ReceivedRequest> => {
+    const method = getRequestMethod(url, init);
+    const headers = new Headers(init?.headers ?? (typeof url === 'string' ? undefined : url.headers));
+    let body: undefined | string = undefined;
+    if (init && init.body !== undefined && init.body !== null) {
+      body = await new Response(init.body).text();
+    } else if (typeof url !== 'string' && url.body !== null && !url.bodyUsed) {
+      body = await url.clone().text();
+    }
+    return {
+      url: getRequestUrl(url),
+      method: method,
+      headers: headers,
+      body: body,
+      time: this.clock.now()
+    };
+  }
+
+  private _delay = async (millis: number, signal?: AbortSignal): Promise<void> => {
+    try {
+      await this.sleeper.sleep(millis, signal);
+    } catch (error) {
+      // Like a real fetch, reject with the reason the request was aborted for...
+      throw signal && signal.aborted ? signal.reason : error;
+    }
+  }
+
+}
+
+/**
+ * Builds a real `Response` object from a response spec.
+ * @param url the URL to report through `Response.url`.
+ * @param responseSpec the spec of the response.
+ */
+export const buildMockResponse = (url: string, responseSpec: MockResponseSpec): Response => {
+  const status = responseSpec.status ?? 200;
+  const headers = new Headers(responseSpec.headers);
+  let body: undefined | null | BodyInit = responseSpec.body;
+  if (body !== undefined && body !== null && typeof body !== 'string' && !ArrayBuffer.isView(body) && !(body instanceof ArrayBuffer)) {
+    body = JSON.stringify(body);
+    if (!headers.has('Content-Type')) {
+      headers.set('Content-Type', 'application/json');
+    }
+  }
+  return buildResponse(url, {
+    status: status,
+    statusText: responseSpec.statusText,
+    headers: headers,
+    body: body
+  });
+}
@@ -0,0 +1,45 @@
+import { RequestAbortedError } from './RateLimitingErrors';
+
+/**
+ * This interface abstracts waiting such that virtual time can be injected for testing.
+ */
+export interface Sleeper {
+
+  /**
+   * Resolves once `millis` milliseconds have elapsed.
+   * @param millis the number of milliseconds to wait.
+   * @param signal if specified, aborting the signal ends the wait early.
+   * @throws RequestAbortedError if the signal is aborted before the wait ends.
+   */
+  sleep: (millis: number, signal?: AbortSignal) => Promise<void>;
+
+}
+
+/**
+ * This is the default implementation of `Sleeper` which uses `setTimeout`.
+ */
+export class TimeoutSleeper implements Sleeper {
+
+  sleep = (millis: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new RequestAbortedError(signal.reason));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timeout);
+        reject(new RequestAbortedError(signal.reason));
+      };
+      const timeout = setTimeout(() => {
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+        resolve();
+      }, millis);
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+}
@@ -0,0 +1,276 @@
+import {
+  SlidingWindowThrottlingOptions,
+  ThrottlingOptions,
+  TokenBucketThrottlingOptions
+} from './RateLimitingHandlingOptions';
+import { getPartitionedKey, originRequestKeyExtractor, RequestKeyExtractor } from './RequestUtils';
+import { Clock, SystemClock } from './Clock';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+import { RateLimitStateStore, TokenBucketState } from './RateLimitStateStore';
+import { RequestAbortedError } from './RateLimitingErrors';
+
+/**
+ * This interface abstracts the proactive throttling of requests such that alternate throttling
+ * algorithms can be injected.
+ */
+export interface Throttler {
+
+  /**
+   * This method resolves once the request is admitted and may be sent.
+   * @param url the URL of the request to be admitted.
+   * @param init the options of the request to be admitted.
+   * @param cost the cost of the request, which defaults to 1.
+   * @param partitionKey the partition of the request, if any, whose state it is throttled by.
+   * @param signal if specified, aborting the signal withdraws the request without admitting it.
+   * @returns the number of milliseconds the request was held back for.
+   * @throws RequestAbortedError if the signal is aborted before the request is admitted.
+   */
+  throttle: (url: RequestInfo, init?: RequestInit, cost?: number, partitionKey?: string, signal?: AbortSignal) => Promise<number>;
+
+  /**
+   * This optional method allows the clock to be injected.
+   */
+  setClock?: (clock: Clock) => void;
+
+  /**
+   * This optional method allows the sleeper used to hold requests back to be injected.
+   */
+  setSleeper?: (sleeper: Sleeper) => void;
+
+  /**
+   * This optional method allows a store to be injected such that the throttling state is shared
+   * with other instances.
+   */
+  setRateLimitStateStore?: (stateStore: RateLimitStateStore) => void;
+
+}
+
+/**
+ * This implementation of `Throttler` admits all requests immediately.
+ */
+export class NoopThrottler implements Throttler {
+
+  throttle = async (url: RequestInfo, init?: RequestInit, cost?: number, partitionKey?: string, signal?: AbortSignal): Promise<number> => {
+    return 0;
+  }
+
+}
+
+/**
+ * This class queues requests per key in the order they arrive and holds each one back until the
+ * throttling algorithm implemented by the subclass admits it.
+ */
+export abstract class QueueingThrottler implements Throttler {
+
+  private keyExtractor: RequestKeyExtractor;
+  private queueTails = new Map<string, Promise<void>>();
+  private clock: Clock = new SystemClock();
+  private sleeper: Sleeper = new TimeoutSleeper();
+
+  constructor(keyExtractor: RequestKeyExtractor = originRequestKeyExtractor) {
+    this.keyExtractor = keyExtractor;
+  }
+
+  setClock = (clock: Clock): void => {
+    this.clock = clock;
+  }
+
+  setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+  }
+
+  throttle = async (url: RequestInfo, init?: RequestInit, cost: number = 1, partitionKey?: string, signal?: AbortSignal): Promise<number> => {
+    if (signal && signal.aborted) {
+      throw new RequestAbortedError(signal.reason);
+    }
+    const key = getPartitionedKey(this.keyExtractor(url, init), partitionKey);
+    const startTime = this.clock.now();
+    const previousQueueTail = this.queueTails.get(key);
+    let heldBack = previousQueueTail !== undefined;
+    // The failure of a request queued ahead, e.g. because the state store could not be updated, is
+    // its own and must not fail the requests queued behind it...
+    const admission = (previousQueueTail ?? Promise.resolve()).catch(() => undefined).then(async () => {
+      // A request withdrawn while queued leaves the queue without being admitted...
+      if (signal && signal.aborted) {
+        throw new RequestAbortedError(signal.reason);
+      }
+      let waitMillis = await this.tryAdmit(key, this.clock.now(), cost);
+      while (waitMillis > 0) {
+        heldBack = true;
+        await this.sleeper.sleep(waitMillis, signal);
+        waitMillis = await this.tryAdmit(key, this.clock.now(), cost);
+      }
+    });
+    this.queueTails.set(key, admission);
+    // The tail is removed once the admission settles rather than once the caller stops waiting for
+    // it such that the requests queued behind a withdrawn request still wait their turn...
+    const removeQueueTail = () => {
+      if (this.queueTails.get(key) === admission) {
+        this.queueTails.delete(key);
+      }
+    };
+    admission.then(removeQueueTail, removeQueueTail);
+    await (signal ? this._abortable(admission, signal) : admission);
+    return heldBack ? this.clock.now() - startTime : 0;
+  }
+
+  /**
+   * Returns a promise settling like `promise` or rejecting once `signal` is aborted, whichever is
+   * first.
+   */
+  private _abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new RequestAbortedError(signal.reason));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then((value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      }, (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Attempts to admit a request.
+   * @param key the key the request is throttled by.
+   * @param now the current time in milliseconds.
+   * @param cost the cost of the request.
+   * @returns 0 if the request was admitted, otherwise the number of milliseconds to wait before
+   * trying again.
+   */
+  protected abstract tryAdmit: (key: string, now: number, cost: number) => number | Promise<number>;
+
+}
+
+/**
+ * Refills a token bucket for the time elapsed since it was last refilled and takes `cost` tokens
+ * from it if they are available. A request costing more than the capacity of the bucket is
+ * admitted once the bucket is full and leaves the bucket in debt. The bucket is updated in place.
+ * @returns 0 if the tokens were taken, otherwise the number of milliseconds until they are available.
+ */
+export const takeToken = (
+    bucket: TokenBucketState,
+    bucketCapacity: number,
+    refillTokensPerSecond: number,
+    now: number,
+    cost: number = 1): number => {
+  const elapsedMillis = Math.max(0, now - bucket.lastRefillTime);
+  bucket.tokens = Math.min(bucketCapacity, bucket.tokens + elapsedMillis * refillTokensPerSecond / 1000);
+  bucket.lastRefillTime = Math.max(now, bucket.lastRefillTime);
+  const requiredTokens = Math.min(cost, bucketCapacity);
+  if (bucket.tokens >= requiredTokens) {
+    bucket.tokens -= cost;
+    return 0;
+  } else {
+    return Math.ceil((requiredTokens - bucket.tokens) * 1000 / refillTokensPerSecond);
+  }
+}
+
+/**
+ * This implementation of `Throttler` admits requests through a token bucket per key. If a
+ * `RateLimitStateStore` is injected, the buckets are kept in the store such that instances sharing
+ * the store also share their buckets.
+ */
+export class TokenBucketThrottler extends QueueingThrottler {
+
+  private bucketCapacity: number;
+  private refillTokensPerSecond: number;
+  private buckets = new Map<string, TokenBucketState>();
+  private stateStore: undefined | RateLimitStateStore = undefined;
+
+  constructor(options: TokenBucketThrottlingOptions) {
+    super(options.keyExtractor);
+    this.bucketCapacity = options.bucketCapacity;
+    this.refillTokensPerSecond = options.refillTokensPerSecond;
+  }
+
+  setRateLimitStateStore = (stateStore: RateLimitStateStore): void => {
+    this.stateStore = stateStore;
+  }
+
+  protected tryAdmit = async (key: string, now: number, cost: number): Promise<number> => {
+    if (this.stateStore) {
+      let waitMillis = 0;
+      await this.stateStore.update(key, (state) => {
+        const bucket = state?.tokenBucket ?? this._buildFullBucket(now);
+        waitMillis = takeToken(bucket, this.bucketCapacity, this.refillTokensPerSecond, now, cost);
+        return { ...state, tokenBucket: bucket };
+      });
+      return waitMillis;
+    }
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = this._buildFullBucket(now);
+      this.buckets.set(key, bucket);
+    }
+    return takeToken(bucket, this.bucketCapacity, this.refillTokensPerSecond, now, cost);
+  }
+
+  private _buildFullBucket = (now: number): TokenBucketState => {
+    return {
+      tokens: this.bucketCapacity,
+      lastRefillTime: now
+    };
+  }
+
+}
+
+/**
+ * This implementation of `Throttler` admits no more than a given number of requests per key within
+ * any sliding window of time. Requests count by their cost, and a request costing more than the
+ * window allows is admitted once the window is empty.
+ */
+export class SlidingWindowThrottler extends QueueingThrottler {
+
+  private maxRequestsPerWindow: number;
+  private windowMillis: number;
+  private admissions = new Map<string, { time: number, cost: number }[]>();
+
+  constructor(options: SlidingWindowThrottlingOptions) {
+    super(options.keyExtractor);
+    this.maxRequestsPerWindow = options.maxRequestsPerWindow;
+    this.windowMillis = options.windowMillis;
+  }
+
+  protected tryAdmit = (key: string, now: number, cost: number): number => {
+    let admissions = this.admissions.get(key);
+    if (!admissions) {
+      admissions = [];
+      this.admissions.set(key, admissions);
+    }
+    const windowStart = now - this.windowMillis;
+    while (admissions.length && admissions[0].time <= windowStart) {
+      admissions.shift();
+    }
+    let usedCost = admissions.reduce((total, admission) => total + admission.cost, 0);
+    if (!admissions.length || usedCost + cost <= this.maxRequestsPerWindow) {
+      admissions.push({ time: now, cost: cost });
+      return 0;
+    }
+    // Wait until enough of the cost admitted within the window has left it...
+    for (const admission of admissions) {
+      usedCost -= admission.cost;
+      if (usedCost + cost <= this.maxRequestsPerWindow || usedCost <= 0) {
+        return admission.time + this.windowMillis - now;
+      }
+    }
+    return admissions[admissions.length - 1].time + this.windowMillis - now;
+  }
+
+}
+
+/**
+ * Builds the `Throttler` described by the given options.
+ * @param throttlingOptions the throttling options or undefined if requests should not be throttled.
+ */
+export const buildThrottler = (throttlingOptions: undefined | ThrottlingOptions): Throttler => {
+  if (!throttlingOptions) {
+    return new NoopThrottler();
+  } else if (throttlingOptions.algorithm === 'tokenBucket') {
+    return new TokenBucketThrottler(throttlingOptions);
+  } else {
+    return new SlidingWindowThrottler(throttlingOptions);
+  }
+}
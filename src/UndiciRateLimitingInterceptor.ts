@@ -0,0 +1,320 @@
+import { RateLimitingHandlingOptions } from './RateLimitingHandlingOptions';
+import { DefaultRetryDetector, RetryDetector } from './RetryDetector';
+import { RetryInfo } from './RetryInfo';
+import { RetryPolicyRegistry } from './RetryPolicyRegistry';
+import {
+  FetchStatsContext,
+  NoopRateLimitingFetchStatsRecorder,
+  RateLimitingFetchStatsRecorder
+} from './RateLimitingFetchStats';
+import { RequestAbortedError } from './RateLimitingErrors';
+import { Clock, SystemClock } from './Clock';
+import { Sleeper, TimeoutSleeper } from './Sleeper';
+import { Random } from './Random';
+import { getRequestOrigin } from './RequestUtils';
+
+/**
+ * The options of a request dispatched through an undici `Dispatcher`. This describes the subset of
+ * undici's `DispatchOptions` that the interceptor uses such that undici need not be installed.
+ */
+export interface UndiciDispatchOptions {
+  origin?: string | URL
+  path: string
+  method: string
+  headers?: any
+  body?: any
+  [option: string]: any
+}
+
+/**
+ * The callbacks through which an undici `Dispatcher` reports the progress of a request, as
+ * described by undici's `DispatchHandlers`.
+ */
+export interface UndiciDispatchHandler {
+  onConnect?(abort: (error?: Error) => void, context?: object): void
+  onError?(error: Error): void
+  onUpgrade?(statusCode: number, headers: any, socket: any): void
+  onResponseStarted?(): void
+  onHeaders?(statusCode: number, headers: any[], resume: () => void, statusText: string): boolean
+  onData?(chunk: Uint8Array): boolean
+  onComplete?(trailers: null | any[]): void
+  onBodySent?(chunkSize: number, totalBytesSent: number): void
+}
+
+/**
+ * The signature of `Dispatcher.dispatch`.
+ */
+export type UndiciDispatch = (options: UndiciDispatchOptions, handler: UndiciDispatchHandler) => boolean;
+
+/**
+ * Converts the headers of undici dispatch options, which may be an object, a flat array of names
+ * and values or an iterable of pairs, to `Headers`.
+ */
+const toHeaders = (dispatchHeaders: any): Headers => {
+  const headers = new Headers();
+  if (!dispatchHeaders) {
+    return headers;
+  }
+  if (Array.isArray(dispatchHeaders) && (dispatchHeaders.length === 0 || !Array.isArray(dispatchHeaders[0]))) {
+    for (let index = 0; index + 1 < dispatchHeaders.length; index += 2) {
+      headers.append(`${dispatchHeaders[index]}`, `${dispatchHeaders[index + 1]}`);
+    }
+    return headers;
+  }
+  const entries: Iterable<[string, any]> = typeof dispatchHeaders[Symbol.iterator] === 'function' ?
+    dispatchHeaders :
+    Object.entries(dispatchHeaders);
+  for (const [name, value] of entries) {
+    if (value !== undefined) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        headers.append(name, `${item}`);
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * Converts the raw response headers reported to `onHeaders`, a flat array of names and values, to
+ * `Headers`.
+ */
+const rawHeadersToHeaders = (rawHeaders: any[]): Headers => {
+  const headers = new Headers();
+  for (let index = 0; index + 1 < (rawHeaders ? rawHeaders.length : 0); index += 2) {
+    headers.append(rawHeaders[index].toString(), rawHeaders[index + 1].toString());
+  }
+  return headers;
+}
+
+/**
+ * Bodies that are sent again as they are. Streams and iterables can only be read once.
+ */
+const isReplayableBody = (body: any): boolean => {
+  return body === undefined || body === null || typeof body === 'string' || body instanceof Uint8Array;
+}
+
+/**
+ * This handler sits between the dispatcher and the caller's handler. It withholds the responses and
+ * errors that are to be retried from the caller's handler, discards their bodies and dispatches the
+ * request again once the retry delay has elapsed.
+ */
+class RetryingDispatchHandler implements UndiciDispatchHandler {
+
+  private interceptor: UndiciRateLimitingInterceptor;
+  private dispatch: UndiciDispatch;
+  private dispatchOptions: UndiciDispatchOptions;
+  private handler: UndiciDispatchHandler;
+  private url: string;
+  private init: RequestInit;
+  private options: RateLimitingHandlingOptions;
+  private statsContext: FetchStatsContext;
+  private lastRetryInfo: RetryInfo;
+  private pendingRetryInfo: undefined | RetryInfo = undefined;
+  private connected = false;
+  private responseStarted = false;
+  private attemptResponseStarted = false;
+  private abortAttempt: undefined | ((error?: Error) => void) = undefined;
+  private abortController = new AbortController();
+
+  constructor(
+      interceptor: UndiciRateLimitingInterceptor,
+      dispatch: UndiciDispatch,
+      dispatchOptions: UndiciDispatchOptions,
+      handler: UndiciDispatchHandler) {
+    this.interceptor = interceptor;
+    this.dispatch = dispatch;
+    this.dispatchOptions = dispatchOptions;
+    this.handler = handler;
+    this.url = new URL(dispatchOptions.path, dispatchOptions.origin).toString();
+    this.init = { method: dispatchOptions.method, headers: toHeaders(dispatchOptions.headers) };
+    this.options = interceptor.policyRegistry.resolveOptions(interceptor.options, this.url, this.init);
+    this.statsContext = { origin: getRequestOrigin(this.url), method: dispatchOptions.method.toUpperCase() };
+    this.lastRetryInfo = { remainingRetries: this.options.maxRetries, retryDelayMillis: 0 };
+  }
+
+  public start = (): boolean => {
+    this.attemptResponseStarted = false;
+    this.interceptor.statsRecorder.logFetchAttempt(this.statsContext);
+    return this.dispatch(this.dispatchOptions, this);
+  }
+
+  public onConnect = (abort: (error?: Error) => void, context?: object): void => {
+    this.abortAttempt = abort;
+    if (this.connected) {
+      return;
+    }
+    this.connected = true;
+    if (this.handler.onConnect) {
+      this.handler.onConnect((error?: Error) => {
+        this.abortController.abort(error);
+        if (this.abortAttempt) {
+          this.abortAttempt(error);
+        }
+      }, context);
+    }
+  }
+
+  public onError = (error: Error): void => {
+    if (this.responseStarted || this.abortController.signal.aborted) {
+      this._forwardError(error);
+      return;
+    }
+    const detector = this.interceptor.retryDetector;
+    const retryInfo = this.pendingRetryInfo ?? (detector.computeErrorRetryInfo ?
+      detector.computeErrorRetryInfo(this.lastRetryInfo.remainingRetries, this.lastRetryInfo.retryDelayMillis, this.options, error, this.url, this.init) :
+      undefined);
+    this.pendingRetryInfo = undefined;
+    if (retryInfo && isReplayableBody(this.dispatchOptions.body)) {
+      this._scheduleRetry(retryInfo);
+    } else {
+      this._forwardError(error);
+    }
+  }
+
+  public onUpgrade = (statusCode: number, headers: any, socket: any): void => {
+    if (this.handler.onUpgrade) {
+      this.handler.onUpgrade(statusCode, headers, socket);
+    }
+  }
+
+  public onResponseStarted = (): void => {
+    // The caller's handler is told once onHeaders decides not to retry the response...
+    this.attemptResponseStarted = true;
+  }
+
+  public onHeaders = (statusCode: number, headers: any[], resume: () => void, statusText: string): boolean => {
+    if (statusCode >= 200 && isReplayableBody(this.dispatchOptions.body)) {
+      const response = new Response(null, { status: statusCode, statusText: statusText, headers: rawHeadersToHeaders(headers) });
+      this.pendingRetryInfo = this.interceptor.retryDetector.computeRetryInfo(
+        this.lastRetryInfo.remainingRetries, this.lastRetryInfo.retryDelayMillis, this.options, response);
+      if (this.pendingRetryInfo) {
+        // The body of the response being retried is read and discarded...
+        return true;
+      }
+    }
+    this.responseStarted = true;
+    if (this.attemptResponseStarted && this.handler.onResponseStarted) {
+      this.handler.onResponseStarted();
+    }
+    return this.handler.onHeaders ? this.handler.onHeaders(statusCode, headers, resume, statusText) : true;
+  }
+
+  public onData = (chunk: Uint8Array): boolean => {
+    if (this.pendingRetryInfo) {
+      return true;
+    }
+    return this.handler.onData ? this.handler.onData(chunk) : true;
+  }
+
+  public onComplete = (trailers: null | any[]): void => {
+    if (this.pendingRetryInfo) {
+      const retryInfo = this.pendingRetryInfo;
+      this.pendingRetryInfo = undefined;
+      this._scheduleRetry(retryInfo);
+      return;
+    }
+    if (this.handler.onComplete) {
+      this.handler.onComplete(trailers);
+    }
+  }
+
+  public onBodySent = (chunkSize: number, totalBytesSent: number): void => {
+    if (this.handler.onBodySent) {
+      this.handler.onBodySent(chunkSize, totalBytesSent);
+    }
+  }
+
+  private _scheduleRetry = (retryInfo: RetryInfo): void => {
+    this.abortAttempt = undefined;
+    this.interceptor.sleeper.sleep(retryInfo.retryDelayMillis, this.abortController.signal).then(() => {
+      this.interceptor.statsRecorder.logRetry(retryInfo.retryDelayMillis, this.statsContext);
+      this.lastRetryInfo = retryInfo;
+      try {
+        this.start();
+      } catch (error) {
+        // The dispatcher may throw synchronously, e.g. once it has been closed...
+        this._forwardError(error);
+      }
+    }, (error: any) => {
+      this._forwardError(error instanceof RequestAbortedError ? error : new RequestAbortedError(error));
+    });
+  }
+
+  private _forwardError = (error: Error): void => {
+    if (this.handler.onError) {
+      this.handler.onError(error);
+    }
+  }
+
+}
+
+/**
+ * This class retries the requests of an undici `Dispatcher` the way `RateLimitingFetch` retries
+ * fetches, using the same `RetryDetector` and options, such that code calling undici directly gets
+ * the same handling of rate limited responses and network errors. Its `intercept` method is an
+ * undici interceptor:
+ *
+ * ```
+ * const dispatcher = new Agent().compose(new UndiciRateLimitingInterceptor(options).intercept);
+ * ```
+ *
+ * Requests whose bodies are streams or iterables are not retried since their bodies can not be
+ * sent again.
+ */
+export class UndiciRateLimitingInterceptor {
+
+  options: RateLimitingHandlingOptions;
+  retryDetector: RetryDetector = new DefaultRetryDetector();
+  policyRegistry: RetryPolicyRegistry;
+  statsRecorder: RateLimitingFetchStatsRecorder = new NoopRateLimitingFetchStatsRecorder();
+  clock: Clock = new SystemClock();
+  sleeper: Sleeper = new TimeoutSleeper();
+
+  constructor(options: RateLimitingHandlingOptions) {
+    this.options = options;
+    this.policyRegistry = new RetryPolicyRegistry(options.policies);
+  }
+
+  /**
+   * This method allows an implementation of `RetryDetector` to be injected, e.g. the one of a
+   * `RateLimitingFetch` instance such that both retry alike.
+   * @param retryDetector the implementation of `RetryDetector` to be injected.
+   */
+  public setRetryDetector = (retryDetector: RetryDetector): void => {
+    this.retryDetector = retryDetector;
+    if (retryDetector.setClock) {
+      retryDetector.setClock(this.clock);
+    }
+  }
+
+  public setRateLimitingFetchStatsRecorder = (statsRecorder: RateLimitingFetchStatsRecorder): void => {
+    this.statsRecorder = statsRecorder;
+  }
+
+  public setClock = (clock: Clock): void => {
+    this.clock = clock;
+    if (this.retryDetector.setClock) {
+      this.retryDetector.setClock(clock);
+    }
+  }
+
+  public setSleeper = (sleeper: Sleeper): void => {
+    this.sleeper = sleeper;
+  }
+
+  public setRandom = (random: Random): void => {
+    if (this.retryDetector.setRandom) {
+      this.retryDetector.setRandom(random);
+    }
+  }
+
+  /**
+   * The undici interceptor, which wraps the `dispatch` function of a `Dispatcher`.
+   */
+  public intercept = (dispatch: UndiciDispatch): UndiciDispatch => {
+    return (dispatchOptions: UndiciDispatchOptions, handler: UndiciDispatchHandler): boolean => {
+      return new RetryingDispatchHandler(this, dispatch, dispatchOptions, handler).start();
+    };
+  }
+
+}
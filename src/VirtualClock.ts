@@ -0,0 +1,129 @@
+import { Clock } from './Clock';
+import { RequestAbortedError } from './RateLimitingErrors';
+import { Sleeper } from './Sleeper';
+
+interface VirtualTimer {
+  wakeTime: number
+  sequenceNumber: number
+  wake: () => void
+}
+
+/**
+ * This class provides virtual time for tests. It implements both `Clock` and `Sleeper` such that
+ * time only passes when the test calls `advance`, at which point the sleeps that end within the
+ * advanced period are woken in order. Behaviour such as a `Retry-After: 5` retry can then be
+ * asserted exactly and without waiting.
+ */
+export class VirtualClock implements Clock, Sleeper {
+
+  private time: number;
+  private timers: VirtualTimer[] = [];
+  private sequenceNumber = 0;
+
+  /**
+   * @param startTime the initial time in milliseconds since the epoch.
+   */
+  constructor(startTime: number = 0) {
+    this.time = startTime;
+  }
+
+  public now = (): number => {
+    return this.time;
+  }
+
+  public sleep = (millis: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        reject(new RequestAbortedError(signal.reason));
+        return;
+      }
+      const onAbort = () => {
+        this.timers = this.timers.filter(existingTimer => existingTimer !== timer);
+        reject(new RequestAbortedError(signal.reason));
+      };
+      const timer: VirtualTimer = {
+        wakeTime: this.time + Math.max(0, millis),
+        sequenceNumber: this.sequenceNumber++,
+        wake: () => {
+          if (signal) {
+            signal.removeEventListener('abort', onAbort);
+          }
+          resolve();
+        }
+      };
+      if (signal) {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+      this.timers.push(timer);
+    });
+  }
+
+  /**
+   * Advances time by `millis`, waking each sleep that ends within the period at its wake time and
+   * letting the code it resumes run before moving on.
+   */
+  public advance = async (millis: number): Promise<void> => {
+    const targetTime = this.time + millis;
+    await this._settle();
+    let timer = this._nextTimer();
+    while (timer && timer.wakeTime <= targetTime) {
+      this._wake(timer);
+      await this._settle();
+      timer = this._nextTimer();
+    }
+    this.time = targetTime;
+    await this._settle();
+  }
+
+  /**
+   * Advances time until there are no sleeps left, e.g. until every retry of a request has been
+   * made. Sleeps started while advancing are also woken.
+   * @param maxTimers the maximum number of sleeps to wake, to guard against endless loops.
+   */
+  public runAll = async (maxTimers: number = 1000): Promise<void> => {
+    await this._settle();
+    let timer = this._nextTimer();
+    let wokenCount = 0;
+    while (timer) {
+      if (wokenCount++ >= maxTimers) {
+        throw new Error(`VirtualClock.runAll woke ${maxTimers} sleeps without running out of sleeps.`);
+      }
+      this._wake(timer);
+      await this._settle();
+      timer = this._nextTimer();
+    }
+  }
+
+  /**
+   * Returns the number of sleeps that have not yet ended.
+   */
+  public getPendingSleepCount = (): number => {
+    return this.timers.length;
+  }
+
+  private _nextTimer = (): undefined | VirtualTimer => {
+    let nextTimer: undefined | VirtualTimer = undefined;
+    for (const timer of this.timers) {
+      if (!nextTimer || timer.wakeTime < nextTimer.wakeTime ||
+          (timer.wakeTime === nextTimer.wakeTime && timer.sequenceNumber < nextTimer.sequenceNumber)) {
+        nextTimer = timer;
+      }
+    }
+    return nextTimer;
+  }
+
+  private _wake = (timer: VirtualTimer): void => {
+    this.timers = this.timers.filter(existingTimer => existingTimer !== timer);
+    this.time = Math.max(this.time, timer.wakeTime);
+    timer.wake();
+  }
+
+  /**
+   * Lets pending promise callbacks run so that the code resumed by a sleep can reach its next
+   * sleep before time moves on.
+   */
+  private _settle = (): Promise<void> => {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+}
@@ -2,7 +2,12 @@ export {
   minJitterMultiplier,
   tooManyRequestsStatusCode,
   internalServerErrorStatusCode,
-  serviceUnavailableStatusCode
+  serviceUnavailableStatusCode,
+  idempotentRequestMethods,
+  idempotencyKeyHeaderName,
+  retryableNetworkErrorCodes,
+  defaultMaxBufferedBodyBytes,
+  attemptHistoryHeaderNames
 } from './RateLimitingConstants';
 export {
   FetchInterface,
@@ -13,6 +18,23 @@ export {
 } from './RateLimitingFetch';
 export {
   RateLimitingHandlingOptions,
+  BackoffAlgorithm,
+  BackoffStrategyOptions,
+  CircuitBreakerOptions,
+  CooldownOptions,
+  ConcurrencyOptions,
+  AdaptiveConcurrencyOptions,
+  RateLimitingRequestOptions,
+  RetryPolicyOptions,
+  RouteMatcher,
+  RetryPolicy,
+  ThrottlingOptions,
+  TokenBucketThrottlingOptions,
+  SlidingWindowThrottlingOptions,
+  QuotaPacingOptions,
+  RetryBudgetOptions,
+  CachingOptions,
+  PartitioningOptions,
   nonUiContextRateLimitingHandlingOptionsDefaults
 } from './RateLimitingHandlingOptions';
 export {
@@ -23,6 +45,7 @@ export {
   SimpleMockFetchController
 } from './MockingFetch';
 export {
+  FetchStatsContext,
   RateLimitingFetchStats,
   RateLimitingFetchStatsRecorder,
   NoopRateLimitingFetchStatsRecorder,
@@ -35,3 +58,231 @@ export {
   RetryDetector,
   DefaultRetryDetector
 } from './RetryDetector';
+export {
+  Throttler,
+  NoopThrottler,
+  QueueingThrottler,
+  TokenBucketThrottler,
+  SlidingWindowThrottler,
+  buildThrottler,
+  takeToken
+} from './Throttler';
+export {
+  RequestKeyExtractor,
+  RequestCostExtractor,
+  getRequestUrl,
+  getRequestOrigin,
+  originRequestKeyExtractor,
+  authorizationPartitionKeyExtractor,
+  getPartitionedKey,
+  getRequestMethod,
+  getRequestHeader,
+  isIdempotentRequest
+} from './RequestUtils';
+export {
+  RateLimitQuota,
+  parseRetryAfterMillis,
+  parseRateLimitQuota
+} from './RateLimitHeaders';
+export {
+  RateLimitQuotaTracker,
+  applyAdvertisedQuota,
+  reservePacedSend
+} from './RateLimitQuotaTracker';
+export {
+  BackoffStrategy,
+  ExponentialBackoffStrategy,
+  FullJitterBackoffStrategy,
+  EqualJitterBackoffStrategy,
+  DecorrelatedJitterBackoffStrategy,
+  LinearBackoffStrategy,
+  ConstantBackoffStrategy,
+  buildBackoffStrategy
+} from './BackoffStrategy';
+export {
+  Random,
+  MathRandom,
+  SeededRandom
+} from './Random';
+export {
+  CircuitState,
+  CircuitStateChangeListener,
+  CircuitPermit,
+  CircuitBreaker,
+  DefaultCircuitBreaker
+} from './CircuitBreaker';
+export {
+  CircuitOpenError,
+  RequestTimeoutType,
+  RequestTimeoutError,
+  RequestAbortedError,
+  RequestBodyNotReplayableError,
+  RetriesExhaustedError,
+  UnmatchedMockRequestError,
+  UnmatchedCassetteRequestError,
+  StateStoreLockTimeoutError,
+  PaginationFailedError
+} from './RateLimitingErrors';
+export {
+  AttemptRecord,
+  extractHeadersOfInterest
+} from './AttemptHistory';
+export {
+  RequestAttempt,
+  ReplayableRequest,
+  isReplayableBody,
+  prepareReplayableRequest
+} from './ReplayableRequest';
+export {
+  isAbortError,
+  isRetryableNetworkError
+} from './NetworkErrors';
+export {
+  RateLimitingFetchEvent,
+  BeforeAttemptEvent,
+  AfterResponseEvent,
+  RetryScheduledEvent,
+  GaveUpEvent,
+  ThrottledEvent,
+  AttemptErrorEvent,
+  RateLimitingFetchEventMap,
+  RateLimitingFetchEventName,
+  RateLimitingFetchListener,
+  RateLimitingFetchHooks
+} from './RateLimitingFetchHooks';
+export {
+  MetricLabels,
+  CounterSample,
+  GaugeSample,
+  HistogramSample,
+  MetricsSnapshot,
+  MetricsRateLimitingFetchStatsRecorderOptions,
+  MetricsRateLimitingFetchStatsRecorder
+} from './MetricsRateLimitingFetchStatsRecorder';
+export {
+  LogLevel,
+  LogFields,
+  Logger,
+  NoopLogger,
+  ConsoleLogger,
+  JsonLinesLogger
+} from './Logger';
+export {
+  RetryBudget,
+  UnlimitedRetryBudget,
+  DefaultRetryBudget,
+  buildRetryBudget
+} from './RetryBudget';
+export {
+  CooldownCoordinator,
+  isRateLimitedResponse,
+  parseCooldownMillis
+} from './CooldownCoordinator';
+export {
+  ConcurrencyOutcome,
+  QueueDepthListener,
+  ConcurrencyPermit,
+  RequestScheduler,
+  ConcurrencyScheduler
+} from './ConcurrencyScheduler';
+export {
+  RetryPolicyRegistry,
+  pathPatternToRegExp
+} from './RetryPolicyRegistry';
+export {
+  ReceivedRequest,
+  MockRequestMatcher,
+  MockResponseSpec,
+  MockResponder,
+  MockResponseScript,
+  ScriptedMockFetchController,
+  buildMockResponse
+} from './ScriptedMockFetchController';
+export {
+  Clock,
+  SystemClock
+} from './Clock';
+export {
+  Sleeper,
+  TimeoutSleeper
+} from './Sleeper';
+export {
+  VirtualClock
+} from './VirtualClock';
+export {
+  RecordedRequest,
+  RecordedResponse,
+  RecordedError,
+  CassetteEntry,
+  Cassette,
+  Har,
+  HarEntry,
+  defaultRedactedHeaderNames,
+  redactedHeaderValue,
+  cassetteToHar,
+  harToCassette
+} from './Cassette';
+export {
+  RecordingFetchOptions,
+  RecordingFetch
+} from './RecordingFetch';
+export {
+  CassetteMatchField,
+  CassetteRequestMatcher,
+  ReplayingFetchOptions,
+  ReplayingFetch
+} from './ReplayingFetch';
+export {
+  CooldownState,
+  TokenBucketState,
+  QuotaSnapshot,
+  RateLimitState,
+  RateLimitStateUpdater,
+  RateLimitStateStore,
+  InMemoryRateLimitStateStore,
+  copyRateLimitState
+} from './RateLimitStateStore';
+export {
+  CachedResponse,
+  CacheLookup,
+  ResponseCacheStore,
+  InMemoryResponseCacheStore,
+  ResponseCache,
+  getCachedResponseSize,
+  parseCacheControl,
+  computeFreshnessLifetimeMillis,
+  computeAgeMillis
+} from './ResponseCache';
+export {
+  RequestCoalescer
+} from './RequestCoalescer';
+export {
+  RateLimitedFetchFunction,
+  BulkFetchRequest,
+  BulkFetchResult,
+  BulkFetchProgress,
+  BulkFetchOptions,
+  fetchAll
+} from './BulkFetch';
+export {
+  NextPageUrlExtractor,
+  NextPageCursorExtractor,
+  PaginationOptions,
+  parseLinkHeader,
+  linkHeaderNextUrlExtractor,
+  paginate
+} from './Paginator';
+export {
+  RateLimitedFetch,
+  createRateLimitedFetch,
+  install,
+  uninstall,
+  isInstalled,
+  runWithRateLimitedFetch
+} from './RateLimitedFetchFactory';
+export {
+  UndiciDispatchOptions,
+  UndiciDispatchHandler,
+  UndiciDispatch,
+  UndiciRateLimitingInterceptor
+} from './UndiciRateLimitingInterceptor';
@@ -0,0 +1,138 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { SimpleRateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { RetriesExhaustedError } from '../src/RateLimitingErrors';
+import { LogFields, NoopLogger } from '../src/Logger';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/things';
+
+describe("AttemptHistory", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+
+  const buildRateLimitingFetch = (options: Partial<RateLimitingHandlingOptions> = {}): RateLimitingFetch => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      ...options
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    return rateLimitingFetch;
+  };
+
+  const fetchWithRetries = async (rateLimitingFetch: RateLimitingFetch): Promise<Response> => {
+    const responsePromise = rateLimitingFetch.fetch(url);
+    // The rejection is handled by the caller once time has been advanced...
+    responsePromise.catch(() => {});
+    await clock.runAll();
+    return await responsePromise;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+  });
+
+  test("each attempt should be recorded with its status, headers, timing and retry delay...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '2', 'X-RateLimit-Remaining': '0', 'Content-Type': 'text/plain' } })
+      .thenRespondWith({ status: 503, delayMillis: 100 })
+      .thenRespondWith({ status: 200 });
+    const rateLimitingFetch = buildRateLimitingFetch();
+
+    const response = await fetchWithRetries(rateLimitingFetch);
+
+    expect(response.status).toBe(200);
+    // The backoff after the 503 response doubles the delay the 429 response asked for...
+    expect(rateLimitingFetch.getAttemptHistory(response)).toEqual([
+      { attemptNumber: 1, startTime: 0, endTime: 0, status: 429, headers: { 'retry-after': '2', 'x-ratelimit-remaining': '0' }, retryDelayMillis: 2000 },
+      { attemptNumber: 2, startTime: 2000, endTime: 2100, status: 503, headers: {}, retryDelayMillis: 4000 },
+      { attemptNumber: 3, startTime: 6100, endTime: 6100, status: 200, headers: {} }
+    ]);
+    expect(rateLimitingFetch.getAttemptHistory(new Response())).toBeUndefined();
+  });
+
+  test("running out of retries should return the last response unless throwOnRetriesExhausted is set...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '1' } })
+      .persist();
+    const statsRecorder = new SimpleRateLimitingFetchStatsRecorder();
+    const rateLimitingFetch = buildRateLimitingFetch({ maxRetries: 1 });
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+
+    const response = await fetchWithRetries(rateLimitingFetch);
+    expect(response.status).toBe(429);
+    expect(rateLimitingFetch.getAttemptHistory(response).length).toBe(2);
+
+    const throwingRateLimitingFetch = buildRateLimitingFetch({ maxRetries: 1, throwOnRetriesExhausted: true });
+    throwingRateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+    let error: RetriesExhaustedError;
+    try {
+      await fetchWithRetries(throwingRateLimitingFetch);
+    } catch (caughtError) {
+      error = caughtError;
+    }
+    expect(error).toBeInstanceOf(RetriesExhaustedError);
+    expect(error.response.status).toBe(429);
+    expect(error.attempts.map(attempt => attempt.status)).toEqual([429, 429]);
+    expect(error.message).toBe('Retries exhausted after 2 attempts. The final response status was 429.');
+    expect(statsRecorder.getRateLimitingFetchStats().retriesExhaustedCount).toBe(2);
+  });
+
+  test("errors that outlast the retries should be wrapped in a RetriesExhaustedError...", async () => {
+    const networkError = new TypeError('fetch failed');
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ error: networkError })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch({ maxRetries: 0, throwOnRetriesExhausted: true });
+
+    await expect(fetchWithRetries(rateLimitingFetch)).rejects.toMatchObject({
+      name: 'RetriesExhaustedError',
+      cause: networkError,
+      attempts: [expect.objectContaining({ attemptNumber: 1, error: networkError })]
+    });
+  });
+
+  test("responses that are not retried should not count as retries exhausted...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 404 });
+    const rateLimitingFetch = buildRateLimitingFetch({ maxRetries: 0, throwOnRetriesExhausted: true });
+
+    expect((await fetchWithRetries(rateLimitingFetch)).status).toBe(404);
+  });
+
+  test("detecting that retries ran out should not draw jitter or log again...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': 'soon' } });
+    const warnings: string[] = [];
+    const logger = new NoopLogger();
+    logger.warn = (message: string, fields?: LogFields) => {
+      warnings.push(message);
+    };
+    let randomCount = 0;
+    const rateLimitingFetch = buildRateLimitingFetch({ maxRetries: 0 });
+    rateLimitingFetch.setLogger(logger);
+    rateLimitingFetch.setRandom({
+      random: () => {
+        randomCount++;
+        return 0;
+      }
+    });
+
+    expect((await fetchWithRetries(rateLimitingFetch)).status).toBe(429);
+    expect(warnings).toEqual(['Unable to parse Retry-After header']);
+    expect(randomCount).toBe(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { buildBackoffStrategy } from '../src/BackoffStrategy';
+import { RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { Random } from '../src/Random';
+import { DefaultRetryDetector } from '../src/RetryDetector';
+
+const options: RateLimitingHandlingOptions = {
+  maxRetries: 5,
+  maxRetryDelayMillis: 10000,
+  backoffMultiplier: 2,
+  initialRetryDelayMillis: 1000,
+  maxJitterMultiplier: 1.5,
+}
+
+const halfRandom: Random = {
+  random: () => 0.5
+}
+
+describe("BackoffStrategy", () => {
+  test("the built in strategies should compute deterministic delays given a deterministic random source...", () => {
+    const delaysOf = (backoffStrategyOptions: RateLimitingHandlingOptions['backoffStrategy']): number[] => {
+      const backoffStrategy = buildBackoffStrategy(backoffStrategyOptions, halfRandom);
+      let lastRetryDelayMillis = 0;
+      const delays: number[] = [];
+      for (let retryNumber = 1; retryNumber <= 5; retryNumber++) {
+        lastRetryDelayMillis = backoffStrategy.computeRetryDelayMillis(retryNumber, lastRetryDelayMillis, options);
+        delays.push(lastRetryDelayMillis);
+      }
+      return delays;
+    }
+    expect(delaysOf({ algorithm: 'exponential' })).toEqual([1250, 3125, 7812.5, 12500, 12500]);
+    expect(delaysOf({ algorithm: 'fullJitter' })).toEqual([500, 1000, 2000, 4000, 5000]);
+    expect(delaysOf({ algorithm: 'equalJitter' })).toEqual([750, 1500, 3000, 6000, 7500]);
+    expect(delaysOf({ algorithm: 'decorrelatedJitter' })).toEqual([2000, 3500, 5750, 9125, 10000]);
+    expect(delaysOf({ algorithm: 'linear', incrementMillis: 2500 })).toEqual([1000, 3500, 6000, 8500, 10000]);
+    expect(delaysOf({ algorithm: 'constant' })).toEqual([1000, 1000, 1000, 1000, 1000]);
+  });
+
+  test("the retry detector should use the configured strategy unless the server dictates the delay...", () => {
+    const retryDetector = new DefaultRetryDetector();
+    retryDetector.setRandom(halfRandom);
+    const fullJitterOptions: RateLimitingHandlingOptions = {
+      ...options,
+      backoffStrategy: { algorithm: 'fullJitter' }
+    };
+    const backoffRetryInfo = retryDetector.computeRetryInfo(5, 0, fullJitterOptions, new Response(null, { status: 503 }));
+    expect(backoffRetryInfo).toEqual({ remainingRetries: 4, retryDelayMillis: 500 });
+    const retryAfterResponse = new Response(null, { status: 429, headers: { 'Retry-After': '2' } });
+    const retryAfterRetryInfo = retryDetector.computeRetryInfo(5, 0, fullJitterOptions, retryAfterResponse);
+    expect(retryAfterRetryInfo).toEqual({ remainingRetries: 4, retryDelayMillis: 2500 });
+  });
+});
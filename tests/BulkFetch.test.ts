@@ -0,0 +1,168 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { BulkFetchProgress } from '../src/BulkFetch';
+import { parseLinkHeader } from '../src/Paginator';
+import { PaginationFailedError, RequestAbortedError } from '../src/RateLimitingErrors';
+import { VirtualClock } from '../src/VirtualClock';
+
+const baseUrl = 'https://api.example.com';
+
+describe("BulkFetch", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+  let rateLimitingFetch: RateLimitingFetch;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+    rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      maxRetries: 1,
+      cooldown: {}
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+  });
+
+  test("fetchAll should return the result of each request in order and report progress...", async () => {
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/items/2` })
+      .respondWith({ error: new TypeError('fetch failed') })
+      .persist();
+    scriptedMockFetchController
+      .when({ url: (url: string) => url.startsWith(`${baseUrl}/items/`) })
+      .respondWith((request) => ({ status: 200, body: request.url, delayMillis: 100 }))
+      .persist();
+
+    const progresses: BulkFetchProgress[] = [];
+    const resultsPromise = rateLimitingFetch.fetchAll(
+      [1, 2, 3, 4, 5].map(id => `${baseUrl}/items/${id}`),
+      { concurrency: 2, onProgress: (progress) => progresses.push(progress) });
+    await clock.runAll();
+    const results = await resultsPromise;
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled', 'fulfilled', 'fulfilled']);
+    expect(results[0].status === 'fulfilled' && await results[0].response.text()).toBe(`${baseUrl}/items/1`);
+    expect(progresses.length).toBe(5);
+    expect(progresses[4]).toMatchObject({ completedCount: 5, fulfilledCount: 4, rejectedCount: 1, totalCount: 5 });
+    // The failing request holds one of the two slots while it waits to be retried...
+    expect(scriptedMockFetchController.getReceivedRequests().map(request => request.time)).toEqual([0, 0, 100, 200, 300, 5000]);
+  });
+
+  test("a rate limited request should slow down the whole batch...", async () => {
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/items/1` })
+      .respondWith({ status: 429, headers: { 'Retry-After': '5' } })
+      .thenRespondWith({ status: 200 });
+    scriptedMockFetchController
+      .when({ url: (url: string) => url.startsWith(`${baseUrl}/items/`) })
+      .respondWith({ status: 200 })
+      .persist();
+
+    const resultsPromise = rateLimitingFetch.fetchAll([1, 2, 3].map(id => `${baseUrl}/items/${id}`), { concurrency: 1 });
+    await clock.runAll();
+    const results = await resultsPromise;
+
+    expect(results.every(result => result.status === 'fulfilled' && result.response.status === 200)).toBe(true);
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([5000, 0, 0]);
+  });
+
+  test("aborting the batch should abort requests in flight and skip the remaining requests...", async () => {
+    scriptedMockFetchController
+      .when({ url: (url: string) => url.startsWith(`${baseUrl}/items/`) })
+      .respondWith({ status: 200, delayMillis: 1000 })
+      .persist();
+
+    const controller = new AbortController();
+    const resultsPromise = rateLimitingFetch.fetchAll(
+      [1, 2, 3].map(id => `${baseUrl}/items/${id}`), { concurrency: 1, signal: controller.signal });
+    await clock.advance(500);
+    controller.abort();
+    const results = await resultsPromise;
+
+    expect(results.map(result => result.status === 'rejected' && result.error instanceof RequestAbortedError)).toEqual([true, true, true]);
+    scriptedMockFetchController.expectRequestCount(1);
+  });
+
+  test("an error thrown by onProgress should reject the batch without counting the request twice...", async () => {
+    scriptedMockFetchController
+      .when({ url: (url: string) => url.startsWith(`${baseUrl}/items/`) })
+      .respondWith({ status: 200, delayMillis: 100 })
+      .persist();
+
+    const progressError = new Error('progress failed');
+    const progresses: BulkFetchProgress[] = [];
+    const resultsPromise = rateLimitingFetch.fetchAll([1, 2, 3, 4].map(id => `${baseUrl}/items/${id}`), {
+      concurrency: 2,
+      onProgress: (progress) => {
+        progresses.push(progress);
+        throw progressError;
+      }
+    });
+    const resultsExpectation = expect(resultsPromise).rejects.toBe(progressError);
+    await clock.runAll();
+    await resultsExpectation;
+
+    expect(progresses.map(progress => progress.completedCount)).toEqual([1]);
+    expect(progresses[0]).toMatchObject({ fulfilledCount: 1, rejectedCount: 0 });
+    scriptedMockFetchController.expectRequestCount(2);
+  });
+
+  test("paginate should follow Link headers...", async () => {
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/things` })
+      .respondWith({ status: 200, headers: { 'Link': '</things?page=2>; rel="next", </things?page=3>; rel="last"' }, body: '1' });
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/things?page=2` })
+      .respondWith({ status: 200, headers: { 'Link': `<${baseUrl}/things?page=3>; rel="next"` }, body: '2' });
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/things?page=3` })
+      .respondWith({ status: 200, body: '3' });
+
+    const bodies: string[] = [];
+    for await (const page of rateLimitingFetch.paginate(`${baseUrl}/things`)) {
+      bodies.push(await page.text());
+    }
+    expect(bodies).toEqual(['1', '2', '3']);
+  });
+
+  test("paginate should follow cursors and fail on unsuccessful pages...", async () => {
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/things?limit=2` })
+      .respondWith({ status: 200, body: { items: [1, 2], nextCursor: 'abc' } });
+    scriptedMockFetchController
+      .when({ url: `${baseUrl}/things?limit=2&cursor=abc` })
+      .respondWith({ status: 404 });
+
+    const items: number[] = [];
+    const pages = rateLimitingFetch.paginate(`${baseUrl}/things?limit=2`, {
+      getNextCursor: async (page) => (await page.json()).nextCursor
+    });
+    let error: any;
+    try {
+      for await (const page of pages) {
+        items.push(...(await page.json()).items);
+      }
+    } catch (e) {
+      error = e;
+    }
+    expect(items).toEqual([1, 2]);
+    expect(error).toBeInstanceOf(PaginationFailedError);
+    expect(error.url).toBe(`${baseUrl}/things?limit=2&cursor=abc`);
+  });
+
+  test("parseLinkHeader should resolve every relation...", () => {
+    const links = parseLinkHeader('<https://a.example.com/2>; rel="next prefetch"; title="x, y", </1>; rel=prev', 'https://b.example.com/list');
+    expect(Array.from(links.entries())).toEqual([
+      ['next', 'https://a.example.com/2'],
+      ['prefetch', 'https://a.example.com/2'],
+      ['prev', 'https://b.example.com/1']
+    ]);
+  });
+});
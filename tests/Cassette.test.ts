@@ -0,0 +1,96 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { RateLimitedTestServer } from '../src/RateLimitedTestServer';
+import { RecordingFetch } from '../src/RecordingFetch';
+import { ReplayingFetch } from '../src/ReplayingFetch';
+import { loadCassette, saveCassette } from '../src/CassetteFiles';
+import { Cassette, redactedHeaderValue } from '../src/Cassette';
+import { VirtualClock } from '../src/VirtualClock';
+import { UnmatchedCassetteRequestError } from '../src/RateLimitingErrors';
+import { isRetryableNetworkError } from '../src/NetworkErrors';
+
+const options = {
+  ...nonUiContextRateLimitingHandlingOptionsDefaults,
+  maxJitterMultiplier: 1
+};
+
+describe("RecordingFetch and ReplayingFetch", () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("it should record a rate limit incident and replay it offline from JSON and HAR files...", async () => {
+    const server = new RateLimitedTestServer({
+      quota: { algorithm: 'slidingWindow', limit: 1, windowMillis: 1000 }
+    });
+    await server.start();
+    const recordingFetch = new RecordingFetch();
+    try {
+      const rateLimitingFetch = new RateLimitingFetch(options);
+      rateLimitingFetch.setFetchImplementation(recordingFetch);
+      const init: RequestInit = { headers: { 'Authorization': 'Bearer secret' } };
+      await (await rateLimitingFetch.fetch(server.getUrl('/things'), init)).text();
+      const response = await rateLimitingFetch.fetch(server.getUrl('/things'), init);
+      expect(response.status).toBe(200);
+      expect((await response.json()).path).toBe('/things');
+    } finally {
+      await server.stop();
+    }
+
+    const cassette = recordingFetch.getCassette();
+    expect(cassette.entries.map(entry => entry.response.status)).toEqual([200, 429, 200]);
+    const authorization = cassette.entries[0].request.headers.find(([name]) => name === 'authorization');
+    expect(authorization[1]).toBe(redactedHeaderValue);
+
+    for (const fileName of ['incident.json', 'incident.har']) {
+      const filePath = path.join(directory, fileName);
+      await saveCassette(filePath, cassette);
+      const loadedCassette = await loadCassette(filePath);
+      expect(loadedCassette.entries.map(entry => entry.response.headers.find(([name]) => name === 'retry-after')))
+        .toEqual(cassette.entries.map(entry => entry.response.headers.find(([name]) => name === 'retry-after')));
+
+      // Replay in virtual time such that the retry after the rate limited response is instant...
+      const replayingFetch = new ReplayingFetch(loadedCassette, { strictOrder: true });
+      const rateLimitingFetch = new RateLimitingFetch(options);
+      const clock = new VirtualClock();
+      rateLimitingFetch.setClock(clock);
+      rateLimitingFetch.setSleeper(clock);
+      rateLimitingFetch.setFetchImplementation(replayingFetch);
+      await (await rateLimitingFetch.fetch(cassette.entries[0].request.url)).text();
+      const responsePromise = rateLimitingFetch.fetch(cassette.entries[0].request.url);
+      await clock.runAll();
+      const response = await responsePromise;
+      expect(response.status).toBe(200);
+      expect(clock.now()).toBeGreaterThanOrEqual(1000);
+      replayingFetch.expectAllEntriesUsed();
+    }
+  });
+
+  test("it should replay network errors and reject unmatched requests...", async () => {
+    const cassette: Cassette = {
+      version: 1,
+      entries: [{
+        request: { method: 'GET', url: 'https://api.example.com/a', headers: [] },
+        error: { name: 'TypeError', message: 'fetch failed', code: 'ECONNRESET' },
+        startedDateTime: new Date(0).toISOString(),
+        startOffsetMillis: 0,
+        durationMillis: 5
+      }]
+    };
+    const replayingFetch = new ReplayingFetch(cassette, { matchOn: ['method', 'path'] });
+
+    const error = await replayingFetch.fetch('https://api.example.com/a?page=2').catch(error => error);
+    expect(isRetryableNetworkError(error)).toBe(true);
+    await expect(replayingFetch.fetch('https://api.example.com/a')).rejects.toThrow(UnmatchedCassetteRequestError);
+    await expect(replayingFetch.fetch('https://api.example.com/b')).rejects.toThrow('no recorded request matches');
+  });
+});
@@ -0,0 +1,129 @@
+import { CircuitState, DefaultCircuitBreaker } from '../src/CircuitBreaker';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { CircuitOpenError, RequestAbortedError } from '../src/RateLimitingErrors';
+import { VirtualClock } from '../src/VirtualClock';
+
+const key = 'https://api.example.com';
+
+describe("CircuitBreaker", () => {
+  let clock: VirtualClock;
+  let transitions: string[];
+
+  const buildCircuitBreaker = (successThreshold: number = 1, maxHalfOpenProbes: number = 1): DefaultCircuitBreaker => {
+    const circuitBreaker = new DefaultCircuitBreaker({
+      failureThreshold: 2,
+      openDurationMillis: 1000,
+      successThreshold: successThreshold,
+      maxHalfOpenProbes: maxHalfOpenProbes
+    });
+    circuitBreaker.setClock(clock);
+    circuitBreaker.addStateChangeListener((circuitKey: string, fromState: CircuitState, toState: CircuitState) => {
+      transitions.push(`${fromState} -> ${toState}`);
+    });
+    return circuitBreaker;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    transitions = [];
+  });
+
+  test("the circuit should open after consecutive failures and close once probes succeed...", async () => {
+    const circuitBreaker = buildCircuitBreaker(2);
+    circuitBreaker.acquirePermission(key).release();
+    circuitBreaker.recordFailure(key);
+    circuitBreaker.recordSuccess(key);
+    circuitBreaker.recordFailure(key);
+    expect(circuitBreaker.getState(key)).toBe('closed');
+    circuitBreaker.recordFailure(key);
+    expect(circuitBreaker.getState(key)).toBe('open');
+
+    await clock.advance(400);
+    expect(() => circuitBreaker.acquirePermission(key)).toThrow(new CircuitOpenError(key, 600));
+
+    await clock.advance(600);
+    const firstProbe = circuitBreaker.acquirePermission(key);
+    expect(circuitBreaker.getState(key)).toBe('halfOpen');
+    circuitBreaker.recordSuccess(key);
+    firstProbe.release();
+    circuitBreaker.acquirePermission(key);
+    circuitBreaker.recordSuccess(key);
+
+    expect(circuitBreaker.getState(key)).toBe('closed');
+    expect(transitions).toEqual(['closed -> open', 'open -> halfOpen', 'halfOpen -> closed']);
+  });
+
+  test("a failed probe should re-open the circuit...", async () => {
+    const circuitBreaker = buildCircuitBreaker();
+    circuitBreaker.recordFailure(key);
+    circuitBreaker.recordFailure(key);
+    await clock.advance(1000);
+
+    const probe = circuitBreaker.acquirePermission(key);
+    circuitBreaker.recordFailure(key);
+    probe.release();
+
+    expect(circuitBreaker.getState(key)).toBe('open');
+    expect(() => circuitBreaker.acquirePermission(key)).toThrow(new CircuitOpenError(key, 1000));
+    expect(transitions).toEqual(['closed -> open', 'open -> halfOpen', 'halfOpen -> open']);
+  });
+
+  test("probe slots should be freed by releasing permits without an outcome...", async () => {
+    const circuitBreaker = buildCircuitBreaker();
+    circuitBreaker.recordFailure(key);
+    circuitBreaker.recordFailure(key);
+    await clock.advance(1000);
+
+    const abandonedProbe = circuitBreaker.acquirePermission(key);
+    let rejection: CircuitOpenError;
+    try {
+      circuitBreaker.acquirePermission(key);
+    } catch (error) {
+      rejection = error;
+    }
+    expect(rejection.retryAfterMillis).toBeUndefined();
+    expect(rejection.message).toBe(`Circuit for ${key} is half-open and its probe requests are still in flight.`);
+
+    abandonedProbe.release();
+    abandonedProbe.release();
+    const probe = circuitBreaker.acquirePermission(key);
+    expect(() => circuitBreaker.acquirePermission(key)).toThrow(CircuitOpenError);
+    circuitBreaker.recordSuccess(key);
+    probe.release();
+    expect(circuitBreaker.getState(key)).toBe('closed');
+  });
+
+  test("aborting a probe request should not leave the circuit rejecting requests...", async () => {
+    const url = `${key}/things`;
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      maxRetries: 0,
+      circuitBreaker: { failureThreshold: 1, openDurationMillis: 1000 }
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 503 })
+      .thenRespondWith({ status: 200, delayMillis: 500 })
+      .thenRespondWith({ status: 200 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+
+    expect((await rateLimitingFetch.fetch(url)).status).toBe(503);
+    await clock.advance(1000);
+    const abortController = new AbortController();
+    const probePromise = rateLimitingFetch.fetch(url, { signal: abortController.signal });
+    await clock.advance(100);
+    abortController.abort();
+    await expect(probePromise).rejects.toThrow(RequestAbortedError);
+
+    expect((await rateLimitingFetch.fetch(url)).status).toBe(200);
+    expect(rateLimitingFetch.circuitBreaker.getState(key)).toBe('closed');
+  });
+});
@@ -0,0 +1,130 @@
+import { ConcurrencyScheduler } from '../src/ConcurrencyScheduler';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { ConcurrencyOptions, nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { SimpleRateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { VirtualClock } from '../src/VirtualClock';
+
+const key = 'https://api.example.com';
+
+describe("ConcurrencyScheduler", () => {
+  test("queued attempts should be granted in order of priority and then arrival...", async () => {
+    const scheduler = new ConcurrencyScheduler({
+      maxConcurrency: 1
+    });
+    const firstPermit = await scheduler.acquire(key, 0);
+    const grantOrder: string[] = [];
+    const queuedPermits = [
+      scheduler.acquire(key, 0).then(permit => { grantOrder.push('background'); return permit; }),
+      scheduler.acquire(key, 10).then(permit => { grantOrder.push('critical'); return permit; }),
+      scheduler.acquire(key, 0).then(permit => { grantOrder.push('background later'); return permit; })
+    ];
+    expect(scheduler.getQueueDepth(key)).toBe(3);
+    firstPermit.release('success');
+    for (const queuedPermit of [queuedPermits[1], queuedPermits[0], queuedPermits[2]]) {
+      (await queuedPermit).release('success');
+    }
+    expect(grantOrder).toEqual(['critical', 'background', 'background later']);
+    expect(scheduler.getQueueDepth(key)).toBe(0);
+  });
+
+  test("the adaptive limit should be cut on rate limiting and grow back on success...", async () => {
+    const scheduler = new ConcurrencyScheduler({
+      maxConcurrency: 8,
+      adaptive: {
+        multiplicativeDecrease: 0.5
+      }
+    });
+    expect(scheduler.getConcurrencyLimit(key)).toBe(8);
+    (await scheduler.acquire(key, 0)).release('rateLimited');
+    expect(scheduler.getConcurrencyLimit(key)).toBe(4);
+    for (let attempt = 0; attempt < 4; attempt++) {
+      (await scheduler.acquire(key, 0)).release('success');
+    }
+    expect(scheduler.getConcurrencyLimit(key)).toBe(5);
+  });
+
+  test("503 responses should cut the adaptive limit whether or not they have a Retry-After header...", async () => {
+    const buildRateLimitingFetch = (concurrency: ConcurrencyOptions): [RateLimitingFetch, ConcurrencyScheduler] => {
+      const rateLimitingFetch = new RateLimitingFetch({
+        ...nonUiContextRateLimitingHandlingOptionsDefaults,
+        maxRetries: 0,
+        concurrency: concurrency
+      });
+      const scheduler = new ConcurrencyScheduler(concurrency);
+      rateLimitingFetch.setRequestScheduler(scheduler);
+      const mockingFetch = new MockingFetch();
+      rateLimitingFetch.setFetchImplementation(mockingFetch);
+      const scriptedMockFetchController = new ScriptedMockFetchController();
+      mockingFetch.setMockFetchController(scriptedMockFetchController);
+      scriptedMockFetchController
+        .when({ url: `${key}/things` })
+        .respondWith({ status: 503 })
+        .thenRespondWith({ status: 502 });
+      return [rateLimitingFetch, scheduler];
+    };
+
+    const [rateLimitingFetch, scheduler] = buildRateLimitingFetch({ maxConcurrency: 8, adaptive: {} });
+    expect((await rateLimitingFetch.fetch(`${key}/things`)).status).toBe(503);
+    expect(scheduler.getConcurrencyLimit(key)).toBe(4);
+    expect((await rateLimitingFetch.fetch(`${key}/things`)).status).toBe(502);
+    expect(scheduler.getConcurrencyLimit(key)).toBe(4);
+
+    const [configuredRateLimitingFetch, configuredScheduler] = buildRateLimitingFetch({
+      maxConcurrency: 8,
+      adaptive: { rateLimitedStatusCodes: [429, 502] }
+    });
+    await configuredRateLimitingFetch.fetch(`${key}/things`);
+    expect(configuredScheduler.getConcurrencyLimit(key)).toBe(8);
+    await configuredRateLimitingFetch.fetch(`${key}/things`);
+    expect(configuredScheduler.getConcurrencyLimit(key)).toBe(4);
+  });
+
+  test("attempts aborted while queued should not be recorded...", async () => {
+    const clock = new VirtualClock();
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      concurrency: { maxConcurrency: 1 }
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    const statsRecorder = new SimpleRateLimitingFetchStatsRecorder();
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+    const mockingFetch = new MockingFetch();
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController.setSleeper(clock);
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    scriptedMockFetchController
+      .when({ url: `${key}/things` })
+      .respondWith({ status: 200, delayMillis: 1000 })
+      .persist();
+
+    const firstResponsePromise = rateLimitingFetch.fetch(`${key}/things`);
+    const abortController = new AbortController();
+    const queuedResponsePromise = rateLimitingFetch.fetch(`${key}/things`, { signal: abortController.signal });
+    // The rejection is handled by the caller once time has been advanced...
+    queuedResponsePromise.catch(() => {});
+    await clock.advance(0);
+    abortController.abort();
+    await clock.runAll();
+
+    expect((await firstResponsePromise).status).toBe(200);
+    await expect(queuedResponsePromise).rejects.toThrow();
+    expect(statsRecorder.getRateLimitingFetchStats().fetchAttemptCount).toBe(1);
+    expect(scriptedMockFetchController.getReceivedRequests().length).toBe(1);
+  });
+
+  test("aborting a queued attempt should remove it from the queue...", async () => {
+    const scheduler = new ConcurrencyScheduler({
+      maxConcurrency: 1
+    });
+    await scheduler.acquire(key, 0);
+    const abortController = new AbortController();
+    const queuedPermit = scheduler.acquire(key, 0, abortController.signal);
+    abortController.abort();
+    await expect(queuedPermit).rejects.toThrow();
+    expect(scheduler.getQueueDepth(key)).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { CooldownCoordinator, parseCooldownMillis } from '../src/CooldownCoordinator';
+
+const key = 'https://api.example.com';
+
+describe("CooldownCoordinator", () => {
+  test("waiting requests should be released one at a time once the cooldown ends...", async () => {
+    const cooldownCoordinator = new CooldownCoordinator(100);
+    const startTime = new Date().getTime();
+    cooldownCoordinator.startCooldown(key, 1000, startTime);
+    const releaseTimes: number[] = [];
+    const delay = async (millis: number): Promise<void> => {
+      releaseTimes.push(new Date().getTime() + millis);
+    }
+    await Promise.all([1, 2, 3].map(() => cooldownCoordinator.waitForRelease(key, delay)));
+    expect(releaseTimes.length).toBe(3);
+    expect(releaseTimes[0] - startTime).toBe(1000);
+    expect(releaseTimes[1] - releaseTimes[0]).toBe(100);
+    expect(releaseTimes[2] - releaseTimes[1]).toBe(100);
+
+    // Other keys are unaffected...
+    expect(await cooldownCoordinator.waitForRelease('https://other.example.com', delay)).toBe(0);
+  });
+
+  test("the cooldown should be taken from the Retry-After header...", () => {
+    const response = new Response(null, {
+      status: 429,
+      headers: {
+        'Retry-After': '30'
+      }
+    });
+    expect(parseCooldownMillis(response, new Date().getTime())).toBe(30000);
+  });
+});
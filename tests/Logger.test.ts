@@ -0,0 +1,68 @@
+import { ConsoleLogger, JsonLinesLogger, NoopLogger } from '../src/Logger';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { VirtualClock } from '../src/VirtualClock';
+
+describe("Logger", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("console loggers should write messages at or above their minimum level with their fields...", () => {
+    const infoSpy = jest.spyOn(console, 'info').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const debugSpy = jest.spyOn(console, 'debug').mockImplementation(() => {});
+    const logger = new ConsoleLogger('info');
+
+    logger.debug('Sending attempt', { attempt: 1 });
+    logger.info('Response received', { url: 'https://api.example.com', status: 429 });
+    logger.warn('Attempt failed', { error: new TypeError('fetch failed') });
+
+    expect(debugSpy).not.toHaveBeenCalled();
+    expect(infoSpy).toHaveBeenCalledWith('Response received url="https://api.example.com" status=429');
+    expect(warnSpy).toHaveBeenCalledWith('Attempt failed error="TypeError: fetch failed"');
+  });
+
+  test("JSON lines loggers should write each message as a line of JSON...", () => {
+    const lines: string[] = [];
+    const logger = new JsonLinesLogger('warn', (line: string) => lines.push(line));
+
+    logger.info('Response received', { status: 200 });
+    logger.error('Lifecycle listener failed', { eventName: 'afterResponse', error: new Error('listener failed') });
+
+    expect(lines.length).toBe(1);
+    expect(JSON.parse(lines[0])).toEqual({
+      time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: 'error',
+      message: 'Lifecycle listener failed',
+      eventName: 'afterResponse',
+      error: { name: 'Error', message: 'listener failed' }
+    });
+  });
+
+  test("JSON lines loggers should timestamp messages with the injected clock...", async () => {
+    const lines: string[] = [];
+    const logger = new JsonLinesLogger('info', (line: string) => lines.push(line));
+    const clock = new VirtualClock(Date.UTC(2024, 0, 1));
+    const rateLimitingFetch = new RateLimitingFetch(nonUiContextRateLimitingHandlingOptionsDefaults);
+    rateLimitingFetch.setLogger(logger);
+    rateLimitingFetch.setClock(clock);
+
+    await clock.advance(1500);
+    logger.info('Response received');
+
+    expect(JSON.parse(lines[0]).time).toBe('2024-01-01T00:00:01.500Z');
+  });
+
+  test("noop loggers should not write anything...", () => {
+    const consoleSpies = ['debug', 'info', 'warn', 'error', 'log'].map(level => jest.spyOn(console, level as any).mockImplementation(() => {}));
+    const logger = new NoopLogger();
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error', { error: new Error('failed') });
+
+    consoleSpies.forEach(consoleSpy => expect(consoleSpy).not.toHaveBeenCalled());
+  });
+});
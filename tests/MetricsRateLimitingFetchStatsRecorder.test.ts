@@ -0,0 +1,78 @@
+import { MetricsRateLimitingFetchStatsRecorder } from '../src/MetricsRateLimitingFetchStatsRecorder';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { NoopLogger } from '../src/Logger';
+import { VirtualClock } from '../src/VirtualClock';
+
+const apiContext = { origin: 'https://api.example.com', method: 'GET' };
+const otherApiContext = { origin: 'https://other.example.com', method: 'POST' };
+
+describe("MetricsRateLimitingFetchStatsRecorder", () => {
+  test("it should break metrics down by origin, method and status and render them as Prometheus text...", () => {
+    const recorder = new MetricsRateLimitingFetchStatsRecorder({
+      latencyBucketsSeconds: [0.1, 1],
+      delayBucketsSeconds: [1, 10]
+    });
+    recorder.logFetchAttempt(apiContext);
+    recorder.logAttemptCompleted(apiContext, 429, 50);
+    recorder.logRetry(5000, apiContext);
+    recorder.logFetchAttempt(apiContext);
+    recorder.logAttemptCompleted(apiContext, 200, 500);
+    recorder.logFetchAttempt(otherApiContext);
+    recorder.logAttemptCompleted(otherApiContext, undefined, 20);
+    recorder.logCircuitRejection('https://other.example.com');
+
+    const text = recorder.renderMetricsText();
+    expect(text).toContain('# TYPE rate_limiting_fetch_attempts_total counter');
+    expect(text).toContain('rate_limiting_fetch_attempts_total{origin="https://api.example.com",method="GET"} 2');
+    expect(text).toContain('rate_limiting_fetch_responses_total{origin="https://api.example.com",method="GET",status="429"} 1');
+    expect(text).toContain('rate_limiting_fetch_responses_total{origin="https://other.example.com",method="POST",status="error"} 1');
+    expect(text).toContain('rate_limiting_fetch_attempt_duration_seconds_bucket{origin="https://api.example.com",method="GET",le="0.1"} 1');
+    expect(text).toContain('rate_limiting_fetch_attempt_duration_seconds_bucket{origin="https://api.example.com",method="GET",le="+Inf"} 2');
+    expect(text).toContain('rate_limiting_fetch_retry_delay_seconds_sum{origin="https://api.example.com",method="GET"} 5');
+    expect(text).toContain('rate_limiting_fetch_circuit_rejections_total{key="https://other.example.com"} 1');
+    expect(recorder.renderMetricsText('openMetrics')).toMatch(/# TYPE rate_limiting_fetch_attempts counter[\s\S]*# EOF\n$/);
+
+    const stats = recorder.getRateLimitingFetchStats();
+    expect(stats.fetchAttemptCount).toBe(3);
+    expect(stats.fetchRetryCount).toBe(1);
+    expect(stats.totalFetchRetryDelay).toBe(5000);
+
+    const snapshot = recorder.getSnapshot();
+    expect(snapshot.counters['rate_limiting_fetch_attempts_total']).toEqual([
+      { labels: apiContext, value: 2 },
+      { labels: otherApiContext, value: 1 }
+    ]);
+
+    recorder.reset();
+    expect(recorder.getRateLimitingFetchStats().fetchAttemptCount).toBe(0);
+  });
+
+  test("the metrics should be reset by the injected clock and reported through the injected logger...", async () => {
+    const clock = new VirtualClock();
+    const loggedMessages: string[] = [];
+    const logger = new NoopLogger();
+    logger.info = (message: string) => {
+      loggedMessages.push(message);
+    };
+    const recorder = new MetricsRateLimitingFetchStatsRecorder({
+      resetIntervalMillis: 60000
+    });
+    const rateLimitingFetch = new RateLimitingFetch(nonUiContextRateLimitingHandlingOptionsDefaults);
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setLogger(logger);
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(recorder);
+
+    recorder.logFetchAttempt(apiContext);
+    await clock.advance(59999);
+    recorder.logFetchAttempt(apiContext);
+    expect(recorder.getRateLimitingFetchStats().fetchAttemptCount).toBe(2);
+    await clock.advance(1);
+    recorder.logFetchAttempt(apiContext);
+    expect(recorder.getRateLimitingFetchStats().fetchAttemptCount).toBe(1);
+
+    recorder.reportToConsole();
+    expect(loggedMessages).toEqual([recorder.renderMetricsText()]);
+    expect(loggedMessages[0]).toContain('rate_limiting_fetch_attempts_total{origin="https://api.example.com",method="GET"} 1');
+  });
+});
@@ -0,0 +1,103 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { isRetryableNetworkError } from '../src/NetworkErrors';
+import { RequestAbortedError, RequestTimeoutError } from '../src/RateLimitingErrors';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/orders';
+
+/**
+ * Builds the error the in-built `fetch` throws when the connection is reset.
+ */
+const buildConnectionResetError = (): TypeError => {
+  return Object.assign(new TypeError('fetch failed'), { cause: Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' }) });
+}
+
+describe("NetworkErrors", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+
+  const buildRateLimitingFetch = (options: Partial<RateLimitingHandlingOptions> = {}): RateLimitingFetch => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      ...options
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    return rateLimitingFetch;
+  };
+
+  const fetchWithRetries = async (rateLimitingFetch: RateLimitingFetch, init?: RequestInit): Promise<Response> => {
+    const responsePromise = rateLimitingFetch.fetch(url, init);
+    // The rejection is handled by the caller once time has been advanced...
+    responsePromise.catch(() => {});
+    await clock.runAll();
+    return await responsePromise;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ error: buildConnectionResetError() })
+      .thenRespondWith({ status: 200 });
+  });
+
+  test("idempotent requests should be retried after transient network errors...", async () => {
+    scriptedMockFetchController
+      .when({ method: 'PUT', url: url })
+      .respondWith({ error: buildConnectionResetError() })
+      .thenRespondWith({ status: 200 });
+    const rateLimitingFetch = buildRateLimitingFetch();
+
+    expect((await fetchWithRetries(rateLimitingFetch)).status).toBe(200);
+    expect((await fetchWithRetries(rateLimitingFetch, { method: 'PUT', body: '{}' })).status).toBe(200);
+    scriptedMockFetchController.expectRequestCount(4);
+  });
+
+  test("non-idempotent requests should only be retried if they have an Idempotency-Key header...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+
+    await expect(fetchWithRetries(rateLimitingFetch, { method: 'POST', body: '{}' })).rejects.toThrow('fetch failed');
+    scriptedMockFetchController.expectRequestCount(1);
+
+    scriptedMockFetchController.reset();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ error: buildConnectionResetError() })
+      .thenRespondWith({ status: 201 });
+    const response = await fetchWithRetries(rateLimitingFetch, {
+      method: 'POST',
+      body: '{}',
+      headers: { 'Idempotency-Key': 'order-1' }
+    });
+    expect(response.status).toBe(201);
+    scriptedMockFetchController.expectRequestCount(2);
+  });
+
+  test("network errors should not be retried if retryNetworkErrors is false...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch({ retryNetworkErrors: false });
+
+    await expect(fetchWithRetries(rateLimitingFetch)).rejects.toThrow('fetch failed');
+    scriptedMockFetchController.expectRequestCount(1);
+  });
+
+  test("only transient errors and attempt timeouts should be retryable...", () => {
+    expect(isRetryableNetworkError(buildConnectionResetError())).toBe(true);
+    expect(isRetryableNetworkError(Object.assign(new Error('getaddrinfo EAI_AGAIN'), { code: 'EAI_AGAIN' }))).toBe(true);
+    expect(isRetryableNetworkError(new Error('socket hang up'))).toBe(true);
+    expect(isRetryableNetworkError(new RequestTimeoutError('attempt', 1000))).toBe(true);
+
+    expect(isRetryableNetworkError(new RequestTimeoutError('deadline', 1000))).toBe(false);
+    expect(isRetryableNetworkError(new RequestAbortedError(undefined))).toBe(false);
+    expect(isRetryableNetworkError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(false);
+    expect(isRetryableNetworkError(new TypeError('Invalid URL'))).toBe(false);
+  });
+});
@@ -0,0 +1,129 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { SimpleRateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { MetricsRateLimitingFetchStatsRecorder } from '../src/MetricsRateLimitingFetchStatsRecorder';
+import { authorizationPartitionKeyExtractor } from '../src/RequestUtils';
+import { DefaultRetryBudget } from '../src/RetryBudget';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/graphql';
+
+describe("Partitioning", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+
+  const buildRateLimitingFetch = (options: Partial<RateLimitingHandlingOptions>): RateLimitingFetch => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      ...options
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    return rateLimitingFetch;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+  });
+
+  test("a cooldown of one partition should not hold back the requests of other partitions...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '10' } })
+      .thenRespondWith({ status: 200 })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch({
+      maxRetries: 0,
+      cooldown: {},
+      partitioning: { keyExtractor: authorizationPartitionKeyExtractor }
+    });
+    const statsRecorder = new SimpleRateLimitingFetchStatsRecorder();
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+    const noisyTenant = { headers: { 'Authorization': 'Bearer noisy' } };
+    const quietTenant = { headers: { 'Authorization': 'Bearer quiet' } };
+
+    expect((await rateLimitingFetch.fetch(url, noisyTenant)).status).toBe(429);
+    const noisyResponsePromise = rateLimitingFetch.fetch(url, noisyTenant);
+    expect((await rateLimitingFetch.fetch(url, quietTenant)).status).toBe(200);
+    expect(clock.now()).toBe(0);
+    await clock.runAll();
+    expect((await noisyResponsePromise).status).toBe(200);
+    expect(clock.now()).toBe(10000);
+
+    const partitionKeys = statsRecorder.getPartitionKeys();
+    expect(partitionKeys.length).toBe(2);
+    expect(partitionKeys.every(partitionKey => /^authorization:[0-9a-f]{16}$/.test(partitionKey))).toBe(true);
+    const noisyPartitionKey = authorizationPartitionKeyExtractor(url, noisyTenant);
+    expect(statsRecorder.getRateLimitingFetchStats(noisyPartitionKey)).toMatchObject({ fetchAttemptCount: 2, fetchThrottleCount: 1 });
+    expect(statsRecorder.getRateLimitingFetchStats(authorizationPartitionKeyExtractor(url, quietTenant)))
+      .toMatchObject({ fetchAttemptCount: 1, fetchThrottleCount: 0 });
+    expect(statsRecorder.getRateLimitingFetchStats().fetchAttemptCount).toBe(3);
+  });
+
+  test("requests should consume throttling tokens by their cost...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200 })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch({
+      throttling: { algorithm: 'tokenBucket', bucketCapacity: 10, refillTokensPerSecond: 1 },
+      costExtractor: () => 4
+    });
+
+    await rateLimitingFetch.fetch(url);
+    await rateLimitingFetch.fetch(url);
+    const responsePromise = rateLimitingFetch.fetch(url);
+    await clock.runAll();
+    await responsePromise;
+    // The request option takes precedence over the extractor...
+    const cheapResponsePromise = rateLimitingFetch.fetch(url, undefined, { cost: 1 });
+    await clock.runAll();
+    await cheapResponsePromise;
+
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([0, 2000, 1000]);
+  });
+
+  test("partitions should be throttled and reported separately through request options...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200 })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch({
+      throttling: { algorithm: 'slidingWindow', maxRequestsPerWindow: 5, windowMillis: 1000 }
+    });
+    const statsRecorder = new MetricsRateLimitingFetchStatsRecorder();
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+
+    await rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a', cost: 5 });
+    await rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-b', cost: 5 });
+    expect(clock.now()).toBe(0);
+    const responsePromise = rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a' });
+    await clock.runAll();
+    await responsePromise;
+    expect(clock.now()).toBe(1000);
+
+    expect(statsRecorder.getRateLimitingFetchStats('tenant-a')).toMatchObject({ fetchAttemptCount: 2, fetchThrottleCount: 1 });
+    expect(statsRecorder.getRateLimitingFetchStats('tenant-b')).toMatchObject({ fetchAttemptCount: 1, fetchThrottleCount: 0 });
+    expect(statsRecorder.renderMetricsText()).toContain('rate_limiting_fetch_attempts_total{origin="https://api.example.com",method="GET",partition="tenant-a"} 2');
+  });
+
+  test("retry budgets should be spent per partition...", () => {
+    const retryBudget = new DefaultRetryBudget({ retryRatio: 0.5 });
+    retryBudget.recordRequest('tenant-a');
+    retryBudget.recordRequest('tenant-a');
+    retryBudget.recordRequest('tenant-b');
+    retryBudget.recordRequest('tenant-b');
+
+    expect(retryBudget.tryWithdrawRetry('tenant-a')).toBe(true);
+    expect(retryBudget.tryWithdrawRetry('tenant-a')).toBe(false);
+    expect(retryBudget.tryWithdrawRetry('tenant-b')).toBe(true);
+    expect(retryBudget.tryWithdrawRetry()).toBe(false);
+  });
+});
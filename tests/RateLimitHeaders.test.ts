@@ -0,0 +1,59 @@
+import { parseRateLimitQuota, parseRetryAfterMillis } from '../src/RateLimitHeaders';
+
+const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+
+describe("RateLimitHeaders", () => {
+  test("it should parse Retry-After as seconds or as an HTTP-date relative to the server Date header...", () => {
+    expect(parseRetryAfterMillis(new Headers({ 'Retry-After': '5' }), now)).toBe(5000);
+    expect(parseRetryAfterMillis(new Headers({ 'Retry-After': 'Mon, 19 Oct 2026 12:00:30 GMT' }), now)).toBe(30000);
+
+    // The local clock is 10 seconds ahead of the server's clock...
+    const skewedHeaders = new Headers({
+      'Retry-After': 'Mon, 19 Oct 2026 11:50:30 GMT',
+      'Date': 'Mon, 19 Oct 2026 11:50:00 GMT'
+    });
+    expect(parseRetryAfterMillis(skewedHeaders, now)).toBe(30000);
+
+    expect(parseRetryAfterMillis(new Headers({ 'Retry-After': 'soon' }), now)).toBeUndefined();
+    expect(parseRetryAfterMillis(new Headers(), now)).toBeUndefined();
+  });
+
+  test("it should parse the IETF RateLimit and RateLimit-Policy headers...", () => {
+    expect(parseRateLimitQuota(new Headers({
+      'RateLimit': 'limit=100, remaining=50, reset=30'
+    }), now)).toEqual({ limit: 100, remaining: 50, resetDelayMillis: 30000 });
+    expect(parseRateLimitQuota(new Headers({
+      'RateLimit': '"burst";r=20;t=1, "daily";r=5;t=3600',
+      'RateLimit-Policy': '"burst";q=100;w=1, "daily";q=1000;w=86400'
+    }), now)).toEqual({ limit: 1000, remaining: 5, resetDelayMillis: 3600000, windowMillis: 86400000 });
+    expect(parseRateLimitQuota(new Headers({
+      'RateLimit': '"burst";r=2;t=1, "daily";r=500;t=3600',
+      'RateLimit-Policy': '"daily";q=1000;w=86400, "burst";q=10;w=1'
+    }), now)).toEqual({ limit: 10, remaining: 2, resetDelayMillis: 1000, windowMillis: 1000 });
+
+    // The limit of a policy the RateLimit header does not describe is not mixed in...
+    expect(parseRateLimitQuota(new Headers({
+      'RateLimit': '"daily";r=5;t=3600',
+      'RateLimit-Policy': '"burst";q=100;w=1'
+    }), now)).toEqual({ remaining: 5, resetDelayMillis: 3600000 });
+    expect(parseRateLimitQuota(new Headers({
+      'RateLimit-Policy': '100;w=60, 1000;w=3600'
+    }), now)).toEqual({ limit: 100, windowMillis: 60000 });
+  });
+
+  test("it should parse X-RateLimit headers with delta, epoch seconds and epoch millisecond resets...", () => {
+    expect(parseRateLimitQuota(new Headers({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': '15'
+    }), now)).toEqual({ limit: 60, remaining: 0, resetDelayMillis: 15000 });
+    expect(parseRateLimitQuota(new Headers({
+      'X-RateLimit-Remaining': '3',
+      'X-RateLimit-Reset': `${now / 1000 + 20}`
+    }), now)).toEqual({ remaining: 3, resetDelayMillis: 20000 });
+    expect(parseRateLimitQuota(new Headers({
+      'X-RateLimit-Reset': `${now + 2500}`
+    }), now)).toEqual({ resetDelayMillis: 2500 });
+    expect(parseRateLimitQuota(new Headers(), now)).toBeUndefined();
+  });
+});
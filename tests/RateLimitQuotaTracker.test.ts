@@ -0,0 +1,99 @@
+import { RateLimitQuotaTracker } from '../src/RateLimitQuotaTracker';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { VirtualClock } from '../src/VirtualClock';
+
+const key = 'https://api.example.com';
+
+describe("RateLimitQuotaTracker", () => {
+  test("requests should not be held back while the remaining quota is above the reserve...", () => {
+    const quotaTracker = new RateLimitQuotaTracker(0.2);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(0);
+
+    quotaTracker.recordQuota(key, { limit: 10, remaining: 4, resetDelayMillis: 10000 }, 0);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(0);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(0);
+  });
+
+  test("requests within the reserve should be spread over the time remaining until the quota resets...", () => {
+    const quotaTracker = new RateLimitQuotaTracker(0.5);
+    quotaTracker.recordQuota(key, { limit: 10, remaining: 4, resetDelayMillis: 8000 }, 0);
+
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(0);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(2000);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBeCloseTo(2000 + 8000 / 3);
+    // The time that has passed is deducted from the wait for the next paced send...
+    expect(quotaTracker.computePacingDelayMillis(key, 4000)).toBeCloseTo(2000 + 8000 / 3 + 8000 / 2 - 4000);
+  });
+
+  test("requests should be held back until the reset once the quota is spent...", () => {
+    const quotaTracker = new RateLimitQuotaTracker(0.1);
+    quotaTracker.recordQuota(key, { limit: 100, remaining: 0, resetDelayMillis: 30000 }, 1000);
+
+    expect(quotaTracker.computePacingDelayMillis(key, 1000)).toBe(30000);
+    expect(quotaTracker.computePacingDelayMillis(key, 11000)).toBe(20000);
+    expect(quotaTracker.computePacingDelayMillis(key, 31000)).toBe(0);
+    expect(quotaTracker.computePacingDelayMillis(key, 31000)).toBe(0);
+  });
+
+  test("requests held back until the reset should be spread over the next window of the quota...", () => {
+    const quotaTracker = new RateLimitQuotaTracker(0.1);
+    quotaTracker.recordQuota(key, { limit: 10, remaining: 0, resetDelayMillis: 30000, windowMillis: 60000 }, 0);
+
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(30000);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(36000);
+    expect(quotaTracker.computePacingDelayMillis(key, 1000, 2)).toBe(41000);
+    expect(quotaTracker.computePacingDelayMillis(key, 1000)).toBe(53000);
+  });
+
+  test("requests costing more than the remaining quota should be held back until the reset...", () => {
+    const quotaTracker = new RateLimitQuotaTracker(0);
+    quotaTracker.recordQuota(key, { limit: 100, remaining: 5, resetDelayMillis: 10000 }, 0);
+
+    expect(quotaTracker.computePacingDelayMillis(key, 0, 10)).toBe(10000);
+    expect(quotaTracker.computePacingDelayMillis(key, 0, 5)).toBe(0);
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(10000);
+  });
+
+  test("quotas without a remaining count or reset should be ignored...", () => {
+    const quotaTracker = new RateLimitQuotaTracker(1);
+    quotaTracker.recordQuota(key, { limit: 100, remaining: 0 }, 0);
+    quotaTracker.recordQuota(key, { limit: 100, resetDelayMillis: 10000 }, 0);
+
+    expect(quotaTracker.computePacingDelayMillis(key, 0)).toBe(0);
+  });
+
+  test("requests should be paced against the limit of the policy with the fewest requests remaining...", async () => {
+    const clock = new VirtualClock();
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      quotaPacing: { reserveFraction: 0.1 }
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    const mockingFetch = new MockingFetch();
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    scriptedMockFetchController
+      .when({ url: `${key}/things` })
+      .respondWith({
+        status: 200,
+        headers: {
+          'RateLimit': '"burst";r=50;t=1, "daily";r=40;t=3600',
+          'RateLimit-Policy': '"burst";q=60;w=1, "daily";q=1000;w=86400'
+        }
+      })
+      .persist();
+
+    // The 40 requests remaining of the daily policy are within its reserve of 100 requests...
+    await rateLimitingFetch.fetch(`${key}/things`);
+    const responsePromises = [1, 2].map(() => rateLimitingFetch.fetch(`${key}/things`));
+    await clock.runAll();
+    await Promise.all(responsePromises);
+
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([0, 90000]);
+  });
+});
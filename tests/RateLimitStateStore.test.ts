@@ -0,0 +1,185 @@
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs, writeFileSync } from 'fs';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { InMemoryRateLimitStateStore, RateLimitStateStore } from '../src/RateLimitStateStore';
+import { FileRateLimitStateStore } from '../src/FileRateLimitStateStore';
+import { VirtualClock } from '../src/VirtualClock';
+import { TokenBucketThrottler } from '../src/Throttler';
+
+const url = 'https://api.example.com/things';
+
+describe("RateLimitStateStore", () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rate-limit-state-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("instances sharing a store should wait for a cooldown started by another instance...", async () => {
+    const stateStore = new InMemoryRateLimitStateStore();
+    const clock = new VirtualClock();
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '10' } })
+      .thenRespondWith({ status: 200 })
+      .persist();
+    const buildRateLimitingFetch = (): RateLimitingFetch => {
+      const rateLimitingFetch = new RateLimitingFetch({
+        ...nonUiContextRateLimitingHandlingOptionsDefaults,
+        maxRetries: 0,
+        cooldown: {}
+      });
+      rateLimitingFetch.setClock(clock);
+      rateLimitingFetch.setSleeper(clock);
+      const mockingFetch = new MockingFetch();
+      mockingFetch.setMockFetchController(scriptedMockFetchController);
+      rateLimitingFetch.setFetchImplementation(mockingFetch);
+      rateLimitingFetch.setRateLimitStateStore(stateStore);
+      return rateLimitingFetch;
+    };
+    const firstWorker = buildRateLimitingFetch();
+    const secondWorker = buildRateLimitingFetch();
+
+    expect((await firstWorker.fetch(url)).status).toBe(429);
+    expect((await stateStore.get('https://api.example.com')).cooldown.endTime).toBe(10000);
+
+    const responsePromise = secondWorker.fetch(url);
+    await clock.advance(9999);
+    scriptedMockFetchController.expectRequestCount(1);
+    await clock.advance(1);
+    expect((await responsePromise).status).toBe(200);
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([10000]);
+  });
+
+  test("token bucket throttlers sharing a store should share their buckets...", async () => {
+    const stateStore = new InMemoryRateLimitStateStore();
+    const clock = new VirtualClock();
+    const buildThrottler = (): TokenBucketThrottler => {
+      const throttler = new TokenBucketThrottler({ algorithm: 'tokenBucket', bucketCapacity: 2, refillTokensPerSecond: 1 });
+      throttler.setClock(clock);
+      throttler.setSleeper(clock);
+      throttler.setRateLimitStateStore(stateStore);
+      return throttler;
+    };
+    const firstThrottler = buildThrottler();
+    const secondThrottler = buildThrottler();
+    expect(await firstThrottler.throttle(url)).toBe(0);
+    expect(await secondThrottler.throttle(url)).toBe(0);
+
+    const throttlePromise = secondThrottler.throttle(url);
+    await clock.runAll();
+    expect(await throttlePromise).toBe(1000);
+  });
+
+  test("throttlers should admit requests again once a failing store recovers...", async () => {
+    const stateStore = new InMemoryRateLimitStateStore();
+    let failedUpdateCount = 0;
+    const flakyStateStore: RateLimitStateStore = {
+      get: stateStore.get,
+      update: async (key, updater) => {
+        if (failedUpdateCount++ === 0) {
+          throw new Error('store unavailable');
+        }
+        return await stateStore.update(key, updater);
+      }
+    };
+    const throttler = new TokenBucketThrottler({ algorithm: 'tokenBucket', bucketCapacity: 2, refillTokensPerSecond: 1 });
+    throttler.setClock(new VirtualClock());
+    throttler.setRateLimitStateStore(flakyStateStore);
+
+    const failedThrottlePromise = throttler.throttle(url);
+    const queuedThrottlePromise = throttler.throttle(url);
+    await expect(failedThrottlePromise).rejects.toThrow('store unavailable');
+    expect(await queuedThrottlePromise).toBe(0);
+    expect(await throttler.throttle(url)).toBe(0);
+  });
+
+  test("file stores on the same file should apply concurrent updates atomically...", async () => {
+    const filePath = path.join(directory, 'state.json');
+    const stateStores: RateLimitStateStore[] = [1, 2, 3, 4].map(() => new FileRateLimitStateStore({ filePath: filePath }));
+    await Promise.all(Array.from({ length: 40 }, (value, index) => stateStores[index % stateStores.length].update('key', (state) => ({
+      ...state,
+      tokenBucket: { tokens: (state?.tokenBucket?.tokens ?? 0) + 1, lastRefillTime: 0 }
+    }))));
+
+    expect((await new FileRateLimitStateStore({ filePath: filePath }).get('key')).tokenBucket.tokens).toBe(40);
+    expect(await fs.readdir(directory)).toEqual(['state.json']);
+  });
+
+  test("file stores should remove the state of other keys once its windows have passed...", async () => {
+    const filePath = path.join(directory, 'pruned.json');
+    await fs.writeFile(filePath, JSON.stringify({
+      'ended': { cooldown: { endTime: 1000 } },
+      'reset': { quota: { limit: 10, remaining: 0, resetTime: 1000, nextSendTime: 0 } },
+      'partly ended': { cooldown: { endTime: 1000 }, quota: { limit: 10, remaining: 5, resetTime: 5000, nextSendTime: 0 } },
+      'bucket': { tokenBucket: { tokens: 1, lastRefillTime: 0 } }
+    }));
+    const clock = new VirtualClock();
+    await clock.advance(2000);
+    const stateStore = new FileRateLimitStateStore({ filePath: filePath });
+    stateStore.setClock(clock);
+
+    await stateStore.update('key', () => ({ cooldown: { endTime: 1000 } }));
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8'))).toEqual({
+      'partly ended': { quota: { limit: 10, remaining: 5, resetTime: 5000, nextSendTime: 0 } },
+      'bucket': { tokenBucket: { tokens: 1, lastRefillTime: 0 } },
+      'key': { cooldown: { endTime: 1000 } }
+    });
+  });
+
+  test("file stores should remove locks abandoned by processes that died...", async () => {
+    const filePath = path.join(directory, 'abandoned.json');
+    await fs.writeFile(`${filePath}.lock`, '12345');
+    const staleTime = new Date(new Date().getTime() - 60000);
+    await fs.utimes(`${filePath}.lock`, staleTime, staleTime);
+
+    const stateStore = new FileRateLimitStateStore({ filePath: filePath, lockTimeoutMillis: 1000 });
+    await stateStore.update('key', () => ({ cooldown: { endTime: 5 } }));
+    expect((await stateStore.get('key')).cooldown.endTime).toBe(5);
+  });
+
+  test("only one of the file stores finding an abandoned lock should take it over...", async () => {
+    const filePath = path.join(directory, 'taken-over.json');
+    await fs.writeFile(`${filePath}.lock`, JSON.stringify({ owner: 'dead', acquiredTime: Date.now() - 60000 }));
+    const stateStores = [1, 2, 3, 4].map(() => new FileRateLimitStateStore({ filePath: filePath, lockTimeoutMillis: 1000 }));
+
+    await Promise.all(stateStores.map(stateStore => stateStore.update('key', (state) => ({
+      ...state,
+      tokenBucket: { tokens: (state?.tokenBucket?.tokens ?? 0) + 1, lastRefillTime: 0 }
+    }))));
+    expect((await stateStores[0].get('key')).tokenBucket.tokens).toBe(4);
+    expect((await fs.readdir(directory)).filter(fileName => fileName.startsWith('taken-over'))).toEqual(['taken-over.json']);
+  });
+
+  test("file stores should time locks by the wall clock rather than the injected clock...", async () => {
+    const filePath = path.join(directory, 'wall-clock.json');
+    await fs.writeFile(`${filePath}.lock`, JSON.stringify({ owner: 'dead', acquiredTime: Date.now() - 60000 }));
+    const stateStore = new FileRateLimitStateStore({ filePath: filePath, lockTimeoutMillis: 1000 });
+    // A virtual clock far behind the wall clock must not make an abandoned lock look recent...
+    stateStore.setClock(new VirtualClock());
+
+    await stateStore.update('key', () => ({ cooldown: { endTime: 5 } }));
+    expect((await stateStore.get('key')).cooldown.endTime).toBe(5);
+  });
+
+  test("file stores should not remove a lock that another process took over...", async () => {
+    const filePath = path.join(directory, 'stolen.json');
+    const otherLock = JSON.stringify({ owner: 'other', acquiredTime: 0 });
+    const stateStore = new FileRateLimitStateStore({ filePath: filePath });
+
+    await stateStore.update('key', () => {
+      writeFileSync(`${filePath}.lock`, otherLock);
+      return { cooldown: { endTime: 5 } };
+    });
+    expect(await fs.readFile(`${filePath}.lock`, 'utf8')).toBe(otherLock);
+  });
+});
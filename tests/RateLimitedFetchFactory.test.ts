@@ -0,0 +1,71 @@
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { createRateLimitedFetch, install, isInstalled, runWithRateLimitedFetch, uninstall } from '../src/RateLimitedFetchFactory';
+
+const url = 'https://api.example.com/things';
+
+const options: RateLimitingHandlingOptions = {
+  ...nonUiContextRateLimitingHandlingOptionsDefaults,
+  initialRetryDelayMillis: 1,
+  maxRetryDelayMillis: 10
+};
+
+describe("RateLimitedFetchFactory", () => {
+  const realFetch = globalThis.fetch;
+  let requestedUrls: string[];
+
+  beforeEach(() => {
+    requestedUrls = [];
+    let requestCount = 0;
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      requestedUrls.push(`${input}`);
+      return new Response(null, { status: requestCount++ === 0 ? 429 : 200 });
+    };
+  });
+
+  afterEach(() => {
+    uninstall();
+    globalThis.fetch = realFetch;
+  });
+
+  test("created fetch functions should accept URL objects and retry rate limited responses...", async () => {
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429 })
+      .thenRespondWith({ status: 200 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    const rateLimitedFetch: typeof fetch = createRateLimitedFetch(options, mockingFetch);
+
+    expect((await rateLimitedFetch(new URL(url))).status).toBe(200);
+    scriptedMockFetchController.expectRequestCount(2);
+  });
+
+  test("installing should wrap the global fetch until it is uninstalled...", async () => {
+    const originalFetch = globalThis.fetch;
+    const rateLimitedFetch = install(options);
+    expect(globalThis.fetch).toBe(rateLimitedFetch);
+    expect(isInstalled()).toBe(true);
+    expect(() => install(options)).toThrow('already installed');
+
+    expect((await fetch(url)).status).toBe(200);
+    expect(requestedUrls).toEqual([url, url]);
+
+    uninstall();
+    expect(globalThis.fetch).toBe(originalFetch);
+    expect(isInstalled()).toBe(false);
+  });
+
+  test("scoped installs should be uninstalled once the scope settles...", async () => {
+    const originalFetch = globalThis.fetch;
+    await expect(runWithRateLimitedFetch(async () => {
+      expect((await fetch(url)).status).toBe(200);
+      throw new Error('scope failed');
+    }, options)).rejects.toThrow('scope failed');
+
+    expect(globalThis.fetch).toBe(originalFetch);
+    expect(requestedUrls.length).toBe(2);
+  });
+});
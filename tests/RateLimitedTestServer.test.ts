@@ -0,0 +1,78 @@
+import { RateLimitedTestServer } from '../src/RateLimitedTestServer';
+
+describe("RateLimitedTestServer", () => {
+  let server: undefined | RateLimitedTestServer = undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await server.stop();
+      server = undefined;
+    }
+  });
+
+  test("it should rate limit requests over a fixed window quota with rate limit headers...", async () => {
+    server = new RateLimitedTestServer({
+      quota: { algorithm: 'fixedWindow', limit: 2, windowMillis: 60000 }
+    });
+    await server.start();
+
+    const statuses: number[] = [];
+    let lastResponse: undefined | Response = undefined;
+    for (let i = 0; i < 3; i++) {
+      lastResponse = await fetch(server.getUrl('/things'));
+      statuses.push(lastResponse.status);
+      await lastResponse.text();
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(lastResponse.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(lastResponse.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(parseInt(lastResponse.headers.get('Retry-After'))).toBeGreaterThanOrEqual(59);
+    expect(server.getRequestLog().map(entry => entry.outcome)).toEqual(['success', 'success', 'rateLimited']);
+  });
+
+  test("it should keep separate quotas per client key...", async () => {
+    server = new RateLimitedTestServer({
+      quota: { algorithm: 'tokenBucket', bucketCapacity: 1, refillTokensPerSecond: 0.1 },
+      clientKeyHeader: 'X-Client-Id'
+    });
+    await server.start();
+
+    const fetchStatus = async (clientId: string): Promise<number> => {
+      const response = await fetch(server.getUrl(), { headers: { 'X-Client-Id': clientId } });
+      await response.text();
+      return response.status;
+    };
+    expect(await fetchStatus('a')).toBe(200);
+    expect(await fetchStatus('b')).toBe(200);
+    expect(await fetchStatus('a')).toBe(429);
+    expect(server.getRequestLog().map(entry => entry.clientKey)).toEqual(['a', 'b', 'a']);
+  });
+
+  test("it should draw latency jitter from the injected random source...", async () => {
+    // A jitter of up to a minute would time the test out unless the injected random source is used...
+    server = new RateLimitedTestServer({ latencyJitterMillis: 60000, random: { random: () => 0 } });
+    await server.start();
+
+    const response = await fetch(server.getUrl());
+    await response.text();
+    expect(response.status).toBe(200);
+  });
+
+  test("it should inject fault bursts and record request bodies...", async () => {
+    server = new RateLimitedTestServer({
+      faultBursts: [{ status: 500, count: 2, afterRequests: 1 }]
+    });
+    await server.start();
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const response = await fetch(server.getUrl('/echo'), { method: 'POST', body: `request ${i}` });
+      statuses.push(response.status);
+      await response.text();
+    }
+    expect(statuses).toEqual([200, 500, 500, 200]);
+    const requestLog = server.getRequestLog();
+    expect(requestLog[3].body).toBe('request 3');
+    expect(requestLog[1].outcome).toBe('fault');
+  });
+});
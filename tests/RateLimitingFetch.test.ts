@@ -1,6 +1,11 @@
 import { RateLimitingFetch } from '../src/RateLimitingFetch';
 import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
 import { MockFetchInfo, MockingFetch, SimpleMockFetchController } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { UnmatchedMockRequestError } from '../src/RateLimitingErrors';
+import { RateLimitedTestServer } from '../src/RateLimitedTestServer';
+import { RateLimitingFetchStats, RateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { VirtualClock } from '../src/VirtualClock';
 
 // The fetch parameters to test with...
 const dadJokeId = '0189hNRf2g';
@@ -21,32 +26,124 @@ describe("RateLimitingFetch", () => {
     const mockingFetch = new MockingFetch();
     rateLimitingFetch.setFetchImplementation(mockingFetch);
 
-    // Create an instance of RandomMockFetchController and inject it...
+    // Script the backend to rate limit the first request and then return the joke...
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    scriptedMockFetchController
+      .when({ method: 'GET', url: dadJokeUrl })
+      .respondWith({ status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '1' } })
+      .thenRespondWith({ status: 200, body: { id: dadJokeId, joke: 'I used to hate facial hair, but then it grew on me.' } });
+
+    // Fetch the joke...
+    const expected200Response = await rateLimitingFetch.fetch(dadJokeUrl, options);
+    expect(expected200Response.status).toBe(200);
+    const json = await expected200Response.json();
+    expect(json.id).toBe(dadJokeId);
+
+    // The rate limited request should have been retried after the Retry-After delay...
+    scriptedMockFetchController.expectRequestCount(2, { url: dadJokeUrl });
+    scriptedMockFetchController.expectMinRequestIntervalMillis(1000);
+    scriptedMockFetchController.expectAllResponsesUsed();
+    expect(scriptedMockFetchController.getReceivedRequests()[0].headers.get('Accept')).toBe('application/json');
+  });
+
+  test("it should return real responses for mocked rate limiting...", async () => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      maxRetries: 0
+    });
+    const mockingFetch = new MockingFetch();
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
     const simpleMockFetchController = new SimpleMockFetchController();
     mockingFetch.setMockFetchController(simpleMockFetchController);
-
-    // Cause the next fetch to return a 429 response...
-    const addRetryAfterResponseHeader = (headers: Map<string, string>): void => {
-      headers.set('Retry-After', '5');
-    }
-    let nextMockFetchInfo: undefined | MockFetchInfo = {
+    const nextMockFetchInfo: MockFetchInfo = {
       responseStatusCode: 429,
       responseStatusText: 'Too Many Requests',
-      addResponseHeaders: addRetryAfterResponseHeader
+      addResponseHeaders: (headers: Map<string, string>): void => {
+        headers.set('Retry-After', '5');
+      }
     }
     simpleMockFetchController.setNextMockFetchInfo(nextMockFetchInfo);
 
-    // Attempt to fetch the joke, but with the fetch operation mocked to return a 429 response...
     const expected429Response = await rateLimitingFetch.fetch(dadJokeUrl, options);
-    expect(expected429Response.status === 429);
+    expect(expected429Response.status).toBe(429);
+    expect(expected429Response.url).toBe(dadJokeUrl);
+    expect(expected429Response.headers.get('Retry-After')).toBe('5');
+    expect(await expected429Response.clone().text()).toBe('');
+  });
 
-    // Clear the mocked error so that the next fetch is successful...
-    simpleMockFetchController.setNextMockFetchInfo(undefined);
+  test("it should fail loudly on requests that are not scripted...", async () => {
+    const rateLimitingFetch = new RateLimitingFetch(nonUiContextRateLimitingHandlingOptionsDefaults);
+    const mockingFetch = new MockingFetch();
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    mockingFetch.setMockFetchController(new ScriptedMockFetchController());
 
-    // Fetch the joke...
-    const expected200Response = await rateLimitingFetch.fetch(dadJokeUrl, options);
-    expect(expected200Response.status === 200);
-    const json = await expected200Response.json();
-    expect(json.id === dadJokeId);
+    await expect(rateLimitingFetch.fetch(dadJokeUrl, options)).rejects.toThrow(UnmatchedMockRequestError);
+  });
+
+  test("it should support stats recorders that only implement the required methods...", async () => {
+    const stats: RateLimitingFetchStats = { fetchAttemptCount: 0, fetchRetryCount: 0, totalFetchRetryDelay: 0 };
+    const statsRecorder: RateLimitingFetchStatsRecorder = {
+      logFetchAttempt: () => {
+        stats.fetchAttemptCount++;
+      },
+      logRetry: (delayMillis: number) => {
+        stats.fetchRetryCount++;
+        stats.totalFetchRetryDelay += delayMillis;
+      },
+      getRateLimitingFetchStats: () => stats,
+      reportToConsole: () => {}
+    };
+    const clock = new VirtualClock();
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      maxRetries: 1,
+      throttling: { algorithm: 'tokenBucket', bucketCapacity: 1, refillTokensPerSecond: 1 },
+      circuitBreaker: { failureThreshold: 2, openDurationMillis: 60000 },
+      concurrency: { maxConcurrency: 1 }
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+    const mockingFetch = new MockingFetch();
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    scriptedMockFetchController
+      .when({ url: dadJokeUrl })
+      .respondWith({ status: 503, headers: { 'Retry-After': '1' } })
+      .persist();
+
+    // The retries run out and the circuit opens, neither of which the recorder can log...
+    const responsePromise = rateLimitingFetch.fetch(dadJokeUrl, options);
+    await clock.runAll();
+    expect((await responsePromise).status).toBe(503);
+    await expect(rateLimitingFetch.fetch(dadJokeUrl, options)).rejects.toThrow('Circuit');
+    expect(stats).toEqual({ fetchAttemptCount: 2, fetchRetryCount: 1, totalFetchRetryDelay: 1000 });
+  });
+
+  test("it should retry rate limited requests to a real server...", async () => {
+    const server = new RateLimitedTestServer({
+      quota: { algorithm: 'slidingWindow', limit: 1, windowMillis: 500 }
+    });
+    await server.start();
+    try {
+      const rateLimitingFetch = new RateLimitingFetch(nonUiContextRateLimitingHandlingOptionsDefaults);
+      const firstResponse = await rateLimitingFetch.fetch(server.getUrl('/jokes/1'), options);
+      expect(firstResponse.status).toBe(200);
+      await firstResponse.text();
+
+      // The second request is rate limited and retried once the Retry-After delay has elapsed...
+      const secondResponse = await rateLimitingFetch.fetch(server.getUrl('/jokes/2'), options);
+      expect(secondResponse.status).toBe(200);
+      expect((await secondResponse.json()).path).toBe('/jokes/2');
+      const requestLog = server.getRequestLog();
+      expect(requestLog.map(entry => entry.status)).toEqual([200, 429, 200]);
+      expect(requestLog[2].time - requestLog[1].time).toBeGreaterThanOrEqual(1000);
+      expect(requestLog[0].headers['user-agent']).toContain('RateLimitingFetch');
+    } finally {
+      await server.stop();
+    }
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,129 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { LogFields, NoopLogger } from '../src/Logger';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/things';
+
+describe("RateLimitingFetchHooks", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+
+  const buildRateLimitingFetch = (options: Partial<RateLimitingHandlingOptions> = {}): RateLimitingFetch => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      ...options
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    return rateLimitingFetch;
+  };
+
+  const fetchWithRetries = async (rateLimitingFetch: RateLimitingFetch): Promise<Response> => {
+    const responsePromise = rateLimitingFetch.fetch(url);
+    // The rejection is handled by the caller once time has been advanced...
+    responsePromise.catch(() => {});
+    await clock.runAll();
+    return await responsePromise;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '1' } })
+      .thenRespondWith({ status: 200 });
+  });
+
+  test("events should be emitted in lifecycle order to listeners in the order they were added...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const events: string[] = [];
+    rateLimitingFetch.on('beforeAttempt', (event) => {
+      events.push(`first beforeAttempt ${event.attemptNumber}`);
+    });
+    rateLimitingFetch.on('beforeAttempt', (event) => {
+      events.push(`second beforeAttempt ${event.attemptNumber}`);
+    });
+    rateLimitingFetch.on('afterResponse', (event) => {
+      events.push(`afterResponse ${event.attemptNumber} ${event.response.status}`);
+    });
+    rateLimitingFetch.on('retryScheduled', (event) => {
+      events.push(`retryScheduled ${event.attemptNumber} ${event.retryDelayMillis}`);
+    });
+
+    expect((await fetchWithRetries(rateLimitingFetch)).status).toBe(200);
+
+    expect(events).toEqual([
+      'first beforeAttempt 1',
+      'second beforeAttempt 1',
+      'afterResponse 1 429',
+      'retryScheduled 1 1000',
+      'first beforeAttempt 2',
+      'second beforeAttempt 2',
+      'afterResponse 2 200'
+    ]);
+  });
+
+  test("asynchronous listeners should be awaited before the attempt is sent...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+    rateLimitingFetch.on('beforeAttempt', async (event) => {
+      await clock.sleep(500);
+      event.headers.set('Authorization', `Bearer token-${event.attemptNumber}`);
+    });
+
+    await fetchWithRetries(rateLimitingFetch);
+
+    const receivedRequests = scriptedMockFetchController.getReceivedRequests();
+    expect(receivedRequests.map(request => request.headers.get('Authorization'))).toEqual(['Bearer token-1', 'Bearer token-2']);
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([1500]);
+  });
+
+  test("listeners removed by calling off should no longer be called...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const attemptNumbers: number[] = [];
+    const listener = (event: { attemptNumber: number }) => {
+      attemptNumbers.push(event.attemptNumber);
+    };
+    rateLimitingFetch.on('afterResponse', listener);
+    rateLimitingFetch.on('retryScheduled', () => rateLimitingFetch.off('afterResponse', listener));
+
+    await fetchWithRetries(rateLimitingFetch);
+
+    expect(attemptNumbers).toEqual([1]);
+  });
+
+  test("errors thrown by listeners should be logged without failing the request or skipping other listeners...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch({ concurrency: { maxConcurrency: 1 } });
+    const loggedErrors: LogFields[] = [];
+    const logger = new NoopLogger();
+    logger.error = (message: string, fields?: LogFields) => {
+      loggedErrors.push({ message, ...fields });
+    };
+    rateLimitingFetch.setLogger(logger);
+    const listenerError = new Error('listener failed');
+    let afterResponseCount = 0;
+    rateLimitingFetch.on('afterResponse', () => {
+      throw listenerError;
+    });
+    rateLimitingFetch.on('afterResponse', async () => {
+      afterResponseCount++;
+    });
+
+    expect((await fetchWithRetries(rateLimitingFetch)).status).toBe(200);
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 204 });
+    expect((await fetchWithRetries(rateLimitingFetch)).status).toBe(204);
+
+    expect(afterResponseCount).toBe(3);
+    expect(loggedErrors.length).toBe(3);
+    expect(loggedErrors[0]).toEqual({ message: 'Lifecycle listener failed', eventName: 'afterResponse', error: listenerError });
+  });
+});
@@ -0,0 +1,134 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { prepareReplayableRequest } from '../src/ReplayableRequest';
+import { RequestBodyNotReplayableError } from '../src/RateLimitingErrors';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/uploads';
+
+/**
+ * Builds a stream that can only be read once and yields the given chunks.
+ */
+const buildStream = (chunks: string[]): ReadableStream<Uint8Array> => {
+  const textEncoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    pull: (controller) => {
+      if (chunks.length) {
+        controller.enqueue(textEncoder.encode(chunks.shift()));
+      } else {
+        controller.close();
+      }
+    }
+  });
+}
+
+describe("ReplayableRequest", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+
+  const buildRateLimitingFetch = (options: Partial<RateLimitingHandlingOptions> = {}): RateLimitingFetch => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      ...options
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    return rateLimitingFetch;
+  };
+
+  const fetchWithRetries = async (rateLimitingFetch: RateLimitingFetch, url: RequestInfo, init?: RequestInit): Promise<Response> => {
+    const responsePromise = rateLimitingFetch.fetch(url, init);
+    // The rejection is handled by the caller once time has been advanced...
+    responsePromise.catch(() => {});
+    await clock.runAll();
+    return await responsePromise;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '1' } })
+      .thenRespondWith({ status: 201 });
+  });
+
+  test("async iterable bodies should be buffered such that retries send them in full...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const body = (async function* () {
+      yield 'first ';
+      yield 'second';
+    })();
+
+    expect((await fetchWithRetries(rateLimitingFetch, url, { method: 'POST', body: body as any, duplex: 'half' } as RequestInit)).status).toBe(201);
+
+    expect(scriptedMockFetchController.getReceivedRequests().map(request => request.body)).toEqual(['first second', 'first second']);
+  });
+
+  test("stream bodies should be sent in full on every attempt...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+
+    await fetchWithRetries(rateLimitingFetch, url, {
+      method: 'POST',
+      body: buildStream(['chunk 1, ', 'chunk 2']),
+      duplex: 'half'
+    } as RequestInit);
+
+    expect(scriptedMockFetchController.getReceivedRequests().map(request => request.body)).toEqual(['chunk 1, chunk 2', 'chunk 1, chunk 2']);
+  });
+
+  test("Request objects should be cloned such that retries send their body in full...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const request = new Request(url, { method: 'PUT', body: 'document', headers: { 'Content-Type': 'text/plain' } });
+
+    expect((await fetchWithRetries(rateLimitingFetch, request)).status).toBe(201);
+
+    const receivedRequests = scriptedMockFetchController.getReceivedRequests();
+    expect(receivedRequests.map(receivedRequest => receivedRequest.body)).toEqual(['document', 'document']);
+    expect(receivedRequests.map(receivedRequest => receivedRequest.method)).toEqual(['PUT', 'PUT']);
+    expect(receivedRequests[1].headers.get('Content-Type')).toBe('text/plain');
+  });
+
+  test("bodies larger than maxBufferedBodyBytes should be streamed and not retried...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch({ maxBufferedBodyBytes: 8 });
+
+    let error: RequestBodyNotReplayableError;
+    try {
+      await fetchWithRetries(rateLimitingFetch, url, {
+        method: 'POST',
+        body: buildStream(['chunk 1, ', 'chunk 2, ', 'chunk 3']),
+        duplex: 'half'
+      } as RequestInit);
+    } catch (caughtError) {
+      error = caughtError;
+    }
+
+    expect(error).toBeInstanceOf(RequestBodyNotReplayableError);
+    expect(error.response.status).toBe(429);
+    expect(scriptedMockFetchController.getReceivedRequests().map(request => request.body)).toEqual(['chunk 1, chunk 2, chunk 3']);
+  });
+
+  test("the size limit should decide whether a stream is replayable...", async () => {
+    const bufferedRequest = await prepareReplayableRequest(url, { method: 'POST', body: buildStream(['12345678']) }, 8);
+    const streamedRequest = await prepareReplayableRequest(url, { method: 'POST', body: buildStream(['12345678', '9']) }, 8);
+
+    expect(bufferedRequest.isReplayable()).toBe(true);
+    expect(streamedRequest.isReplayable()).toBe(false);
+    streamedRequest.nextAttempt();
+    expect(() => streamedRequest.nextAttempt()).toThrow(RequestBodyNotReplayableError);
+  });
+
+  test("Request objects whose body has been consumed should be rejected...", async () => {
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const request = new Request(url, { method: 'POST', body: 'document' });
+    await request.text();
+
+    await expect(rateLimitingFetch.fetch(request)).rejects.toThrow(RequestBodyNotReplayableError);
+    scriptedMockFetchController.expectRequestCount(0);
+  });
+});
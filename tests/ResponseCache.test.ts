@@ -0,0 +1,185 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { SimpleRateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { CachedResponse, InMemoryResponseCacheStore } from '../src/ResponseCache';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/things';
+
+describe("ResponseCache", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+  let statsRecorder: SimpleRateLimitingFetchStatsRecorder;
+  let rateLimitingFetch: RateLimitingFetch;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+    statsRecorder = new SimpleRateLimitingFetchStatsRecorder();
+    rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      caching: {}
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+  });
+
+  test("fresh responses should be served from the cache...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60' }, body: 'first' })
+      .thenRespondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60' }, body: 'second' });
+
+    expect(await (await rateLimitingFetch.fetch(url)).text()).toBe('first');
+    await clock.advance(30000);
+    const cachedResponse = await rateLimitingFetch.fetch(url);
+    expect(await cachedResponse.text()).toBe('first');
+    expect(cachedResponse.headers.get('Age')).toBe('30');
+    scriptedMockFetchController.expectRequestCount(1);
+
+    await clock.advance(30000);
+    expect(await (await rateLimitingFetch.fetch(url)).text()).toBe('second');
+    expect(statsRecorder.getRateLimitingFetchStats().cacheHitCount).toBe(1);
+  });
+
+  test("stale responses should be revalidated with conditional requests...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, headers: { 'ETag': '"v1"', 'Cache-Control': 'no-cache' }, body: 'cached body' })
+      .thenRespondWith({ status: 304, headers: { 'ETag': '"v1"' } });
+
+    expect(await (await rateLimitingFetch.fetch(url)).text()).toBe('cached body');
+    const revalidatedResponse = await rateLimitingFetch.fetch(url);
+    expect(revalidatedResponse.status).toBe(200);
+    expect(await revalidatedResponse.text()).toBe('cached body');
+    expect(scriptedMockFetchController.getReceivedRequests()[1].headers.get('If-None-Match')).toBe('"v1"');
+    expect(rateLimitingFetch.getAttemptHistory(revalidatedResponse).length).toBe(1);
+    expect(statsRecorder.getRateLimitingFetchStats().cacheRevalidationCount).toBe(1);
+  });
+
+  test("unsafe requests should invalidate cached responses...", async () => {
+    scriptedMockFetchController
+      .when({ url: url, method: 'GET' })
+      .respondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60' }, body: 'before' })
+      .thenRespondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60' }, body: 'after' });
+    scriptedMockFetchController
+      .when({ url: url, method: 'PUT' })
+      .respondWith({ status: 204 });
+
+    expect(await (await rateLimitingFetch.fetch(url)).text()).toBe('before');
+    await rateLimitingFetch.fetch(url, { method: 'PUT', body: 'after' });
+    expect(await (await rateLimitingFetch.fetch(url)).text()).toBe('after');
+  });
+
+  test("responses larger than maxEntryBytes should be returned in full without being cached...", async () => {
+    const limitedRateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      caching: { maxEntryBytes: 8 }
+    });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    limitedRateLimitingFetch.setFetchImplementation(mockingFetch);
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60', 'Content-Length': '9' }, body: '123456789' })
+      .thenRespondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60' }, body: '987654321' })
+      .thenRespondWith({ status: 200, headers: { 'Cache-Control': 'max-age=60' }, body: 'small' })
+      .thenRespondWith({ status: 200, body: 'uncached' });
+
+    expect(await (await limitedRateLimitingFetch.fetch(url)).text()).toBe('123456789');
+    // Without a Content-Length header, the size is only known once the body has been read...
+    expect(await (await limitedRateLimitingFetch.fetch(url)).text()).toBe('987654321');
+    expect(await (await limitedRateLimitingFetch.fetch(url)).text()).toBe('small');
+    expect(await (await limitedRateLimitingFetch.fetch(url)).text()).toBe('small');
+    scriptedMockFetchController.expectRequestCount(3);
+  });
+
+  test("rate limited, failed and uncacheable responses should not evict cached responses...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, headers: { 'ETag': '"v1"', 'Cache-Control': 'no-cache' }, body: 'cached body' })
+      .thenRespondWith({ status: 429, headers: { 'Retry-After': '1' } })
+      .thenRespondWith({ status: 503 })
+      .thenRespondWith({ status: 200, headers: { 'Cache-Control': 'no-store' }, body: 'uncacheable' })
+      .thenRespondWith({ status: 304, headers: { 'ETag': '"v1"' } });
+    const nonRetryingRateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      maxRetries: 0,
+      caching: {}
+    });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    nonRetryingRateLimitingFetch.setFetchImplementation(mockingFetch);
+
+    expect(await (await nonRetryingRateLimitingFetch.fetch(url)).text()).toBe('cached body');
+    expect((await nonRetryingRateLimitingFetch.fetch(url)).status).toBe(429);
+    expect((await nonRetryingRateLimitingFetch.fetch(url)).status).toBe(503);
+    expect(await (await nonRetryingRateLimitingFetch.fetch(url)).text()).toBe('uncacheable');
+    expect(await (await nonRetryingRateLimitingFetch.fetch(url)).text()).toBe('cached body');
+    expect(scriptedMockFetchController.getReceivedRequests().map(request => request.headers.get('If-None-Match'))).toEqual([null, '"v1"', '"v1"', '"v1"', '"v1"']);
+  });
+
+  test("identical concurrent GET requests should share one request...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, body: 'shared', delayMillis: 100 });
+
+    const responsePromises = [1, 2, 3].map(() => rateLimitingFetch.fetch(url));
+    await clock.runAll();
+    const responses = await Promise.all(responsePromises);
+
+    expect(await Promise.all(responses.map(response => response.text()))).toEqual(['shared', 'shared', 'shared']);
+    scriptedMockFetchController.expectRequestCount(1);
+    expect(statsRecorder.getRateLimitingFetchStats().coalescedRequestCount).toBe(2);
+  });
+
+  test("concurrent GET requests with different request options should not share a request...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, body: 'separate', delayMillis: 100 })
+      .persist();
+
+    const responsePromises = [
+      rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a' }),
+      rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a' }),
+      rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-b' }),
+      rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a', priority: 1 }),
+      rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a', overrides: { maxRetries: 0 } }),
+      rateLimitingFetch.fetch(url, undefined, { partitionKey: 'tenant-a', overrides: { maxRetries: 0 } })
+    ];
+    await clock.runAll();
+    await Promise.all(responsePromises);
+
+    scriptedMockFetchController.expectRequestCount(5);
+    expect(statsRecorder.getRateLimitingFetchStats().coalescedRequestCount).toBe(1);
+  });
+
+  test("in-memory stores should evict the least recently used responses...", async () => {
+    const buildCachedResponse = (body: string): CachedResponse => ({
+      url: url,
+      status: 200,
+      statusText: '',
+      headers: [],
+      body: new TextEncoder().encode(body),
+      responseTime: 0,
+      initialAgeMillis: 0,
+      varyHeaders: []
+    });
+    const store = new InMemoryResponseCacheStore(2 * (url.length + 10));
+    await store.set('a', buildCachedResponse('aaaaaaaaaa'));
+    await store.set('b', buildCachedResponse('bbbbbbbbbb'));
+    await store.get('a');
+    await store.set('c', buildCachedResponse('cccccccccc'));
+
+    expect(await store.get('a')).toBeDefined();
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBeDefined();
+    expect(store.getSizeBytes()).toBe(2 * (url.length + 10));
+  });
+});
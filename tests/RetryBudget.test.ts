@@ -0,0 +1,34 @@
+import { DefaultRetryBudget } from '../src/RetryBudget';
+
+describe("RetryBudget", () => {
+  test("retries should be limited to the ratio of requests plus the floor...", () => {
+    const retryBudget = new DefaultRetryBudget({
+      retryRatio: 0.2,
+      minRetriesPerSecond: 0.1,
+      windowMillis: 10000
+    });
+    for (let requestNumber = 0; requestNumber < 10; requestNumber++) {
+      retryBudget.recordRequest();
+    }
+    // 10 requests * 0.2 + 0.1 retries per second * 10 seconds...
+    expect(retryBudget.getAllowedRetries()).toBe(3);
+    expect(retryBudget.tryWithdrawRetry()).toBe(true);
+    expect(retryBudget.tryWithdrawRetry()).toBe(true);
+    expect(retryBudget.tryWithdrawRetry()).toBe(true);
+    expect(retryBudget.tryWithdrawRetry()).toBe(false);
+  });
+
+  test("requests and retries should expire once they leave the window...", async () => {
+    const retryBudget = new DefaultRetryBudget({
+      retryRatio: 1,
+      windowMillis: 50
+    });
+    expect(retryBudget.tryWithdrawRetry()).toBe(false);
+    retryBudget.recordRequest();
+    expect(retryBudget.tryWithdrawRetry()).toBe(true);
+    expect(retryBudget.tryWithdrawRetry()).toBe(false);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    retryBudget.recordRequest();
+    expect(retryBudget.tryWithdrawRetry()).toBe(true);
+  });
+});
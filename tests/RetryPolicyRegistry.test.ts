@@ -0,0 +1,92 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { RetryPolicyRegistry } from '../src/RetryPolicyRegistry';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { FetchStatsContext, NoopRateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { LogFields, NoopLogger } from '../src/Logger';
+import { VirtualClock } from '../src/VirtualClock';
+
+describe("RetryPolicyRegistry", () => {
+  const registry = new RetryPolicyRegistry([{
+    name: 'no payment retries',
+    match: { path: '/payments/**', methods: ['post'] },
+    options: { maxRetries: 0 }
+  }, {
+    name: 'gateway retries',
+    match: { origin: 'https://api.example.com' },
+    options: { retryableStatusCodes: [429, 502, 503, 504] }
+  }]);
+
+  test("the first matching policy should apply...", () => {
+    const paymentOptions = registry.resolveOptions(
+      nonUiContextRateLimitingHandlingOptionsDefaults, 'https://api.example.com/payments/123/capture', { method: 'POST' });
+    expect(paymentOptions.maxRetries).toBe(0);
+    expect(paymentOptions.retryableStatusCodes).toBeUndefined();
+
+    const thingOptions = registry.resolveOptions(
+      nonUiContextRateLimitingHandlingOptionsDefaults, 'https://api.example.com/payments/123', { method: 'GET' });
+    expect(thingOptions.maxRetries).toBe(nonUiContextRateLimitingHandlingOptionsDefaults.maxRetries);
+    expect(thingOptions.retryableStatusCodes).toEqual([429, 502, 503, 504]);
+
+    expect(registry.resolveOptions(nonUiContextRateLimitingHandlingOptionsDefaults, 'https://other.example.com/things'))
+      .toBe(nonUiContextRateLimitingHandlingOptionsDefaults);
+  });
+
+  test("per-call overrides should take precedence over policies...", () => {
+    const options = registry.resolveOptions(
+      nonUiContextRateLimitingHandlingOptionsDefaults, 'https://api.example.com/things', undefined, { maxRetries: 5 });
+    expect(options.maxRetries).toBe(5);
+    expect(options.retryableStatusCodes).toEqual([429, 502, 503, 504]);
+  });
+
+  test("the name of the matching policy should be logged and passed to the stats recorder...", async () => {
+    const clock = new VirtualClock();
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      policies: [{ name: 'gateway retries', match: { origin: 'https://api.example.com' }, options: { maxRetries: 1 } }]
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    const mockingFetch = new MockingFetch();
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    scriptedMockFetchController
+      .when({ url: 'https://api.example.com/things' })
+      .respondWith({ status: 429, headers: { 'Retry-After': '1' } })
+      .thenRespondWith({ status: 200 });
+    const retryContexts: FetchStatsContext[] = [];
+    const statsRecorder = new NoopRateLimitingFetchStatsRecorder();
+    statsRecorder.logRetry = (delayMillis: number, context: FetchStatsContext) => {
+      retryContexts.push(context);
+    };
+    rateLimitingFetch.setRateLimitingFetchStatsRecorder(statsRecorder);
+    const loggedMessages: LogFields[] = [];
+    const logger = new NoopLogger();
+    logger.debug = (message: string, fields?: LogFields) => {
+      loggedMessages.push({ message, ...fields });
+    };
+    rateLimitingFetch.setLogger(logger);
+    rateLimitingFetch.setDebugEnabled(true);
+
+    const responsePromise = rateLimitingFetch.fetch('https://api.example.com/things');
+    await clock.runAll();
+    expect((await responsePromise).status).toBe(200);
+
+    expect(retryContexts).toEqual([{ origin: 'https://api.example.com', method: 'GET', policyName: 'gateway retries' }]);
+    const retryMessage = loggedMessages.find(fields => fields.message === 'Retry scheduled');
+    expect(retryMessage.policyName).toBe('gateway retries');
+  });
+
+  test("invalid policies should be rejected...", () => {
+    expect(() => new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      policies: [{ match: { path: 'payments' }, options: {} }]
+    })).toThrow('policies[0].match.path is payments');
+    expect(() => new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      policies: [{ match: {}, options: { retryableStatusCodes: [700] } }]
+    })).toThrow('policies[0].options.retryableStatusCodes contains 700');
+  });
+});
@@ -0,0 +1,35 @@
+import { SlidingWindowThrottler, TokenBucketThrottler } from '../src/Throttler';
+
+const url = 'https://api.example.com/things';
+const otherOriginUrl = 'https://other.example.com/things';
+
+describe("Throttler", () => {
+  test("a token bucket should admit a burst up to its capacity and then queue requests until a token is available...", async () => {
+    const throttler = new TokenBucketThrottler({
+      algorithm: 'tokenBucket',
+      bucketCapacity: 2,
+      refillTokensPerSecond: 20
+    });
+    expect(await throttler.throttle(url)).toBe(0);
+    expect(await throttler.throttle(url)).toBe(0);
+    const throttleDelayMillis = await throttler.throttle(url);
+    expect(throttleDelayMillis).toBeGreaterThanOrEqual(40);
+
+    // Other origins have their own bucket...
+    expect(await throttler.throttle(otherOriginUrl)).toBe(0);
+  });
+
+  test("a sliding window should admit requests in the order they arrive...", async () => {
+    const throttler = new SlidingWindowThrottler({
+      algorithm: 'slidingWindow',
+      maxRequestsPerWindow: 1,
+      windowMillis: 50
+    });
+    const admissionOrder: number[] = [];
+    await Promise.all([1, 2, 3].map(async (requestNumber) => {
+      await throttler.throttle(url);
+      admissionOrder.push(requestNumber);
+    }));
+    expect(admissionOrder).toEqual([1, 2, 3]);
+  });
+});
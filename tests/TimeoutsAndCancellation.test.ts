@@ -0,0 +1,176 @@
+import { getEventListeners } from 'events';
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults, RateLimitingHandlingOptions } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { RequestAbortedError, RequestTimeoutError } from '../src/RateLimitingErrors';
+import { VirtualClock } from '../src/VirtualClock';
+
+const url = 'https://api.example.com/things';
+
+describe("Timeouts and cancellation", () => {
+  let clock: VirtualClock;
+  let scriptedMockFetchController: ScriptedMockFetchController;
+
+  const buildRateLimitingFetch = (options: Partial<RateLimitingHandlingOptions> = {}): RateLimitingFetch => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      ...options
+    });
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom({ random: () => 0 });
+    const mockingFetch = new MockingFetch();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    return rateLimitingFetch;
+  };
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    scriptedMockFetchController = new ScriptedMockFetchController();
+  });
+
+  test("abort listeners should be removed from shared signals once response bodies are released...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, body: 'ok' })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const abortController = new AbortController();
+
+    const responses = await Promise.all([1, 2, 3].map(() => rateLimitingFetch.fetch(url, { signal: abortController.signal })));
+    expect(getEventListeners(abortController.signal, 'abort').length).toBe(3);
+    expect(await responses[0].text()).toBe('ok');
+    await responses[1].body.cancel();
+    expect(getEventListeners(abortController.signal, 'abort').length).toBe(1);
+
+    expect(await responses[2].text()).toBe('ok');
+    expect(getEventListeners(abortController.signal, 'abort').length).toBe(0);
+    expect(responses[2].url).toBe(url);
+  });
+
+  test("requests aborted while throttled should leave the queue without taking a token...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200 })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch({
+      throttling: { algorithm: 'tokenBucket', bucketCapacity: 1, refillTokensPerSecond: 1 }
+    });
+    const abortController = new AbortController();
+
+    await rateLimitingFetch.fetch(url);
+    const abortedResponsePromise = rateLimitingFetch.fetch(url, { signal: abortController.signal });
+    const responsePromise = rateLimitingFetch.fetch(url);
+    await clock.advance(500);
+    abortController.abort();
+    await expect(abortedResponsePromise).rejects.toThrow(RequestAbortedError);
+    await clock.runAll();
+    await responsePromise;
+
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([1000]);
+  });
+
+  test("requests should fail once their deadline passes while throttled...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200 })
+      .persist();
+    const rateLimitingFetch = buildRateLimitingFetch({
+      throttling: { algorithm: 'tokenBucket', bucketCapacity: 1, refillTokensPerSecond: 1 },
+      deadlineMillis: 500
+    });
+
+    await rateLimitingFetch.fetch(url);
+    const expiredResponsePromise = rateLimitingFetch.fetch(url);
+    const expiredResponseExpectation = expect(expiredResponsePromise).rejects.toMatchObject({
+      name: 'RequestTimeoutError',
+      timeoutType: 'deadline',
+      timeoutMillis: 500
+    });
+    await clock.advance(500);
+    await expiredResponseExpectation;
+    await expect(expiredResponsePromise).rejects.toThrow(RequestTimeoutError);
+
+    await clock.advance(500);
+    await rateLimitingFetch.fetch(url);
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([1000]);
+  });
+
+  test("attempts exceeding the attempt timeout should be aborted and retried...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, body: 'slow', delayMillis: 5000 })
+      .thenRespondWith({ status: 200, body: 'fast' });
+    const rateLimitingFetch = buildRateLimitingFetch({ attemptTimeoutMillis: 1000, maxRetries: 1 });
+
+    const responsePromise = rateLimitingFetch.fetch(url);
+    await clock.runAll();
+    const response = await responsePromise;
+
+    expect(await response.text()).toBe('fast');
+    const attempts = rateLimitingFetch.getAttemptHistory(response);
+    expect(attempts.length).toBe(2);
+    expect(attempts[0].error).toMatchObject({ name: 'RequestTimeoutError', timeoutType: 'attempt', timeoutMillis: 1000 });
+    expect(attempts[0].endTime - attempts[0].startTime).toBe(1000);
+  });
+
+  test("attempt timeouts should be thrown once retries run out...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 200, delayMillis: 5000 });
+    const rateLimitingFetch = buildRateLimitingFetch({ attemptTimeoutMillis: 1000, maxRetries: 0 });
+
+    const responsePromise = rateLimitingFetch.fetch(url);
+    const responseExpectation = expect(responsePromise).rejects.toMatchObject({ timeoutType: 'attempt', timeoutMillis: 1000 });
+    await clock.runAll();
+    await responseExpectation;
+    await expect(responsePromise).rejects.toThrow(RequestTimeoutError);
+    expect(clock.now()).toBe(1000);
+  });
+
+  test("attempts in flight when the deadline passes should fail with a deadline timeout...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ error: new TypeError('fetch failed') })
+      .thenRespondWith({ status: 200, delayMillis: 5000 });
+    const rateLimitingFetch = buildRateLimitingFetch({ attemptTimeoutMillis: 10000, deadlineMillis: 2000, initialRetryDelayMillis: 500 });
+
+    const responsePromise = rateLimitingFetch.fetch(url);
+    const responseExpectation = expect(responsePromise).rejects.toMatchObject({ timeoutType: 'deadline', timeoutMillis: 2000 });
+    await clock.runAll();
+    await responseExpectation;
+    expect(clock.now()).toBe(2000);
+    scriptedMockFetchController.expectRequestCount(2);
+  });
+
+  test("retries whose delay would overshoot the deadline should be skipped...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '10' } })
+      .thenRespondWith({ status: 200 });
+    const rateLimitingFetch = buildRateLimitingFetch({ deadlineMillis: 5000 });
+
+    expect((await rateLimitingFetch.fetch(url)).status).toBe(429);
+    expect(clock.now()).toBe(0);
+    scriptedMockFetchController.expectRequestCount(1);
+  });
+
+  test("aborting while waiting to retry should fail the request without another attempt...", async () => {
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '10' } })
+      .thenRespondWith({ status: 200 });
+    const rateLimitingFetch = buildRateLimitingFetch();
+    const abortController = new AbortController();
+
+    const responsePromise = rateLimitingFetch.fetch(url, { signal: abortController.signal });
+    await clock.advance(3000);
+    abortController.abort('user navigated away');
+
+    await expect(responsePromise).rejects.toMatchObject({ name: 'RequestAbortedError', reason: 'user navigated away' });
+    await clock.runAll();
+    scriptedMockFetchController.expectRequestCount(1);
+  });
+});
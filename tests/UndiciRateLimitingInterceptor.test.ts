@@ -0,0 +1,157 @@
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { SimpleRateLimitingFetchStatsRecorder } from '../src/RateLimitingFetchStats';
+import { UndiciDispatch, UndiciDispatchHandler, UndiciDispatchOptions, UndiciRateLimitingInterceptor } from '../src/UndiciRateLimitingInterceptor';
+import { VirtualClock } from '../src/VirtualClock';
+
+/**
+ * A scripted response of the fake dispatcher, or an error to fail the attempt with.
+ */
+type FakeAttempt = { status: number, headers?: string[], body?: string } | { error: any };
+
+/**
+ * Builds a dispatch function that drives handlers through the callbacks an undici dispatcher
+ * calls, answering each attempt with the next scripted attempt.
+ */
+const buildFakeDispatch = (attempts: FakeAttempt[], dispatchedOptions: UndiciDispatchOptions[]): UndiciDispatch => {
+  return (options: UndiciDispatchOptions, handler: UndiciDispatchHandler): boolean => {
+    dispatchedOptions.push(options);
+    const attempt = attempts.shift();
+    Promise.resolve().then(() => {
+      handler.onConnect(() => {});
+      if ('error' in attempt) {
+        handler.onError(attempt.error);
+        return;
+      }
+      handler.onResponseStarted();
+      handler.onHeaders(attempt.status, (attempt.headers ?? []).map(value => Buffer.from(value)), () => {}, '');
+      if (attempt.body) {
+        handler.onData(Buffer.from(attempt.body));
+      }
+      handler.onComplete(null);
+    });
+    return true;
+  };
+}
+
+/**
+ * Collects the callbacks received by the caller's handler.
+ */
+const buildRecordingHandler = (): UndiciDispatchHandler & { events: string[], done: Promise<void> } => {
+  const events: string[] = [];
+  let resolveDone: () => void;
+  const done = new Promise<void>(resolve => resolveDone = resolve);
+  return {
+    events: events,
+    done: done,
+    onConnect: () => events.push('connect'),
+    onResponseStarted: () => events.push('response started'),
+    onHeaders: (statusCode: number) => events.push(`headers ${statusCode}`) > 0,
+    onData: (chunk: Uint8Array) => events.push(`data ${Buffer.from(chunk).toString()}`) > 0,
+    onComplete: () => {
+      events.push('complete');
+      resolveDone();
+    },
+    onError: (error: Error) => {
+      events.push(`error ${error.name}`);
+      resolveDone();
+    }
+  };
+}
+
+describe("UndiciRateLimitingInterceptor", () => {
+  let clock: VirtualClock;
+  let interceptor: UndiciRateLimitingInterceptor;
+
+  beforeEach(() => {
+    clock = new VirtualClock();
+    interceptor = new UndiciRateLimitingInterceptor({ ...nonUiContextRateLimitingHandlingOptionsDefaults, maxRetries: 2 });
+    interceptor.setClock(clock);
+    interceptor.setSleeper(clock);
+    interceptor.setRandom({ random: () => 0 });
+  });
+
+  test("rate limited responses should be retried without reaching the caller's handler...", async () => {
+    const dispatchedOptions: UndiciDispatchOptions[] = [];
+    const dispatch = interceptor.intercept(buildFakeDispatch([
+      { status: 429, headers: ['Retry-After', '3'], body: 'slow down' },
+      { error: Object.assign(new Error('other side closed'), { code: 'UND_ERR_SOCKET' }) },
+      { status: 200, body: 'ok' }
+    ], dispatchedOptions));
+    const statsRecorder = new SimpleRateLimitingFetchStatsRecorder();
+    interceptor.setRateLimitingFetchStatsRecorder(statsRecorder);
+    const handler = buildRecordingHandler();
+
+    dispatch({ origin: 'https://api.example.com', path: '/things', method: 'GET' }, handler);
+    await clock.runAll();
+    await handler.done;
+
+    expect(handler.events).toEqual(['connect', 'response started', 'headers 200', 'data ok', 'complete']);
+    expect(dispatchedOptions.length).toBe(3);
+    // The network error backs off from the delay the rate limited response asked for...
+    expect(clock.now()).toBe(3000 + 6000);
+    expect(statsRecorder.getRateLimitingFetchStats()).toMatchObject({ fetchAttemptCount: 3, fetchRetryCount: 2 });
+  });
+
+  test("the last response should reach the caller's handler once retries run out...", async () => {
+    const dispatch = interceptor.intercept(buildFakeDispatch([
+      { status: 503 },
+      { status: 503 },
+      { status: 503, body: 'unavailable' }
+    ], []));
+    const handler = buildRecordingHandler();
+
+    dispatch({ origin: 'https://api.example.com', path: '/things', method: 'GET' }, handler);
+    await clock.runAll();
+    await handler.done;
+
+    expect(handler.events).toEqual(['connect', 'response started', 'headers 503', 'data unavailable', 'complete']);
+  });
+
+  test("requests with stream bodies should not be retried...", async () => {
+    const dispatchedOptions: UndiciDispatchOptions[] = [];
+    const dispatch = interceptor.intercept(buildFakeDispatch([{ status: 429 }], dispatchedOptions));
+    const handler = buildRecordingHandler();
+
+    dispatch({ origin: 'https://api.example.com', path: '/things', method: 'POST', body: (async function* () { yield 'a'; })() }, handler);
+    await handler.done;
+
+    expect(handler.events).toEqual(['connect', 'response started', 'headers 429', 'complete']);
+    expect(dispatchedOptions.length).toBe(1);
+  });
+
+  test("a dispatcher that throws when a retry is sent should fail the request...", async () => {
+    const fakeDispatch = buildFakeDispatch([{ status: 429, headers: ['Retry-After', '1'] }], []);
+    let dispatchCount = 0;
+    const dispatch = interceptor.intercept((options: UndiciDispatchOptions, handler: UndiciDispatchHandler): boolean => {
+      if (dispatchCount++ > 0) {
+        throw Object.assign(new Error('The client is destroyed'), { name: 'ClientDestroyedError' });
+      }
+      return fakeDispatch(options, handler);
+    });
+    const handler = buildRecordingHandler();
+
+    dispatch({ origin: 'https://api.example.com', path: '/things', method: 'GET' }, handler);
+    await clock.runAll();
+    await handler.done;
+
+    expect(handler.events).toEqual(['connect', 'error ClientDestroyedError']);
+  });
+
+  test("aborting while a retry is pending should fail the request...", async () => {
+    const dispatch = interceptor.intercept(buildFakeDispatch([{ status: 429, headers: ['Retry-After', '3'] }], []));
+    let abort: (error?: Error) => void;
+    const handler = buildRecordingHandler();
+    const onConnect = handler.onConnect;
+    handler.onConnect = (abortRequest) => {
+      abort = abortRequest;
+      onConnect(abortRequest);
+    };
+
+    dispatch({ origin: 'https://api.example.com', path: '/things', method: 'GET' }, handler);
+    await clock.advance(1000);
+    abort(new Error('caller gave up'));
+    await handler.done;
+
+    expect(handler.events).toEqual(['connect', 'error RequestAbortedError']);
+  });
+});
@@ -0,0 +1,77 @@
+import { RateLimitingFetch } from '../src/RateLimitingFetch';
+import { nonUiContextRateLimitingHandlingOptionsDefaults } from '../src/RateLimitingHandlingOptions';
+import { MockingFetch } from '../src/MockingFetch';
+import { ScriptedMockFetchController } from '../src/ScriptedMockFetchController';
+import { VirtualClock } from '../src/VirtualClock';
+import { SeededRandom } from '../src/Random';
+import { RequestAbortedError } from '../src/RateLimitingErrors';
+
+const url = 'https://api.example.com/things';
+
+describe("VirtualClock", () => {
+  test("it should wake sleeps in order only when time is advanced...", async () => {
+    const clock = new VirtualClock(1000);
+    const wakeTimes: number[] = [];
+    clock.sleep(200).then(() => wakeTimes.push(clock.now()));
+    clock.sleep(100).then(() => wakeTimes.push(clock.now()));
+    expect(clock.getPendingSleepCount()).toBe(2);
+
+    await clock.advance(150);
+    expect(wakeTimes).toEqual([1100]);
+    expect(clock.now()).toBe(1150);
+
+    await clock.runAll();
+    expect(wakeTimes).toEqual([1100, 1200]);
+    expect(clock.getPendingSleepCount()).toBe(0);
+  });
+
+  test("it should reject sleeps when their signal is aborted...", async () => {
+    const clock = new VirtualClock();
+    const abortController = new AbortController();
+    const sleep = clock.sleep(1000, abortController.signal);
+    abortController.abort();
+    await expect(sleep).rejects.toThrow(RequestAbortedError);
+    expect(clock.getPendingSleepCount()).toBe(0);
+  });
+
+  test("it should retry after a Retry-After of 5 seconds exactly and instantly...", async () => {
+    const rateLimitingFetch = new RateLimitingFetch({
+      ...nonUiContextRateLimitingHandlingOptionsDefaults,
+      maxJitterMultiplier: 1
+    });
+    const clock = new VirtualClock();
+    rateLimitingFetch.setClock(clock);
+    rateLimitingFetch.setSleeper(clock);
+    rateLimitingFetch.setRandom(new SeededRandom(42));
+    const mockingFetch = new MockingFetch();
+    rateLimitingFetch.setFetchImplementation(mockingFetch);
+    const scriptedMockFetchController = new ScriptedMockFetchController();
+    mockingFetch.setMockFetchController(scriptedMockFetchController);
+    scriptedMockFetchController
+      .when({ url: url })
+      .respondWith({ status: 429, headers: { 'Retry-After': '5' } })
+      .thenRespondWith({ status: 200 });
+
+    const responsePromise = rateLimitingFetch.fetch(url);
+    await clock.advance(4999);
+    scriptedMockFetchController.expectRequestCount(1);
+
+    await clock.advance(1);
+    const response = await responsePromise;
+    expect(response.status).toBe(200);
+    expect(scriptedMockFetchController.getRequestIntervalsMillis()).toEqual([5000]);
+  });
+});
+
+describe("SeededRandom", () => {
+  test("it should produce the same sequence for the same seed...", () => {
+    const first = new SeededRandom(7);
+    const second = new SeededRandom(7);
+    for (let i = 0; i < 10; i++) {
+      const value = first.random();
+      expect(value).toBe(second.random());
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});